@@ -0,0 +1,36 @@
+import Database from "better-sqlite3";
+import path from "path";
+
+/**
+ * The backend's SQLite database (labor/labor.db). Each area creates its
+ * own tables in its db module: labor/db.ts, locations/db.ts, pos/db.ts,
+ * wolt/db.ts and scheduler/db.ts.
+ */
+
+// LABOR_DB_PATH=:memory: gives a throwaway database (tests)
+const dbPath = process.env.LABOR_DB_PATH || path.join(__dirname, "..", "labor", "labor.db");
+
+console.log("📁 Labor DB path:", dbPath);
+
+export const db = new Database(dbPath);
+
+/**
+ * Adds a column to an existing table if it is not there yet (true when added).
+ * CREATE TABLE IF NOT EXISTS does not touch tables created by older versions.
+ */
+export function ensureColumn(table: string, column: string, definition: string) {
+  if (hasColumn(table, column)) return false;
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+export function tableColumns(table: string) {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(
+    (c) => c.name
+  );
+}
+
+export function hasColumn(table: string, column: string) {
+  return tableColumns(table).includes(column);
+}
@@ -1,6 +1,13 @@
 import { supabase } from "./supabaseClient";
 
+/**
+ * daily_inputs rows are per location (location_id = locations.id).
+ * Tables created before locations need the migration in
+ * supabase/migrations/20261018000000_daily_inputs_location.sql.
+ */
+
 export type DailyInput = {
+  locationId: string;
   date: string; // YYYY-MM-DD
   totalRevenue: number;
   woltRevenue: number;
@@ -9,6 +16,18 @@ export type DailyInput = {
   updatedAt: string;
 };
 
+function toDailyInput(x: any): DailyInput {
+  return {
+    locationId: x.location_id,
+    date: x.date,
+    totalRevenue: Number(x.total_revenue),
+    woltRevenue: Number(x.wolt_revenue),
+    laborCost: Number(x.labor_cost),
+    bcGroceryCost: Number(x.bc_grocery_cost),
+    updatedAt: x.updated_at,
+  };
+}
+
 export async function upsertDailyInput(
   input: Omit<DailyInput, "updatedAt">
 ): Promise<DailyInput> {
@@ -19,6 +38,7 @@ export async function upsertDailyInput(
   }
 
   const row = {
+    location_id: input.locationId,
     date: input.date,
     total_revenue: input.totalRevenue,
     wolt_revenue: input.woltRevenue,
@@ -29,23 +49,48 @@ export async function upsertDailyInput(
 
   const { data, error } = await supabase
     .from("daily_inputs")
-    .upsert(row, { onConflict: "date" })
+    .upsert(row, { onConflict: "location_id,date" })
     .select("*")
     .single();
 
   if (error) throw error;
 
-  return {
-    date: data.date,
-    totalRevenue: Number(data.total_revenue),
-    woltRevenue: Number(data.wolt_revenue),
-    laborCost: Number(data.labor_cost),
-    bcGroceryCost: Number(data.bc_grocery_cost),
-    updatedAt: data.updated_at,
-  };
+  return toDailyInput(data);
+}
+
+/** Whether the location has any daily_inputs row (false without Supabase). */
+export async function hasDailyInputs(locationId: string): Promise<boolean> {
+  if (!supabase) return false;
+
+  const { data, error } = await supabase
+    .from("daily_inputs")
+    .select("date")
+    .eq("location_id", locationId)
+    .limit(1);
+
+  if (error) throw error;
+
+  return (data ?? []).length > 0;
 }
 
-export async function listDailyInputs(): Promise<DailyInput[]> {
+/** The location's daily_inputs row of `date`, null when there is none (or no Supabase). */
+export async function getDailyInput(locationId: string, date: string): Promise<DailyInput | null> {
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from("daily_inputs")
+    .select("*")
+    .eq("location_id", locationId)
+    .eq("date", date)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toDailyInput(data) : null;
+}
+
+/** Daily inputs of the given locations, oldest first. */
+export async function listDailyInputs(locationIds: string[]): Promise<DailyInput[]> {
   // ✅ Allow KPI engine to work without Supabase
   // This lets the dashboard show POS live revenue even if Supabase is not configured yet.
   if (!supabase) {
@@ -55,16 +100,34 @@ export async function listDailyInputs(): Promise<DailyInput[]> {
   const { data, error } = await supabase
     .from("daily_inputs")
     .select("*")
+    .in("location_id", locationIds)
     .order("date", { ascending: true });
 
   if (error) throw error;
 
-  return (data ?? []).map((x: any) => ({
-    date: x.date,
-    totalRevenue: Number(x.total_revenue),
-    woltRevenue: Number(x.wolt_revenue),
-    laborCost: Number(x.labor_cost),
-    bcGroceryCost: Number(x.bc_grocery_cost),
-    updatedAt: x.updated_at,
-  }));
+  return (data ?? []).map(toDailyInput);
+}
+
+/**
+ * Per-date sums over locations, for the consolidated view.
+ * `locationId` of the sums is `locationId`, `updatedAt` the latest.
+ */
+export function consolidateDailyInputs(rows: DailyInput[], locationId: string): DailyInput[] {
+  const byDate = new Map<string, DailyInput>();
+
+  for (const r of rows) {
+    const sum = byDate.get(r.date);
+    if (!sum) {
+      byDate.set(r.date, { ...r, locationId });
+      continue;
+    }
+
+    sum.totalRevenue += r.totalRevenue;
+    sum.woltRevenue += r.woltRevenue;
+    sum.laborCost += r.laborCost;
+    sum.bcGroceryCost += r.bcGroceryCost;
+    if (r.updatedAt > sum.updatedAt) sum.updatedAt = r.updatedAt;
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
 }
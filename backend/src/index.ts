@@ -8,6 +8,12 @@ import { kpisRouter } from "./routes/kpis";
 import { posRouter } from "./routes/pos";
 import { importRouter } from "./routes/import";
 import { plandayRouter } from "./routes/planday";
+import { schedulerRouter } from "./routes/scheduler";
+import { locationsRouter } from "./routes/locations";
+import { salesMixRouter } from "./routes/salesMix";
+import { startScheduler } from "./scheduler/nightlyImports";
+import { resumeBackfillJobs } from "./pos/backfill";
+import { seedEmployees } from "./labor/employees";
 
 import laborRoutes from "./labor/laborRoutes";
 
@@ -23,6 +29,9 @@ app.use("/api/kpis", kpisRouter);
 app.use("/api/pos", posRouter);
 app.use("/api/import", importRouter);
 app.use("/api/planday", plandayRouter);
+app.use("/api/scheduler", schedulerRouter);
+app.use("/api/locations", locationsRouter);
+app.use("/api/sales-mix", salesMixRouter);
 
 // ✅ NEW – Labor (isolated, safe)
 app.use("/api/labor", laborRoutes);
@@ -46,4 +55,11 @@ const PORT = process.env.PORT ? Number(process.env.PORT) : 3001;
 
 app.listen(PORT, () => {
   console.log(`✅ Backend listening on port ${PORT}`);
+
+  // Employee tables of older databases, POS backfills interrupted by a restart
+  seedEmployees();
+  resumeBackfillJobs();
+
+  // Nightly imports (SCHEDULER_ENABLED=0 to turn off)
+  startScheduler();
 });
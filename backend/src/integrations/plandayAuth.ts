@@ -0,0 +1,323 @@
+import crypto from "crypto";
+import { db } from "../labor/db";
+import { providerMode, selectProvider } from "../providers/providerMode";
+import { PlandayProvider, mockPlandayProvider } from "../providers/planday";
+import { requireEnv } from "../utils/env";
+
+/**
+ * Planday OAuth (authorization code + rotating refresh token).
+ *
+ * - The refresh token Planday rotates on every refresh is persisted,
+ *   so restarts do not fall back to a stale PLANDAY_REFRESH_TOKEN.
+ * - The access token is cached until shortly before it expires.
+ * - `state` from /authorize is checked on /callback.
+ *
+ * PLANDAY_AUTH_BASE / PLANDAY_API_BASE can point at a local stand-in server;
+ * PLANDAY_PROVIDER=mock or replay answers API calls without Planday
+ * (providers/providerMode.ts).
+ */
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+function authBase() {
+  return (process.env.PLANDAY_AUTH_BASE || "https://id.planday.com").replace(/\/$/, "");
+}
+
+export function plandayApiBase() {
+  return (process.env.PLANDAY_API_BASE || "https://openapi.planday.com").replace(/\/$/, "");
+}
+
+type TokenRow = {
+  refresh_token: string | null;
+  access_token: string | null;
+  access_expires_at: string | null;
+  last_refresh_at: string | null;
+  last_error: string | null;
+  updated_at: string;
+};
+
+type TokenResponse = {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+};
+
+function loadRow(): TokenRow | undefined {
+  return db.prepare(`SELECT * FROM planday_tokens WHERE id = 1`).get() as
+    | TokenRow
+    | undefined;
+}
+
+function saveRow(patch: Partial<Omit<TokenRow, "updated_at">>) {
+  const current = loadRow();
+  const next: TokenRow = {
+    refresh_token: null,
+    access_token: null,
+    access_expires_at: null,
+    last_refresh_at: null,
+    last_error: null,
+    ...current,
+    ...patch,
+    updated_at: new Date().toISOString(),
+  };
+
+  db.prepare(
+    `
+    INSERT INTO planday_tokens
+      (id, refresh_token, access_token, access_expires_at, last_refresh_at, last_error, updated_at)
+    VALUES (1, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      refresh_token = excluded.refresh_token,
+      access_token = excluded.access_token,
+      access_expires_at = excluded.access_expires_at,
+      last_refresh_at = excluded.last_refresh_at,
+      last_error = excluded.last_error,
+      updated_at = excluded.updated_at
+  `
+  ).run(
+    next.refresh_token,
+    next.access_token,
+    next.access_expires_at,
+    next.last_refresh_at,
+    next.last_error,
+    next.updated_at
+  );
+}
+
+/* ================= STATE ================= */
+
+const pendingStates = new Map<string, number>();
+
+function pruneStates() {
+  const now = Date.now();
+  for (const [state, expiresAt] of pendingStates) {
+    if (expiresAt < now) pendingStates.delete(state);
+  }
+}
+
+export function buildAuthorizeUrl(): string {
+  pruneStates();
+
+  const state = crypto.randomBytes(16).toString("hex");
+  pendingStates.set(state, Date.now() + STATE_TTL_MS);
+
+  const scope = process.env.PLANDAY_SCOPE || "openid offline_access";
+
+  return (
+    `${authBase()}/connect/authorize` +
+    `?response_type=code` +
+    `&client_id=${encodeURIComponent(requireEnv("PLANDAY_CLIENT_ID"))}` +
+    `&redirect_uri=${encodeURIComponent(requireEnv("PLANDAY_REDIRECT_URI"))}` +
+    `&scope=${encodeURIComponent(scope)}` +
+    `&state=${state}`
+  );
+}
+
+/** One-time check of the `state` echoed back to /callback. */
+export function consumeAuthState(state: string | undefined): boolean {
+  pruneStates();
+  if (!state || !pendingStates.has(state)) return false;
+
+  pendingStates.delete(state);
+  return true;
+}
+
+/* ================= TOKENS ================= */
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const r = await fetch(`${authBase()}/connect/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: requireEnv("PLANDAY_CLIENT_ID"),
+      ...params,
+    }),
+  });
+
+  const text = await r.text();
+  let json: TokenResponse = {};
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = { error: text || "invalid token response" };
+  }
+
+  if (!r.ok || !json.access_token) {
+    throw new Error(
+      `Planday token request failed (${r.status}): ${json.error_description || json.error || "no access_token"}`
+    );
+  }
+
+  return json;
+}
+
+function storeTokens(json: TokenResponse, previousRefresh: string | null) {
+  const expiresInMs = Number(json.expires_in || 0) * 1000;
+
+  saveRow({
+    access_token: json.access_token ?? null,
+    access_expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+    // Planday rotates refresh tokens; keep the old one if none came back
+    refresh_token: json.refresh_token || previousRefresh,
+    last_refresh_at: new Date().toISOString(),
+    last_error: null,
+  });
+}
+
+export async function exchangeAuthorizationCode(code: string) {
+  const json = await requestToken({
+    grant_type: "authorization_code",
+    client_secret: requireEnv("PLANDAY_CLIENT_SECRET"),
+    redirect_uri: requireEnv("PLANDAY_REDIRECT_URI"),
+    code,
+  });
+
+  storeTokens(json, null);
+  return getConnectionStatus();
+}
+
+function currentRefreshToken(): { token: string | null; source: "store" | "env" | "none" } {
+  const stored = loadRow()?.refresh_token;
+  if (stored) return { token: stored, source: "store" };
+
+  const env = process.env.PLANDAY_REFRESH_TOKEN?.trim();
+  if (env) return { token: env, source: "env" };
+
+  return { token: null, source: "none" };
+}
+
+let refreshing: Promise<string> | null = null;
+
+async function refreshAccessToken(): Promise<string> {
+  const { token } = currentRefreshToken();
+  if (!token) {
+    throw new Error("Planday is not connected (no refresh token). Visit /api/planday/authorize");
+  }
+
+  try {
+    const json = await requestToken({
+      grant_type: "refresh_token",
+      client_secret: requireEnv("PLANDAY_CLIENT_SECRET"),
+      refresh_token: token,
+    });
+
+    storeTokens(json, token);
+    return json.access_token!;
+  } catch (err: any) {
+    saveRow({ access_token: null, access_expires_at: null, last_error: err?.message ?? String(err) });
+    throw err;
+  }
+}
+
+/**
+ * Cached access token; refreshed (once, for concurrent callers)
+ * when missing or about to expire.
+ */
+export async function getAccessToken(): Promise<string> {
+  const row = loadRow();
+  if (
+    row?.access_token &&
+    row.access_expires_at &&
+    new Date(row.access_expires_at).getTime() - EXPIRY_MARGIN_MS > Date.now()
+  ) {
+    return row.access_token;
+  }
+
+  if (!refreshing) {
+    refreshing = refreshAccessToken().finally(() => {
+      refreshing = null;
+    });
+  }
+
+  return refreshing;
+}
+
+function invalidateAccessToken() {
+  saveRow({ access_token: null, access_expires_at: null });
+}
+
+/**
+ * GET against the Planday Open API with the cached token.
+ * A 401 invalidates the token and retries once with a fresh one.
+ */
+async function livePlandayGet(pathAndQuery: string) {
+  const url = `${plandayApiBase()}${pathAndQuery}`;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const accessToken = await getAccessToken();
+
+    const r = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "X-ClientId": requireEnv("PLANDAY_CLIENT_ID"),
+        Accept: "application/json",
+      },
+    });
+
+    if (r.status === 401 && attempt === 0) {
+      invalidateAccessToken();
+      continue;
+    }
+
+    const text = await r.text();
+
+    if (!r.ok) {
+      throw new Error(`Planday API error ${r.status} from ${url}: ${text || "no body"}`);
+    }
+
+    // Planday answers some empty ranges with an HTML page
+    if (!text || text.startsWith("<")) return null;
+
+    return JSON.parse(text);
+  }
+
+  throw new Error(`Planday API unauthorized from ${url}`);
+}
+
+const livePlandayProvider: PlandayProvider = { get: livePlandayGet };
+
+/** GET through the Planday provider of the configured mode. */
+export async function plandayGet(pathAndQuery: string) {
+  return selectProvider("planday", {
+    live: () => livePlandayProvider,
+    mock: mockPlandayProvider,
+  }).get(pathAndQuery);
+}
+
+/* ================= STATUS ================= */
+
+export function getConnectionStatus() {
+  const row = loadRow();
+  const refresh = currentRefreshToken();
+  const expiresAt = row?.access_expires_at ?? null;
+
+  return {
+    provider: providerMode("planday"),
+    configured: !!(process.env.PLANDAY_CLIENT_ID && process.env.PLANDAY_CLIENT_SECRET),
+    connected: !!refresh.token,
+    refreshTokenSource: refresh.source,
+    accessTokenValid:
+      !!row?.access_token && !!expiresAt && new Date(expiresAt).getTime() > Date.now(),
+    accessTokenExpiresAt: expiresAt,
+    lastRefreshAt: row?.last_refresh_at ?? null,
+    lastError: row?.last_error ?? null,
+  };
+}
+
+/**
+ * Status plus a live check: obtains an access token (refreshing if needed).
+ * Mock and replay providers need no connection.
+ */
+export async function verifyConnection() {
+  if (providerMode("planday") !== "live") return { healthy: true, ...getConnectionStatus() };
+
+  try {
+    await getAccessToken();
+    return { healthy: true, ...getConnectionStatus() };
+  } catch (err: any) {
+    return { healthy: false, ...getConnectionStatus(), lastError: err?.message ?? String(err) };
+  }
+}
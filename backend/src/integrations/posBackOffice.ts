@@ -0,0 +1,291 @@
+import { db } from "../pos/db";
+import { posBackOfficeBase } from "./posOnline";
+import { providerMode } from "../providers/providerMode";
+import { envNumber, requireEnv } from "../utils/env";
+
+/**
+ * POS BackOffice session (bo.onlinepos.dk): the report API behind it has no
+ * API token, only the browser session cookie plus the XSRF token.
+ *
+ * - Logs in with POS_BO_USERNAME / POS_BO_PASSWORD in a headless browser
+ *   (Playwright) at POS_BO_LOGIN_URL and keeps the cookies for the API host
+ *   (POS_BO_API_BASE) and the XSRF-TOKEN cookie value.
+ * - The session is persisted and reused until a cookie expires or the API
+ *   answers 401/419; then it logs in again (once, for concurrent callers).
+ * - Without credentials, a session pasted into POS_BO_COOKIE / POS_BO_XSRF
+ *   is used as before (and not refreshed).
+ *
+ * Login succeeds when the page leaves the login URL after submitting.
+ * The form fields are found by POS_BO_USERNAME_SELECTOR,
+ * POS_BO_PASSWORD_SELECTOR and POS_BO_SUBMIT_SELECTOR, so a local stand-in
+ * login page can be used for testing. POS_BO_BROWSER_PATH points Playwright
+ * at an installed Chromium instead of its downloaded one.
+ */
+
+export type BackOfficeSession = { cookie: string; xsrf: string };
+
+type SessionRow = {
+  cookie: string | null;
+  xsrf: string | null;
+  expires_at: string | null;
+  obtained_at: string | null;
+  last_check_at: string | null;
+  last_check_status: number | null;
+  last_error: string | null;
+  updated_at: string;
+};
+
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const XSRF_COOKIE = "XSRF-TOKEN";
+
+/** Statuses meaning the session is no longer accepted (419 = XSRF mismatch). */
+export const SESSION_EXPIRED_STATUSES = [401, 419];
+
+function loginUrl() {
+  return process.env.POS_BO_LOGIN_URL || "https://bo.onlinepos.dk/login";
+}
+
+function loadRow(): SessionRow | undefined {
+  return db.prepare(`SELECT * FROM pos_bo_session WHERE id = 1`).get() as SessionRow | undefined;
+}
+
+function saveRow(patch: Partial<Omit<SessionRow, "updated_at">>) {
+  const next: SessionRow = {
+    cookie: null,
+    xsrf: null,
+    expires_at: null,
+    obtained_at: null,
+    last_check_at: null,
+    last_check_status: null,
+    last_error: null,
+    ...loadRow(),
+    ...patch,
+    updated_at: new Date().toISOString(),
+  };
+
+  db.prepare(
+    `
+    INSERT INTO pos_bo_session
+      (id, cookie, xsrf, expires_at, obtained_at, last_check_at,
+       last_check_status, last_error, updated_at)
+    VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      cookie = excluded.cookie,
+      xsrf = excluded.xsrf,
+      expires_at = excluded.expires_at,
+      obtained_at = excluded.obtained_at,
+      last_check_at = excluded.last_check_at,
+      last_check_status = excluded.last_check_status,
+      last_error = excluded.last_error,
+      updated_at = excluded.updated_at
+  `
+  ).run(
+    next.cookie,
+    next.xsrf,
+    next.expires_at,
+    next.obtained_at,
+    next.last_check_at,
+    next.last_check_status,
+    next.last_error,
+    next.updated_at
+  );
+}
+
+function credentialsConfigured() {
+  return !!(process.env.POS_BO_USERNAME?.trim() && process.env.POS_BO_PASSWORD?.trim());
+}
+
+/** Session pasted into env (cookie copied URL-encoded from the browser). */
+function envSession(): BackOfficeSession | null {
+  const cookie = process.env.POS_BO_COOKIE?.trim();
+  const xsrf = process.env.POS_BO_XSRF?.trim();
+  if (!cookie || !xsrf) return null;
+
+  return { cookie: cookie.replaceAll("%3D", "=").replaceAll("%2B", "+"), xsrf };
+}
+
+function storedSession(): BackOfficeSession | null {
+  const row = loadRow();
+  if (!row?.cookie || !row.xsrf) return null;
+  if (row.expires_at && new Date(row.expires_at).getTime() - EXPIRY_MARGIN_MS < Date.now()) {
+    return null;
+  }
+  return { cookie: row.cookie, xsrf: row.xsrf };
+}
+
+/* ================= LOGIN ================= */
+
+async function login(): Promise<BackOfficeSession> {
+  const username = requireEnv("POS_BO_USERNAME");
+  const password = requireEnv("POS_BO_PASSWORD");
+  const url = loginUrl();
+  const timeout = envNumber("POS_BO_LOGIN_TIMEOUT_MS", 30 * 1000);
+
+  const { chromium } = await import("playwright");
+  const browser = await chromium.launch({
+    headless: true,
+    executablePath: process.env.POS_BO_BROWSER_PATH || undefined,
+  });
+
+  try {
+    const context = await browser.newContext();
+    const page = await context.newPage();
+    page.setDefaultTimeout(timeout);
+
+    await page.goto(url);
+    await page
+      .locator(
+        process.env.POS_BO_USERNAME_SELECTOR ||
+          'input[type="email"], input[name="email"], input[name="username"]'
+      )
+      .first()
+      .fill(username);
+    await page
+      .locator(process.env.POS_BO_PASSWORD_SELECTOR || 'input[type="password"]')
+      .first()
+      .fill(password);
+
+    const loginPage = new URL(page.url());
+    await Promise.all([
+      page
+        .waitForURL(
+          (u) => u.origin !== loginPage.origin || u.pathname !== loginPage.pathname,
+          { timeout }
+        )
+        .catch(() => {
+          throw new Error("POS BackOffice login failed (still on the login page)");
+        }),
+      page.locator(process.env.POS_BO_SUBMIT_SELECTOR || 'button[type="submit"]').first().click(),
+    ]);
+    await page.waitForLoadState("networkidle").catch(() => undefined);
+
+    // Cookies the browser would send to the report API
+    const cookies = await context.cookies(posBackOfficeBase());
+    const xsrfCookie =
+      cookies.find((c) => c.name === XSRF_COOKIE) ??
+      (await context.cookies()).find((c) => c.name === XSRF_COOKIE);
+
+    if (!xsrfCookie) throw new Error(`POS BackOffice login gave no ${XSRF_COOKIE} cookie`);
+    if (cookies.length === 0) throw new Error("POS BackOffice login gave no cookies for the API");
+
+    const expiries = cookies.map((c) => c.expires).filter((e) => e > 0);
+
+    const session = {
+      cookie: cookies.map((c) => `${c.name}=${c.value}`).join("; "),
+      xsrf: decodeURIComponent(xsrfCookie.value),
+    };
+
+    saveRow({
+      ...session,
+      expires_at: expiries.length ? new Date(Math.min(...expiries) * 1000).toISOString() : null,
+      obtained_at: new Date().toISOString(),
+      last_check_status: null,
+      last_error: null,
+    });
+
+    return session;
+  } finally {
+    await browser.close();
+  }
+}
+
+let refreshing: Promise<BackOfficeSession> | null = null;
+
+/** Logs in again (once, for concurrent callers). */
+export async function refreshBackOfficeSession(): Promise<BackOfficeSession> {
+  if (!refreshing) {
+    refreshing = login()
+      .catch((err: unknown) => {
+        saveRow({ last_error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+
+  return refreshing;
+}
+
+/**
+ * Current session: the stored one while it has not expired, else a fresh
+ * login when credentials are set, else the env session.
+ */
+export async function getBackOfficeSession(): Promise<BackOfficeSession> {
+  const stored = storedSession();
+  if (stored) return stored;
+
+  if (credentialsConfigured()) return refreshBackOfficeSession();
+
+  const env = envSession();
+  if (env) return env;
+
+  throw new Error(
+    "POS BackOffice is not configured (set POS_BO_USERNAME / POS_BO_PASSWORD, or POS_BO_COOKIE / POS_BO_XSRF)"
+  );
+}
+
+function invalidateSession() {
+  saveRow({ cookie: null, xsrf: null, expires_at: null });
+}
+
+/**
+ * Runs a BackOffice call with the session. A 401/419 answer logs in again
+ * and retries once, when credentials are configured. Mock and replay POS
+ * providers need no session.
+ */
+export async function withBackOfficeSession<T extends { status: number }>(
+  call: (session: BackOfficeSession) => Promise<T>
+): Promise<T> {
+  if (providerMode("pos") !== "live") return call({ cookie: "", xsrf: "" });
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await call(await getBackOfficeSession());
+    saveRow({ last_check_at: new Date().toISOString(), last_check_status: result.status });
+
+    const expired = SESSION_EXPIRED_STATUSES.includes(result.status);
+    if (expired) invalidateSession();
+    if (!expired || attempt > 0 || !credentialsConfigured()) return result;
+  }
+}
+
+/* ================= STATUS ================= */
+
+export function getBackOfficeSessionStatus() {
+  const row = loadRow();
+  const stored = storedSession();
+  const env = envSession();
+
+  const status = row?.last_check_status ?? null;
+
+  return {
+    configured: credentialsConfigured(),
+    loginUrl: loginUrl(),
+    sessionSource: stored ? "login" : env ? "env" : "none",
+    sessionValid: !!(stored || env) && !SESSION_EXPIRED_STATUSES.includes(status),
+    expiresAt: row?.expires_at ?? null,
+    obtainedAt: row?.obtained_at ?? null,
+    lastCheckAt: row?.last_check_at ?? null,
+    lastCheckStatus: status,
+    lastError: row?.last_error ?? null,
+  };
+}
+
+/**
+ * Status plus a live check: one BackOffice call through `probe`
+ * (logging in first when needed).
+ */
+export async function verifyBackOfficeSession(
+  probe: (session: BackOfficeSession) => Promise<{ status: number; ok: boolean }>
+) {
+  try {
+    const result = await withBackOfficeSession(probe);
+    return { healthy: result.ok, ...getBackOfficeSessionStatus() };
+  } catch (err) {
+    return {
+      healthy: false,
+      ...getBackOfficeSessionStatus(),
+      lastError: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
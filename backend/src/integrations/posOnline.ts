@@ -1,137 +1,402 @@
-import fetch from "node-fetch";
+import { addDays, businessDayRangeUnix, businessToday } from "../utils/businessCalendar";
+import { envNumber, requireEnv } from "../utils/env";
+import { selectProvider } from "../providers/providerMode";
+import { PosProvider, mockPosProvider } from "../providers/pos";
 
-function requireEnv(name: string): string {
-  const v = process.env[name];
-  if (!v || !v.trim()) throw new Error(`Missing ${name} env var`);
-  return v.trim();
-}
+/**
+ * POS Online client: every call to api.onlinepos.dk (and the BackOffice
+ * report API) goes through here.
+ *
+ * - Day ranges are business days (utils/businessCalendar.ts): Copenhagen
+ *   time from the day cutoff to the next day's cutoff.
+ * - Every call is for a location's firmaid (locations/locations.ts).
+ *   Koncern revenue covers every firmaid in the group and is filtered to
+ *   the requested ones; the other endpoints are scoped by the firmaid header.
+ * - Requests time out (POS_TIMEOUT_MS, default 10000), are retried with
+ *   exponential backoff on 5xx, 429 and network errors (POS_MAX_RETRIES,
+ *   default 3) and at most POS_MAX_CONCURRENCY (default 4) run at once.
+ *
+ * POS_API_BASE can point at a local stand-in server; POS_PROVIDER=mock or
+ * replay answers without any server (providers/providerMode.ts).
+ */
 
-const BASE = "https://api.onlinepos.dk/api";
+export type PosLocationSales = {
+  userid: number;
+  amount: number;
+  pax: string | number;
+};
 
-function getHeaders(): Record<string, string> {
-  return {
-    token: requireEnv("POS_API_TOKEN"),
-    firmaid: requireEnv("POS_FIRMAID"),
-    Accept: "application/json",
+/** GET /getByUnixTimeSales/{from}/{to} */
+export type PosUnixTimeSalesResponse = {
+  period?: string;
+  location?: PosLocationSales[];
+};
+
+export type PosKoncernEntry = {
+  entry: {
+    firmaid: number | string;
+    revenue: number | string;
+    [key: string]: unknown;
   };
+};
+
+/** GET /koncern/getKoncernRevenue/{from}/{to}; an empty range is `[]`. */
+export type PosKoncernRevenueResponse = { entries?: PosKoncernEntry[] } | PosKoncernEntry[];
+
+/**
+ * Product sales in a unix range (POS_PRODUCT_SALES_PATH). One line per
+ * product, possibly split per POS user; field names vary, see
+ * toProductSalesLine.
+ */
+export type PosProductSalesResponse =
+  | { products?: Record<string, unknown>[]; items?: Record<string, unknown>[] }
+  | Record<string, unknown>[];
+
+export type ProductSalesLine = {
+  productId: string;
+  name: string;
+  category: string | null;
+  quantity: number;
+  revenue: number;
+};
+
+/** GET rest.onlinepos.dk/reports/getBasicSales */
+export type PosBasicSalesResponse = {
+  data?: {
+    revenue?: number | string;
+    transaction_count?: number | string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+};
+
+export type UnixRange = { fromUnix: number; toUnix: number };
+
+const BACKOFF_BASE_MS = 500;
+const MAX_BACKOFF_MS = 10 * 1000;
+
+function apiBase() {
+  return (process.env.POS_API_BASE || "https://api.onlinepos.dk/api").replace(/\/$/, "");
 }
 
-async function apiGet(path: string) {
-  const url = `${BASE}${path}`;
+export function posBackOfficeBase() {
+  return (process.env.POS_BO_API_BASE || "https://rest.onlinepos.dk").replace(/\/$/, "");
+}
 
-  const res = await fetch(url, {
-    method: "GET",
-    headers: getHeaders() as any,
-  });
+/* ================= DATES ================= */
+
+/**
+ * Business days `from`..`to` (inclusive) as a unix range.
+ * With `liveToNow`, a range ending today stops at the current second.
+ */
+export function dayRangeUnix(from: string, to: string, opts: { liveToNow?: boolean } = {}): UnixRange {
+  const range = businessDayRangeUnix(from, to);
+  if (opts.liveToNow && to === businessToday()) {
+    range.toUnix = Math.floor(Date.now() / 1000);
+  }
+  return range;
+}
 
-  const json = await res.json().catch(() => null);
+/* ================= REQUESTS ================= */
 
-  if (!res.ok) {
-    throw new Error(`OnlinePOS API error ${res.status} from ${url}: ${JSON.stringify(json)}`);
+let active = 0;
+const waiting: (() => void)[] = [];
+
+async function acquireSlot() {
+  if (active < Math.max(1, envNumber("POS_MAX_CONCURRENCY", 4))) {
+    active++;
+    return;
   }
+  // The releasing request hands its slot over, so `active` stays the same
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waiting.shift();
+  if (next) next();
+  else active--;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function retryDelayMs(attempt: number, retryAfter: string | null) {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
 
-  return json;
+  const backoff = BACKOFF_BASE_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * BACKOFF_BASE_MS, MAX_BACKOFF_MS);
 }
 
+type PosResponse<T> = { url: string; status: number; ok: boolean; json: T | null; text: string };
+
 /**
- * Response example:
- * {"period":"...","location":[{"userid":34692,"amount":3929,"pax":"0"}]}
- * Revenue = SUM(location[].amount)
+ * GET with timeout, retries and the concurrency limit. Returns the final
+ * response whatever its status; throws only when no response came back.
  */
-function extractRevenue(apiResponse: any): number {
-  if (!apiResponse) return 0;
+async function posRequest<T>(url: string, headers: Record<string, string>): Promise<PosResponse<T>> {
+  const retries = Math.max(0, envNumber("POS_MAX_RETRIES", 3));
+  const timeoutMs = envNumber("POS_TIMEOUT_MS", 10 * 1000);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot();
+
+    let response: PosResponse<T> | null = null;
+    let retryAfter: string | null = null;
+    let failure: Error | null = null;
 
-  if (Array.isArray(apiResponse.location)) {
-    return apiResponse.location.reduce((sum: number, loc: any) => {
-      return sum + Number(loc?.amount || 0);
-    }, 0);
+    try {
+      const r = await fetch(url, {
+        method: "GET",
+        headers: { Accept: "application/json", ...headers },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      const text = await r.text();
+      let json: T | null = null;
+      try {
+        json = text ? JSON.parse(text) : null;
+      } catch {
+        json = null;
+      }
+
+      response = { url, status: r.status, ok: r.ok, json, text };
+      retryAfter = r.headers.get("retry-after");
+    } catch (err: any) {
+      failure =
+        err?.name === "TimeoutError"
+          ? new Error(`POS Online request timed out after ${timeoutMs} ms: ${url}`)
+          : new Error(`POS Online request failed: ${url}: ${err?.message ?? err}`);
+    } finally {
+      releaseSlot();
+    }
+
+    const retryable = failure !== null || response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= retries) {
+      if (failure) throw failure;
+      return response;
+    }
+
+    await sleep(retryDelayMs(attempt, retryAfter));
   }
+}
 
-  return 0;
+/** GET against the POS Online API; non-2xx answers throw. */
+async function apiGet<T>(path: string, firmaId: number): Promise<T | null> {
+  const r = await posRequest<T>(`${apiBase()}${path}`, {
+    token: requireEnv("POS_API_TOKEN"),
+    firmaid: String(firmaId),
+  });
+
+  if (!r.ok) {
+    throw new Error(`POS Online API error ${r.status} from ${r.url}: ${r.text || "no body"}`);
+  }
+
+  return r.json;
 }
 
-function toUnixSeconds(d: Date) {
-  return Math.floor(d.getTime() / 1000);
+/** POS_PRODUCT_SALES_PATH has no default: the item sales path is account specific. */
+function productSalesPath(fromUnix: number, toUnix: number) {
+  return requireEnv("POS_PRODUCT_SALES_PATH")
+    .replace("{from}", String(fromUnix))
+    .replace("{to}", String(toUnix));
 }
 
-function startOfDayUtc(dateStr: string) {
-  return new Date(dateStr + "T00:00:00.000Z");
+function basicSalesUrl(venue: number, date: string) {
+  return `${posBackOfficeBase()}/reports/getBasicSales?target=venue@${venue}&date=${date}`;
 }
-function endOfDayUtc(dateStr: string) {
-  return new Date(dateStr + "T23:59:59.999Z");
+
+/* ================= PROVIDER ================= */
+
+const livePosProvider: PosProvider = {
+  unixTimeSales: (firmaId, fromUnix, toUnix) =>
+    apiGet(`/getByUnixTimeSales/${fromUnix}/${toUnix}`, firmaId),
+
+  koncernRevenue: (firmaId, fromUnix, toUnix) =>
+    apiGet(`/koncern/getKoncernRevenue/${fromUnix}/${toUnix}`, firmaId),
+
+  productSales: (firmaId, fromUnix, toUnix) =>
+    apiGet(productSalesPath(fromUnix, toUnix), firmaId),
+
+  basicSales: async (venue, date, session) => {
+    const r = await posRequest<PosBasicSalesResponse>(basicSalesUrl(venue, date), {
+      Cookie: session.cookie,
+      "x-xsrf-token": session.xsrf,
+      "X-Requested-With": "XMLHttpRequest",
+      Origin: "https://bo.onlinepos.dk",
+      Referer: "https://bo.onlinepos.dk/",
+    });
+    return { status: r.status, ok: r.ok, json: r.json, text: r.text };
+  },
+};
+
+/** The POS provider of the configured mode (POS_PROVIDER / PROVIDER_MODE). */
+function posProvider(): PosProvider {
+  return selectProvider("pos", { live: () => livePosProvider, mock: mockPosProvider });
 }
 
+function toNumber(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/* ================= ENDPOINTS ================= */
+
 /**
- * ✅ Exported: any unix range revenue
+ * Sales of one firmaid in a unix range.
+ * Response example:
+ * {"period":"...","location":[{"userid":34692,"amount":3929,"pax":"0"}]}
+ * Revenue = SUM(location[].amount), covers = SUM(location[].pax)
  */
-export async function getRevenueByUnixRange(fromUnix: number, toUnix: number) {
-  const json = await apiGet(`/getByUnixTimeSales/${fromUnix}/${toUnix}`);
+export async function getRevenueByUnixRange(firmaId: number, fromUnix: number, toUnix: number) {
+  const url = `${apiBase()}/getByUnixTimeSales/${fromUnix}/${toUnix}`;
+  const json = await posProvider().unixTimeSales(firmaId, fromUnix, toUnix);
+
+  const locations = Array.isArray(json?.location) ? json.location : [];
+
   return {
     ok: true as const,
-    revenue: extractRevenue(json),
+    revenue: locations.reduce((sum, loc) => sum + toNumber(loc?.amount), 0),
+    covers: locations.reduce((sum, loc) => sum + toNumber(loc?.pax), 0),
     raw: json,
+    url,
     fromUnix,
     toUnix,
   };
 }
 
-// ✅ Exported: TODAY revenue by date
-export async function getBasicSalesByDate(dateStr: string) {
-  const fromUnix = toUnixSeconds(startOfDayUtc(dateStr));
-  const toUnix = toUnixSeconds(endOfDayUtc(dateStr));
-  return getRevenueByUnixRange(fromUnix, toUnix);
+/** Sales of business days `from`..`to` (inclusive). */
+export async function getRevenueByDateRange(firmaId: number, from: string, to: string) {
+  const { fromUnix, toUnix } = dayRangeUnix(from, to);
+  return getRevenueByUnixRange(firmaId, fromUnix, toUnix);
 }
 
-// ✅ Exported: WEEK revenue (full Monday–Sunday) computed from dateStr
-export async function getBasicSalesByWeek(
-  _weekNumber: number,
-  _weekYear: number,
-  dateStr?: string
-) {
-  if (!dateStr) throw new Error("Missing dateStr in getBasicSalesByWeek");
+/**
+ * Koncern revenue in a unix range, filtered to `firmaIds`.
+ * The endpoint returns every firmaid in the group; unfiltered totals
+ * would include locations that were not asked for.
+ */
+export async function getKoncernRevenue(firmaIds: number[], fromUnix: number, toUnix: number) {
+  if (firmaIds.length === 0) throw new Error("No POS firmaid to get koncern revenue for");
 
-  const d = startOfDayUtc(dateStr);
-  const day = d.getUTCDay(); // Sun=0
-  const diffToMonday = day === 0 ? -6 : 1 - day;
+  const url = `${apiBase()}/koncern/getKoncernRevenue/${fromUnix}/${toUnix}`;
+  const json = await posProvider().koncernRevenue(firmaIds[0], fromUnix, toUnix);
 
-  const monday = new Date(d);
-  monday.setUTCDate(d.getUTCDate() + diffToMonday);
-  monday.setUTCHours(0, 0, 0, 0);
+  const all: PosKoncernEntry[] = Array.isArray(json)
+    ? json
+    : Array.isArray(json?.entries)
+    ? json.entries
+    : [];
 
-  const sunday = new Date(monday);
-  sunday.setUTCDate(monday.getUTCDate() + 6);
-  sunday.setUTCHours(23, 59, 59, 999);
+  const entries = all.filter((x) => firmaIds.includes(Number(x?.entry?.firmaid)));
 
-  return getRevenueByUnixRange(toUnixSeconds(monday), toUnixSeconds(sunday));
+  return {
+    url,
+    raw: json,
+    entries,
+    targetFirmaIds: firmaIds,
+    revenue: entries.reduce((sum, x) => sum + toNumber(x?.entry?.revenue), 0),
+    fromUnix,
+    toUnix,
+  };
 }
 
-// ✅ Exported: MONTH revenue (full month) computed from dateStr
-export async function getBasicSalesByMonth(
-  _month: number,
-  _monthYear: number,
-  dateStr?: string
-) {
-  if (!dateStr) throw new Error("Missing dateStr in getBasicSalesByMonth");
+/** First present field of `keys` on a product line. */
+function pick(line: Record<string, unknown>, keys: string[]) {
+  const key = keys.find((k) => line[k] !== undefined && line[k] !== null && line[k] !== "");
+  return key ? line[key] : undefined;
+}
 
-  const d = startOfDayUtc(dateStr);
-  const year = d.getUTCFullYear();
-  const month = d.getUTCMonth();
+function toProductSalesLine(line: Record<string, unknown>): ProductSalesLine {
+  const name = String(pick(line, ["name", "productname", "product_name"]) ?? "").trim();
+  const category = pick(line, ["category", "categoryname", "category_name", "groupname", "group"]);
 
-  const first = new Date(Date.UTC(year, month, 1, 0, 0, 0, 0));
-  const last = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
+  return {
+    productId: String(pick(line, ["productid", "product_id", "id"]) ?? name),
+    name: name || "Unknown product",
+    category: category ? String(category).trim() : null,
+    quantity: toNumber(pick(line, ["quantity", "qty", "count", "amount_sold"])),
+    revenue: toNumber(pick(line, ["revenue", "total", "amount", "price_total"])),
+  };
+}
+
+/**
+ * Product (item) sales of one firmaid in a unix range, one line per
+ * product. The path comes from POS_PRODUCT_SALES_PATH with {from} and
+ * {to} replaced; it is required for the live provider.
+ */
+export async function getProductSalesByUnixRange(firmaId: number, fromUnix: number, toUnix: number) {
+  const json = await posProvider().productSales(firmaId, fromUnix, toUnix);
+
+  const raw = Array.isArray(json)
+    ? json
+    : Array.isArray(json?.products)
+    ? json.products
+    : Array.isArray(json?.items)
+    ? json.items
+    : [];
+
+  // Lines split per POS user are merged per product
+  const byProduct = new Map<string, ProductSalesLine>();
+  for (const line of raw.filter((x) => x && typeof x === "object").map(toProductSalesLine)) {
+    const sum = byProduct.get(line.productId);
+    if (!sum) {
+      byProduct.set(line.productId, line);
+      continue;
+    }
+    sum.quantity += line.quantity;
+    sum.revenue += line.revenue;
+  }
+
+  return { raw: json, lines: [...byProduct.values()], fromUnix, toUnix };
+}
 
-  return getRevenueByUnixRange(toUnixSeconds(first), toUnixSeconds(last));
+/**
+ * BackOffice basic sales for one venue and date (live for today).
+ * Needs the BackOffice session cookie and XSRF token. Non-2xx answers are
+ * returned, not thrown, so callers can pass the status on.
+ */
+export async function getBackOfficeBasicSales(
+  venue: number,
+  date: string,
+  session: { cookie: string; xsrf: string }
+) {
+  const r = await posProvider().basicSales(venue, date, session);
+  const json: PosBasicSalesResponse = r.json ?? { raw: r.text };
+
+  return {
+    ok: r.ok,
+    status: r.status,
+    url: basicSalesUrl(venue, date),
+    revenue: toNumber(json?.data?.revenue),
+    transactionCount: toNumber(json?.data?.transaction_count),
+    raw: json,
+  };
 }
 
-// ✅ Exported: YEAR revenue (full year) computed from dateStr
-export async function getBasicSalesByYear(_year: number, dateStr?: string) {
-  if (!dateStr) throw new Error("Missing dateStr in getBasicSalesByYear");
+/* ================= CALENDAR PERIODS ================= */
 
-  const d = startOfDayUtc(dateStr);
-  const year = d.getUTCFullYear();
+// Sales of one business day
+export async function getBasicSalesByDate(firmaId: number, dateStr: string) {
+  return getRevenueByDateRange(firmaId, dateStr, dateStr);
+}
 
-  const first = new Date(Date.UTC(year, 0, 1, 0, 0, 0, 0));
-  const last = new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999));
+// Full Monday–Sunday week containing dateStr
+export async function getBasicSalesByWeek(firmaId: number, dateStr: string) {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  const monday = addDays(dateStr, -((d.getUTCDay() + 6) % 7));
+  return getRevenueByDateRange(firmaId, monday, addDays(monday, 6));
+}
+
+// Full calendar month containing dateStr
+export async function getBasicSalesByMonth(firmaId: number, dateStr: string) {
+  const first = `${dateStr.slice(0, 7)}-01`;
+  const nextMonth = new Date(`${first}T00:00:00Z`);
+  nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+  return getRevenueByDateRange(firmaId, first, addDays(nextMonth.toISOString().slice(0, 10), -1));
+}
 
-  return getRevenueByUnixRange(toUnixSeconds(first), toUnixSeconds(last));
+// Full calendar year containing dateStr
+export async function getBasicSalesByYear(firmaId: number, dateStr: string) {
+  const year = dateStr.slice(0, 4);
+  return getRevenueByDateRange(firmaId, `${year}-01-01`, `${year}-12-31`);
 }
@@ -0,0 +1,271 @@
+import { db } from "./db";
+import { periodBounds } from "./periods";
+import { locationIn } from "../locations/locations";
+import { addDays } from "../utils/businessCalendar";
+import { envNumber } from "../utils/env";
+import { round } from "../utils/number";
+
+/**
+ * Working-time compliance checks on the schedule (arbejdstidsregler).
+ *
+ * Shifts are the imported schedule (labor_schedule, breaks from the matching
+ * labor_entries row) plus planned shifts for days not worked yet.
+ * Rules, thresholds from env (defaults in parentheses):
+ * - rest:          rest between two working days   COMPLIANCE_MIN_REST_HOURS (11)
+ * - weeklyDayOff:  days off per Mon–Sun week       COMPLIANCE_WEEKLY_DAYS_OFF (1)
+ * - avgWeeklyHours: paid hours per week, averaged over the reference period
+ *                  COMPLIANCE_MAX_AVG_WEEKLY_HOURS (48), COMPLIANCE_REFERENCE_WEEKS (17)
+ * - breakRequired: shifts longer than COMPLIANCE_BREAK_AFTER_HOURS (6) without a break
+ *
+ * Shifts on the same date count as one working day, so a split shift
+ * (10–14, 17–22) is not a rest violation. Only shifts at the requested
+ * locations are checked.
+ */
+
+export type ComplianceRule = "rest" | "weeklyDayOff" | "avgWeeklyHours" | "breakRequired";
+
+export type ComplianceThresholds = {
+  minRestHours: number;
+  weeklyDaysOff: number;
+  maxAvgWeeklyHours: number;
+  referenceWeeks: number;
+  breakAfterHours: number;
+};
+
+export type ComplianceViolation = {
+  rule: ComplianceRule;
+  employee: string;
+  employeeNumber: string | null;
+  date: string; // day (or last day of the week) the violation belongs to
+  value: number;
+  limit: number;
+  planned: boolean; // based on planned, not yet worked, shifts
+  message: string;
+};
+
+type Shift = {
+  employee: string;
+  employeeNumber: string | null;
+  date: string;
+  from: string;
+  to: string;
+  breakMinutes: number | null; // null = unknown
+  planned: boolean;
+  start: number; // ms, local wall clock
+  end: number;
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export function complianceThresholds(): ComplianceThresholds {
+  return {
+    minRestHours: envNumber("COMPLIANCE_MIN_REST_HOURS", 11),
+    weeklyDaysOff: envNumber("COMPLIANCE_WEEKLY_DAYS_OFF", 1),
+    maxAvgWeeklyHours: envNumber("COMPLIANCE_MAX_AVG_WEEKLY_HOURS", 48),
+    referenceWeeks: envNumber("COMPLIANCE_REFERENCE_WEEKS", 17),
+    breakAfterHours: envNumber("COMPLIANCE_BREAK_AFTER_HOURS", 6),
+  };
+}
+
+/** Shift times as wall-clock ms; an end before the start is the next day. */
+type LoadedShift = Omit<Shift, "start" | "end" | "planned"> & { locationId: string };
+
+function toShift(row: Omit<Shift, "start" | "end">): Shift {
+  const start = Date.parse(`${row.date}T${row.from}:00Z`);
+  let end = Date.parse(`${row.date}T${row.to}:00Z`);
+  if (end <= start) end += DAY;
+  return { ...row, start, end };
+}
+
+function loadShifts(from: string, to: string, locationIds: string[]): Shift[] {
+  const actual = db
+    .prepare(
+      `
+    SELECT s.location_id AS locationId,
+           s.employee,
+           s.employee_number AS employeeNumber,
+           s.date,
+           s.time_from AS "from",
+           s.time_to AS "to",
+           (SELECT MAX(e.break_minutes) FROM labor_entries e
+            WHERE e.date = s.date AND e.time_from = s.time_from AND e.time_to = s.time_to
+              AND e.location_id = s.location_id
+              AND COALESCE(e.employee_number, e.employee) = COALESCE(s.employee_number, s.employee)
+           ) AS breakMinutes
+    FROM labor_schedule s
+    WHERE s.date BETWEEN ? AND ? AND ${locationIn("s.location_id", locationIds)}
+  `
+    )
+    .all(from, to, ...locationIds) as LoadedShift[];
+
+  // Days of a location with an imported schedule
+  const scheduledDays = new Set(actual.map((s) => `${s.locationId} ${s.date}`));
+
+  const planned = (
+    db
+      .prepare(
+        `
+    SELECT location_id AS locationId,
+           employee,
+           employee_number AS employeeNumber,
+           date,
+           time_from AS "from",
+           time_to AS "to",
+           break_minutes AS breakMinutes
+    FROM labor_planned_shifts
+    WHERE employee IS NOT NULL AND date BETWEEN ? AND ?
+      AND ${locationIn("location_id", locationIds)}
+  `
+      )
+      .all(from, to, ...locationIds) as LoadedShift[]
+  ).filter((s) => !scheduledDays.has(`${s.locationId} ${s.date}`));
+
+  return [
+    ...actual.map(({ locationId: _l, ...s }) => toShift({ ...s, planned: false })),
+    ...planned.map(({ locationId: _l, ...s }) => toShift({ ...s, planned: true })),
+  ].filter((s) => Number.isFinite(s.start) && Number.isFinite(s.end));
+}
+
+function paidHours(s: Shift) {
+  return Math.max(0, (s.end - s.start) / HOUR - (s.breakMinutes ?? 0) / 60);
+}
+
+/**
+ * Violations dated between `from` and `to` (inclusive). Shifts before
+ * `from` are read as far back as the rest and average rules need.
+ */
+export function complianceReport(from: string, to: string, locationIds: string[]) {
+  const t = complianceThresholds();
+
+  const referenceFrom = periodBounds(
+    "week",
+    addDays(to, -7 * (t.referenceWeeks - 1))
+  ).from;
+  const loadFrom = [referenceFrom, addDays(periodBounds("week", from).from, -1)].sort()[0];
+
+  const byEmployee = new Map<string, Shift[]>();
+  for (const s of loadShifts(loadFrom, periodBounds("week", to).to, locationIds)) {
+    const key = s.employeeNumber ?? s.employee;
+    if (!byEmployee.has(key)) byEmployee.set(key, []);
+    byEmployee.get(key)!.push(s);
+  }
+
+  const violations: ComplianceViolation[] = [];
+  const inRange = (date: string) => date >= from && date <= to;
+
+  for (const shifts of byEmployee.values()) {
+    shifts.sort((a, b) => a.start - b.start);
+    const { employee, employeeNumber } = shifts[shifts.length - 1];
+
+    const add = (v: Omit<ComplianceViolation, "employee" | "employeeNumber">) =>
+      violations.push({ employee, employeeNumber, ...v });
+
+    /* ---- working days: first start → last end per date ---- */
+    const days = new Map<string, { start: number; end: number; planned: boolean }>();
+    for (const s of shifts) {
+      const d = days.get(s.date);
+      if (!d) days.set(s.date, { start: s.start, end: s.end, planned: s.planned });
+      else {
+        d.end = Math.max(d.end, s.end);
+        d.planned = d.planned || s.planned;
+      }
+    }
+
+    /* ---- 11-hour rest ---- */
+    const ordered = [...days.entries()].sort(([a], [b]) => a.localeCompare(b));
+    for (let i = 1; i < ordered.length; i++) {
+      const [date, day] = ordered[i];
+      const prev = ordered[i - 1][1];
+      const rest = (day.start - prev.end) / HOUR;
+
+      if (inRange(date) && rest < t.minRestHours) {
+        add({
+          rule: "rest",
+          date,
+          value: round(rest),
+          limit: t.minRestHours,
+          planned: day.planned || prev.planned,
+          message: `${round(rest)} h rest before ${date} (min ${t.minRestHours} h)`,
+        });
+      }
+    }
+
+    /* ---- weekly day off (Mon–Sun) ---- */
+    const weeks = new Map<string, { days: number; planned: boolean }>();
+    for (const [date, day] of days) {
+      const sunday = periodBounds("week", date).to;
+      const w = weeks.get(sunday) ?? { days: 0, planned: false };
+      w.days++;
+      w.planned = w.planned || day.planned;
+      weeks.set(sunday, w);
+    }
+
+    for (const [sunday, w] of weeks) {
+      const daysOff = 7 - w.days;
+      const monday = addDays(sunday, -6);
+      if (sunday < from || monday > to || daysOff >= t.weeklyDaysOff) continue;
+
+      add({
+        rule: "weeklyDayOff",
+        date: sunday,
+        value: daysOff,
+        limit: t.weeklyDaysOff,
+        planned: w.planned,
+        message: `${daysOff} day(s) off in week ${monday} – ${sunday} (min ${t.weeklyDaysOff})`,
+      });
+    }
+
+    /* ---- average weekly hours over the reference period ---- */
+    const reference = shifts.filter((s) => s.date >= referenceFrom && s.date <= to);
+    if (reference.length > 0) {
+      // Employees who started during the period are averaged from their first week
+      const firstWeek = periodBounds("week", reference[0].date).from;
+      const weekCount = Math.min(
+        t.referenceWeeks,
+        Math.round((Date.parse(periodBounds("week", to).to) - Date.parse(firstWeek)) / (7 * DAY))
+      );
+      const avg = reference.reduce((sum, s) => sum + paidHours(s), 0) / Math.max(1, weekCount);
+
+      if (avg > t.maxAvgWeeklyHours) {
+        add({
+          rule: "avgWeeklyHours",
+          date: to,
+          value: round(avg),
+          limit: t.maxAvgWeeklyHours,
+          planned: reference.some((s) => s.planned),
+          message: `${round(avg)} h/week on average over ${Math.max(1, weekCount)} week(s) (max ${t.maxAvgWeeklyHours} h)`,
+        });
+      }
+    }
+
+    /* ---- long shifts without a break ---- */
+    for (const s of shifts) {
+      const hours = (s.end - s.start) / HOUR;
+      if (!inRange(s.date) || hours <= t.breakAfterHours || s.breakMinutes) continue;
+
+      add({
+        rule: "breakRequired",
+        date: s.date,
+        value: round(hours),
+        limit: t.breakAfterHours,
+        planned: s.planned,
+        message: `${s.from}–${s.to} (${round(hours)} h) without a registered break`,
+      });
+    }
+  }
+
+  violations.sort(
+    (a, b) => a.date.localeCompare(b.date) || a.employee.localeCompare(b.employee)
+  );
+
+  const summary: Record<ComplianceRule, number> = {
+    rest: 0,
+    weeklyDayOff: 0,
+    avgWeeklyHours: 0,
+    breakRequired: 0,
+  };
+  for (const v of violations) summary[v.rule]++;
+
+  return { from, to, thresholds: t, summary, violations };
+}
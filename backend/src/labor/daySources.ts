@@ -0,0 +1,88 @@
+import { db } from "./db";
+import { locationIn } from "../locations/locations";
+
+export type LaborSource = "payroll" | "planday-api";
+
+export type DaySource = {
+  locationId: string;
+  date: string;
+  source: LaborSource;
+  departmentId: number | null;
+  entries: number;
+  updatedAt: string;
+};
+
+/**
+ * Records which source supplied the labor rows of each date of a location.
+ * `entriesByDate` holds the number of labor_entries written per date.
+ *
+ * Must run inside the transaction that wrote the rows.
+ */
+export function recordDaySources(
+  locationId: string,
+  source: LaborSource,
+  departmentId: number | null,
+  entriesByDate: Map<string, number>
+) {
+  const stmt = db.prepare(`
+    INSERT INTO labor_day_sources (location_id, date, source, department_id, entries, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(location_id, date, source, department_id) DO UPDATE SET
+      entries = excluded.entries,
+      updated_at = excluded.updated_at
+  `);
+
+  const now = new Date().toISOString();
+  for (const [date, entries] of entriesByDate) {
+    stmt.run(locationId, date, source, departmentId ?? 0, entries, now);
+  }
+}
+
+export function clearDaySources(
+  locationId: string,
+  source: LaborSource,
+  from: string,
+  to: string,
+  departmentId?: number
+) {
+  if (departmentId === undefined) {
+    db.prepare(
+      `DELETE FROM labor_day_sources
+       WHERE location_id = ? AND source = ? AND date BETWEEN ? AND ?`
+    ).run(locationId, source, from, to);
+  } else {
+    db.prepare(
+      `DELETE FROM labor_day_sources
+       WHERE location_id = ? AND source = ? AND department_id = ? AND date BETWEEN ? AND ?`
+    ).run(locationId, source, departmentId, from, to);
+  }
+}
+
+export function listDaySources(from: string, to: string, locationIds: string[]): DaySource[] {
+  return (
+    db
+      .prepare(
+        `
+    SELECT location_id, date, source, department_id, entries, updated_at
+    FROM labor_day_sources
+    WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locationIds)}
+    ORDER BY date, location_id, source
+  `
+      )
+      .all(from, to, ...locationIds) as {
+      location_id: string;
+      date: string;
+      source: LaborSource;
+      department_id: number;
+      entries: number;
+      updated_at: string;
+    }[]
+  ).map((r) => ({
+    locationId: r.location_id,
+    date: r.date,
+    source: r.source,
+    departmentId: r.department_id || null,
+    entries: r.entries,
+    updatedAt: r.updated_at,
+  }));
+}
@@ -1,11 +1,7 @@
-import Database from "better-sqlite3";
-import path from "path";
+import { db, ensureColumn } from "../db/sqlite";
+import { addLocationColumn, rebuildWithLocation } from "../locations/db";
 
-const dbPath = path.join(__dirname, "labor.db");
-
-console.log("📁 Labor DB path:", dbPath);
-
-export const db = new Database(dbPath);
+export { db };
 
 // Initialize tables (idempotent)
 db.exec(`
@@ -21,4 +17,274 @@ db.exec(`
 
   CREATE INDEX IF NOT EXISTS idx_labor_entries_employee
     ON labor_entries(employee);
+
+  CREATE TABLE IF NOT EXISTS labor_schedule (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    employee TEXT NOT NULL,
+    date TEXT NOT NULL,
+    time_from TEXT NOT NULL,
+    time_to TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_labor_schedule_date
+    ON labor_schedule(date);
+`);
+
+// Planday employee number (stable key; names are not unique)
+ensureColumn("labor_schedule", "employee_number", "TEXT");
+
+// Payroll import keys: payslip serial number + shift within the payslip
+ensureColumn("labor_entries", "employee_number", "TEXT");
+ensureColumn("labor_entries", "serial_number", "TEXT");
+ensureColumn("labor_entries", "shift_key", "TEXT");
+ensureColumn("labor_entries", "time_from", "TEXT");
+ensureColumn("labor_entries", "time_to", "TEXT");
+
+// Employee group (Kitchen, Administration, …) and gross hours per shift
+ensureColumn("labor_entries", "employee_group", "TEXT");
+ensureColumn("labor_entries", "hours", "REAL");
+ensureColumn("labor_schedule", "employee_group", "TEXT");
+
+// Break accounting: `hours` is gross; `amount` is gross, `break_amount` ≤ 0
+ensureColumn("labor_entries", "break_minutes", "INTEGER NOT NULL DEFAULT 0");
+ensureColumn("labor_entries", "paid_hours", "REAL");
+ensureColumn("labor_entries", "break_amount", "REAL NOT NULL DEFAULT 0");
+ensureColumn("labor_entries", "hourly_rate", "REAL");
+
+// Versioned payroll imports: each import is a numbered batch holding the
+// parsed payroll as JSON, so any earlier batch can be re-applied.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_import_batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    kind TEXT NOT NULL,                -- import | rollback
+    status TEXT NOT NULL,              -- applied | rolled_back
+    restored_from INTEGER,             -- rollback: batch that was re-applied
+    period_start TEXT,
+    period_end TEXT,
+    file_hash TEXT,
+    employees INTEGER NOT NULL,
+    shifts INTEGER NOT NULL,
+    inserted INTEGER NOT NULL,
+    updated INTEGER NOT NULL,
+    skipped INTEGER NOT NULL,
+    removed INTEGER NOT NULL,
+    payload TEXT NOT NULL
+  );
+`);
+
+ensureColumn("labor_entries", "batch_id", "INTEGER");
+ensureColumn("labor_schedule", "batch_id", "INTEGER");
+
+// Labor cost uplift rules (see uplift.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_uplift_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    component TEXT NOT NULL,           -- holiday_pay, pension, atp, social_costs …
+    pct REAL NOT NULL,
+    effective_from TEXT NOT NULL,      -- YYYY-MM-DD
+    employee_group TEXT                -- NULL = all groups
+  );
+`);
+
+// Seed with the split of the former fixed 15.74% uplift
+const upliftRules = db
+  .prepare(`SELECT COUNT(*) AS c FROM labor_uplift_rules`)
+  .get() as { c: number };
+
+if (upliftRules.c === 0) {
+  const seed = db.prepare(`
+    INSERT INTO labor_uplift_rules (component, pct, effective_from, employee_group)
+    VALUES (?, ?, '2000-01-01', NULL)
+  `);
+  seed.run("holiday_pay", 12.5);
+  seed.run("social_costs", 3.24);
+}
+
+// Planday OAuth tokens (single row, see integrations/plandayAuth.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS planday_tokens (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    refresh_token TEXT,
+    access_token TEXT,
+    access_expires_at TEXT,
+    last_refresh_at TEXT,
+    last_error TEXT,
+    updated_at TEXT NOT NULL
+  );
+`);
+
+// Where each labor row came from: the payroll HTML import or the Planday API sync
+ensureColumn("labor_entries", "source", "TEXT NOT NULL DEFAULT 'payroll'");
+ensureColumn("labor_schedule", "source", "TEXT NOT NULL DEFAULT 'payroll'");
+ensureColumn("labor_schedule", "department_id", "INTEGER");
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_day_sources (
+    date TEXT NOT NULL,
+    source TEXT NOT NULL,              -- payroll | planday-api
+    department_id INTEGER NOT NULL DEFAULT 0,
+    entries INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (date, source, department_id)
+  );
+`);
+
+// Future shifts from the Planday shift API or a schedule export (see plannedShifts.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_planned_shifts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,              -- planday-api | export
+    department_id INTEGER NOT NULL DEFAULT 0,
+    external_id TEXT NOT NULL,
+    employee TEXT,                     -- NULL = open shift
+    employee_number TEXT,
+    employee_group TEXT,
+    date TEXT NOT NULL,
+    time_from TEXT NOT NULL,
+    time_to TEXT NOT NULL,
+    hours REAL NOT NULL,
+    break_minutes INTEGER NOT NULL DEFAULT 0,
+    paid_hours REAL NOT NULL,
+    hourly_rate REAL,                  -- when the source provides it
+    imported_at TEXT NOT NULL,
+    UNIQUE (source, department_id, external_id)
+  );
+`);
+
+// Employee dimension keyed by Planday employee number, rebuilt from
+// labor_entries after every import/sync (see employees.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_employees (
+    employee_number TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    employee_group TEXT,
+    active_from TEXT NOT NULL,         -- first shift
+    active_to TEXT NOT NULL,           -- latest shift
+    shifts INTEGER NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS labor_employee_rates (
+    employee_number TEXT NOT NULL,
+    effective_from TEXT NOT NULL,      -- first shift paid at this rate
+    hourly_rate REAL NOT NULL,
+    PRIMARY KEY (employee_number, effective_from)
+  );
+`);
+
+// Parsed payroll vs the totals printed on it, one report per batch (see reconciliation.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_reconciliation_reports (
+    batch_id INTEGER PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    status TEXT NOT NULL,              -- ok | mismatch | unchecked
+    checks INTEGER NOT NULL,
+    mismatches INTEGER NOT NULL,
+    unparsed INTEGER NOT NULL,
+    report TEXT NOT NULL
+  );
 `);
+
+// Salary codes (paymentTypeNumber) → cost category (see paymentTypes.ts)
+ensureColumn("labor_entries", "payment_type", "TEXT");
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS labor_payment_types (
+    code TEXT PRIMARY KEY,             -- "01", "1202" …
+    category TEXT NOT NULL,            -- hours, monthly_salary, supplement, sick_pay, vacation, bonus …
+    label TEXT,
+    productive INTEGER NOT NULL DEFAULT 1  -- 0 = left out of labor % with productiveOnly
+  );
+
+  CREATE TABLE IF NOT EXISTS labor_pay_lines (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    serial_number TEXT NOT NULL,       -- payslip
+    employee TEXT NOT NULL,
+    employee_number TEXT,
+    employee_group TEXT,
+    payment_type TEXT,
+    text TEXT,
+    period_start TEXT NOT NULL,
+    period_end TEXT NOT NULL,
+    quantity REAL NOT NULL DEFAULT 0,
+    rate REAL,
+    amount REAL NOT NULL,
+    batch_id INTEGER
+  );
+`);
+
+const paymentTypes = db
+  .prepare(`SELECT COUNT(*) AS c FROM labor_payment_types`)
+  .get() as { c: number };
+
+if (paymentTypes.c === 0) {
+  const seed = db.prepare(`
+    INSERT INTO labor_payment_types (code, category, label, productive)
+    VALUES (?, ?, ?, 1)
+  `);
+  seed.run("01", "hours", "Timeløn");
+  seed.run("1202", "monthly_salary", "Månedlig løn");
+}
+
+// Per location (see locations/locations.ts)
+for (const table of ["labor_entries", "labor_schedule", "labor_pay_lines", "labor_import_batches"]) {
+  addLocationColumn(table);
+}
+
+db.exec(`
+  CREATE INDEX IF NOT EXISTS idx_labor_entries_location_date
+    ON labor_entries(location_id, date);
+
+  CREATE INDEX IF NOT EXISTS idx_labor_schedule_location_date
+    ON labor_schedule(location_id, date);
+`);
+
+// A payslip serial number is only unique within a location: key the
+// payroll shifts per location (replaces the global (serial_number, shift_key) index)
+db.exec(`
+  DROP INDEX IF EXISTS idx_labor_entries_shift;
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_labor_entries_location_shift
+    ON labor_entries(location_id, serial_number, shift_key);
+`);
+
+rebuildWithLocation(
+  "labor_day_sources",
+  `
+  CREATE TABLE labor_day_sources (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    source TEXT NOT NULL,              -- payroll | planday-api
+    department_id INTEGER NOT NULL DEFAULT 0,
+    entries INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (location_id, date, source, department_id)
+  );
+`
+);
+
+rebuildWithLocation(
+  "labor_planned_shifts",
+  `
+  CREATE TABLE labor_planned_shifts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    location_id TEXT NOT NULL,
+    source TEXT NOT NULL,              -- planday-api | export
+    department_id INTEGER NOT NULL DEFAULT 0,
+    external_id TEXT NOT NULL,
+    employee TEXT,                     -- NULL = open shift
+    employee_number TEXT,
+    employee_group TEXT,
+    date TEXT NOT NULL,
+    time_from TEXT NOT NULL,
+    time_to TEXT NOT NULL,
+    hours REAL NOT NULL,
+    break_minutes INTEGER NOT NULL DEFAULT 0,
+    paid_hours REAL NOT NULL,
+    hourly_rate REAL,                  -- when the source provides it
+    imported_at TEXT NOT NULL,
+    UNIQUE (location_id, source, department_id, external_id)
+  );
+`
+);
@@ -0,0 +1,281 @@
+import { db } from "./db";
+import { upliftCost } from "./uplift";
+import { locationIn } from "../locations/locations";
+
+/**
+ * Employee dimension keyed by Planday employee number.
+ *
+ * labor_entries stay the source of truth: labor_employees and
+ * labor_employee_rates are rebuilt from them after every payroll import,
+ * rollback and API sync, so they never disagree with the cost figures.
+ * Rows without an employee number (legacy imports) are not part of it.
+ * Employees are shared by all locations; listings and stats are per location.
+ */
+
+export type RatePeriod = {
+  effectiveFrom: string; // YYYY-MM-DD
+  hourlyRate: number;
+};
+
+export type Employee = {
+  employeeNumber: string;
+  name: string;
+  group: string | null;
+  activeFrom: string;
+  activeTo: string;
+  totalShifts: number;
+  hourlyRate: number | null; // current (latest) rate
+};
+
+// Without the printed wage the rate is amount / hours; hours are rounded
+// to 2 decimals on the payslip, so a smaller difference is rounding.
+const DERIVED_RATE_TOLERANCE = 0.5;
+
+/**
+ * Rebuilds the employee tables from labor_entries.
+ * Must run inside the transaction that wrote the entries.
+ */
+export function refreshEmployees() {
+  const rows = db
+    .prepare(
+      `
+    SELECT employee_number AS employeeNumber, employee, employee_group AS grp,
+           date, hours, amount, hourly_rate AS hourlyRate
+    FROM labor_entries
+    WHERE employee_number IS NOT NULL
+    ORDER BY employee_number, date, time_from
+  `
+    )
+    .all() as {
+    employeeNumber: string;
+    employee: string;
+    grp: string | null;
+    date: string;
+    hours: number | null;
+    amount: number;
+    hourlyRate: number | null;
+  }[];
+
+  const employees = new Map<string, Omit<Employee, "hourlyRate">>();
+  const rates = new Map<string, RatePeriod[]>();
+
+  for (const r of rows) {
+    const e = employees.get(r.employeeNumber);
+    if (!e) {
+      employees.set(r.employeeNumber, {
+        employeeNumber: r.employeeNumber,
+        name: r.employee,
+        group: r.grp,
+        activeFrom: r.date,
+        activeTo: r.date,
+        totalShifts: 1,
+      });
+    } else {
+      // Latest shift wins for name and group
+      e.name = r.employee;
+      e.group = r.grp ?? e.group;
+      e.activeTo = r.date;
+      e.totalShifts++;
+    }
+
+    const derived = !r.hourlyRate;
+    if (derived && (!r.hours || r.hours <= 0 || r.amount <= 0)) continue;
+
+    const rate = derived ? Number((r.amount / r.hours).toFixed(2)) : r.hourlyRate;
+    const history = rates.get(r.employeeNumber) ?? [];
+    const current = history[history.length - 1];
+    const tolerance = derived ? DERIVED_RATE_TOLERANCE : 0.005;
+
+    if (!current || Math.abs(current.hourlyRate - rate) >= tolerance) {
+      // One rate per day: a later shift of the same day replaces it
+      if (current?.effectiveFrom === r.date) current.hourlyRate = rate;
+      else history.push({ effectiveFrom: r.date, hourlyRate: rate });
+      rates.set(r.employeeNumber, history);
+    }
+  }
+
+  const stmtEmployee = db.prepare(`
+    INSERT INTO labor_employees
+      (employee_number, name, employee_group, active_from, active_to, shifts, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const stmtRate = db.prepare(`
+    INSERT INTO labor_employee_rates (employee_number, effective_from, hourly_rate)
+    VALUES (?, ?, ?)
+  `);
+
+  db.prepare(`DELETE FROM labor_employee_rates`).run();
+  db.prepare(`DELETE FROM labor_employees`).run();
+
+  const now = new Date().toISOString();
+  for (const e of employees.values()) {
+    stmtEmployee.run(
+      e.employeeNumber,
+      e.name,
+      e.group,
+      e.activeFrom,
+      e.activeTo,
+      e.totalShifts,
+      now
+    );
+  }
+  for (const [employeeNumber, history] of rates) {
+    for (const p of history) stmtRate.run(employeeNumber, p.effectiveFrom, p.hourlyRate);
+  }
+
+  return { employees: employees.size };
+}
+
+/** labor_employees row with the current rate (EMPLOYEE_SELECT) */
+type EmployeeRow = {
+  employee_number: string;
+  name: string;
+  employee_group: string | null;
+  active_from: string;
+  active_to: string;
+  shifts: number;
+  hourly_rate: number | null;
+};
+
+function toEmployee(row: EmployeeRow): Employee {
+  return {
+    employeeNumber: row.employee_number,
+    name: row.name,
+    group: row.employee_group,
+    activeFrom: row.active_from,
+    activeTo: row.active_to,
+    totalShifts: row.shifts,
+    hourlyRate: row.hourly_rate ?? null,
+  };
+}
+
+const EMPLOYEE_SELECT = `
+  SELECT e.*,
+         (SELECT hourly_rate FROM labor_employee_rates r
+          WHERE r.employee_number = e.employee_number
+          ORDER BY effective_from DESC LIMIT 1) AS hourly_rate
+  FROM labor_employees e
+`;
+
+/** All employees, or those with shifts or pay lines at `locationIds`. */
+export function listEmployees(locationIds?: string[]): Employee[] {
+  if (!locationIds) {
+    return (db.prepare(`${EMPLOYEE_SELECT} ORDER BY e.name`).all() as EmployeeRow[]).map(toEmployee);
+  }
+
+  return (
+    db
+      .prepare(
+        `${EMPLOYEE_SELECT}
+         WHERE e.employee_number IN (
+           SELECT employee_number FROM labor_entries
+           WHERE ${locationIn("location_id", locationIds)}
+           UNION
+           SELECT employee_number FROM labor_pay_lines
+           WHERE ${locationIn("location_id", locationIds)}
+         )
+         ORDER BY e.name`
+      )
+      .all(...locationIds, ...locationIds) as EmployeeRow[]
+  ).map(toEmployee);
+}
+
+export function getEmployee(employeeNumber: string): Employee | null {
+  const row = db
+    .prepare(`${EMPLOYEE_SELECT} WHERE e.employee_number = ?`)
+    .get(employeeNumber) as EmployeeRow | undefined;
+  return row ? toEmployee(row) : null;
+}
+
+export function rateHistory(employeeNumber: string): RatePeriod[] {
+  return (
+    db
+      .prepare(
+        `
+    SELECT effective_from, hourly_rate
+    FROM labor_employee_rates
+    WHERE employee_number = ?
+    ORDER BY effective_from
+  `
+      )
+      .all(employeeNumber) as { effective_from: string; hourly_rate: number }[]
+  ).map((r) => ({ effectiveFrom: r.effective_from, hourlyRate: r.hourly_rate }));
+}
+
+/**
+ * Hours, cost and shift pattern of one employee for shifts at the locations
+ * between `from` and `to` (inclusive). Cost is uplifted like the period totals.
+ */
+export function employeeStats(
+  employeeNumber: string,
+  from: string,
+  to: string,
+  locationIds: string[]
+) {
+  const shifts = db
+    .prepare(
+      `
+    SELECT date, employee_group AS "group", time_from AS "from", time_to AS "to",
+           COALESCE(hours, 0) AS grossHours,
+           COALESCE(paid_hours, hours, 0) AS paidHours,
+           break_minutes AS breakMinutes,
+           amount, break_amount AS breakAmount, source, location_id AS locationId
+    FROM labor_entries
+    WHERE employee_number = ? AND date BETWEEN ? AND ?
+      AND ${locationIn("location_id", locationIds)}
+    ORDER BY date, time_from
+  `
+    )
+    .all(employeeNumber, from, to, ...locationIds) as {
+    date: string;
+    group: string | null;
+    from: string | null;
+    to: string | null;
+    grossHours: number;
+    paidHours: number;
+    breakMinutes: number;
+    amount: number;
+    breakAmount: number;
+    source: string;
+    locationId: string;
+  }[];
+
+  const sum = (k: "grossHours" | "paidHours" | "breakMinutes" | "amount") =>
+    shifts.reduce((s, r) => s + r[k], 0);
+
+  const cost = upliftCost(
+    shifts.map((s) => ({
+      date: s.date,
+      group: s.group,
+      baseCost: s.amount + s.breakAmount,
+    }))
+  );
+
+  const paidHours = sum("paidHours");
+  const grossHours = sum("grossHours");
+
+  return {
+    ...cost,
+    hours: Number(paidHours.toFixed(2)),
+    grossHours: Number(grossHours.toFixed(2)),
+    breakMinutes: sum("breakMinutes"),
+    shiftCount: shifts.length,
+    avgShiftHours:
+      shifts.length > 0 ? Number((paidHours / shifts.length).toFixed(2)) : null,
+    avgHourlyRate:
+      grossHours > 0 ? Number((sum("amount") / grossHours).toFixed(2)) : null,
+    daysWorked: new Set(shifts.map((s) => s.date)).size,
+    shifts,
+  };
+}
+
+/** Builds the employee tables of databases that predate them; run once at startup. */
+export function seedEmployees() {
+  const employeeCount = db
+    .prepare(`SELECT COUNT(*) AS c FROM labor_employees`)
+    .get() as { c: number };
+
+  if (employeeCount.c === 0) {
+    db.transaction(refreshEmployees)();
+  }
+}
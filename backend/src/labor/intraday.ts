@@ -0,0 +1,151 @@
+import { db } from "./db";
+import { UNGROUPED, upliftCost } from "./uplift";
+import { addDays, businessDayCutoff, formatLocal, localTimeToMs } from "../utils/businessCalendar";
+import { round } from "../utils/number";
+import { locationIn } from "../locations/locations";
+
+/**
+ * Intraday labor: every shift expanded into fixed-size time buckets
+ * (60 or 15 minutes) with hours and cost prorated by overlap.
+ *
+ * A shift's paid cost (amount + break deduction) and paid hours are spread
+ * evenly over the duty period; where the break fell is not on the payslip.
+ * Buckets belong to a business day (utils/businessCalendar.ts): time
+ * before the cutoff counts to the previous day. With the default 00:00
+ * cutoff a 17:00–01:30 shift puts its last 1.5 hours on the next day;
+ * with BUSINESS_DAY_CUTOFF=05:00 it stays on the day it started.
+ * Shift times are Copenhagen wall clock. Buckets run on real time from
+ * the day's cutoff to the next one, so a DST change day has 23 or 25
+ * hourly buckets (the repeated hour twice, each with its own shifts).
+ */
+
+export type BucketMinutes = 15 | 60;
+
+export type LaborBucket = {
+  start: string; // "YYYY-MM-DD HH:MM", wall clock
+  end: string;
+  hours: number; // paid hours
+  baseCost: number;
+  laborCost: number;
+  shifts: number; // shifts overlapping the bucket
+};
+
+const MINUTE = 60 * 1000;
+
+/** "HH:MM" → minutes after midnight */
+function minutesOf(time: string) {
+  return Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+}
+
+/**
+ * Buckets of business day `date` at the locations. Shifts with a duty date
+ * the day before or after are included for the part that falls on `date`.
+ */
+export function intradayLabor(
+  date: string,
+  bucketMinutes: BucketMinutes,
+  locationIds: string[],
+  group?: string
+) {
+  const cutoff = businessDayCutoff();
+
+  const rows = db
+    .prepare(
+      `
+    SELECT date, time_from AS "from", time_to AS "to",
+           employee_group AS employeeGroup,
+           COALESCE(paid_hours, hours, 0) AS paidHours,
+           amount + break_amount AS baseCost
+    FROM labor_entries
+    WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locationIds)}
+  `
+    )
+    .all(addDays(date, -1), addDays(date, 1), ...locationIds) as {
+    date: string;
+    from: string | null;
+    to: string | null;
+    employeeGroup: string | null;
+    paidHours: number;
+    baseCost: number;
+  }[];
+
+  const filtered = rows.filter((r) => !group || (r.employeeGroup ?? UNGROUPED) === group);
+
+  // Uplift rates depend on date and group only: one factor per group
+  const factors = new Map<string | null, number>();
+  const factor = (g: string | null) => {
+    if (!factors.has(g)) {
+      factors.set(g, upliftCost([{ date, group: g, baseCost: 100 }]).laborCost / 100);
+    }
+    return factors.get(g)!;
+  };
+
+  const size = bucketMinutes * MINUTE;
+  const dayStart = localTimeToMs(date, cutoff);
+  const dayEnd = localTimeToMs(addDays(date, 1), cutoff);
+  const bucketCount = Math.round((dayEnd - dayStart) / size);
+
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    start: dayStart + i * size,
+    hours: 0,
+    baseCost: 0,
+    laborCost: 0,
+    shifts: 0,
+  }));
+
+  let unallocated = 0;
+
+  for (const r of filtered) {
+    if (!r.from || !r.to) {
+      // Whole-day rows (legacy imports): no times to spread over
+      if (r.date === date) unallocated += r.baseCost;
+      continue;
+    }
+
+    const start = localTimeToMs(r.date, minutesOf(r.from));
+    let end = localTimeToMs(r.date, minutesOf(r.to));
+    if (end <= start) end = localTimeToMs(addDays(r.date, 1), minutesOf(r.to));
+    const duration = end - start;
+    if (!Number.isFinite(duration) || duration <= 0) continue;
+
+    const f = factor(r.employeeGroup);
+
+    for (let t = Math.max(start, dayStart); t < Math.min(end, dayEnd); ) {
+      const i = Math.floor((t - dayStart) / size);
+      const bucketEnd = dayStart + (i + 1) * size;
+      const overlap = Math.min(end, bucketEnd) - t;
+      const share = overlap / duration;
+
+      const b = buckets[i];
+      b.hours += r.paidHours * share;
+      b.baseCost += r.baseCost * share;
+      b.laborCost += r.baseCost * share * f;
+      b.shifts++;
+
+      t = bucketEnd;
+    }
+  }
+
+  const result: LaborBucket[] = buckets.map((b) => ({
+    start: formatLocal(b.start),
+    end: formatLocal(b.start + size),
+    hours: round(b.hours),
+    baseCost: round(b.baseCost),
+    laborCost: round(b.laborCost),
+    shifts: b.shifts,
+  }));
+
+  const sum = (k: "hours" | "baseCost" | "laborCost") =>
+    round(buckets.reduce((s, b) => s + b[k], 0));
+
+  return {
+    date,
+    bucketMinutes,
+    cutoff: formatLocal(dayStart).slice(11),
+    hours: sum("hours"),
+    baseCost: sum("baseCost"),
+    laborCost: sum("laborCost"),
+    unallocatedBaseCost: round(unallocated),
+    buckets: result,
+  };
+}
@@ -1,101 +1,642 @@
 import express from "express";
 import { db } from "./db";
-import { parsePlandayHtml } from "./parsePlandayHtml";
+import { complianceReport } from "./compliance";
+import { listDaySources } from "./daySources";
+import {
+  employeeStats,
+  getEmployee,
+  listEmployees,
+  rateHistory,
+} from "./employees";
+import {
+  categorySql,
+  deletePaymentType,
+  listPaymentTypes,
+  savePaymentType,
+} from "./paymentTypes";
+import { Period, PERIODS, periodBounds, periodMeta } from "./periods";
+import { BucketMinutes, intradayLabor } from "./intraday";
+import { getReconciliation } from "./reconciliation";
+import {
+  listPlannedShifts,
+  mapScheduleExportRow,
+  PlannedShift,
+  plannedSourceOfDay,
+  replacePlannedShifts,
+  scheduledTotals,
+} from "./plannedShifts";
+import {
+  getImportBatch,
+  importPayroll,
+  listImportBatches,
+  rollbackToBatch,
+} from "./payrollImport";
+import {
+  addUpliftRule,
+  deleteUpliftRule,
+  listUpliftRules,
+  UNGROUPED,
+  upliftCost,
+  UpliftComponent,
+} from "./uplift";
+import { locationIn, locationsParam } from "../locations/locations";
 
 const router = express.Router();
 
-const UPLIFT_PCT = 15.74;
-const UPLIFT_FACTOR = 1 + UPLIFT_PCT / 100;
+/**
+ * ?location= on every route: a location id, "all" (reads only) or,
+ * when missing, the default location. Writes go to a single location.
+ */
+router.use((req, res, next) => {
+  const scope = locationsParam(req.query.location, { allowAll: req.method === "GET" });
+  if ("error" in scope) return res.status(400).json({ error: scope.error });
+
+  res.locals.locationIds = scope.locations.map((l) => l.id);
+  next();
+});
+
+function locationIds(res: express.Response): string[] {
+  return res.locals.locationIds;
+}
+
+
+type GroupTotals = {
+  group: string;
+  baseCost: number;
+  uplift: UpliftComponent[];
+  upliftPct: number;
+  laborCost: number;
+  hours: number; // paid hours
+  grossHours: number;
+  breakMinutes: number;
+  shifts: number;
+};
+
+type CategoryTotals = {
+  category: string;
+  productive: boolean;
+  baseCost: number;
+  laborCost: number;
+  hours: number;
+};
+
+type SummaryRow = {
+  date: string;
+  employeeGroup: string | null;
+  grp: string;
+  category: string;
+  productive: number;
+  amount: number;
+  paidHours: number;
+  grossHours: number;
+  breakMinutes: number;
+  shifts: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string) {
+  const days: string[] = [];
+  for (let t = Date.parse(`${from}T00:00:00Z`); t <= Date.parse(`${to}T00:00:00Z`); t += DAY_MS) {
+    days.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/**
+ * Pay lines (monthly salary …) of the locations overlapping `from`..`to`,
+ * spread evenly over the days of their own period.
+ */
+function payLineRows(from: string, to: string, locations: string[]): SummaryRow[] {
+  const c = categorySql("l", "pt");
+  const lines = db
+    .prepare(
+      `
+    SELECT l.period_start AS periodStart, l.period_end AS periodEnd,
+           l.employee_group AS employeeGroup, l.amount,
+           ${c.category} AS category, ${c.productive} AS productive
+    FROM labor_pay_lines l
+    ${c.join}
+    WHERE l.period_start <= ? AND l.period_end >= ?
+      AND ${locationIn("l.location_id", locations)}
+  `
+    )
+    .all(to, from, ...locations) as {
+    periodStart: string;
+    periodEnd: string;
+    employeeGroup: string | null;
+    amount: number;
+    category: string;
+    productive: number;
+  }[];
+
+  return lines.flatMap((l) => {
+    const days = daysBetween(l.periodStart, l.periodEnd);
+    return days
+      .filter((d) => d >= from && d <= to)
+      .map((date) => ({
+        date,
+        employeeGroup: l.employeeGroup,
+        grp: l.employeeGroup ?? UNGROUPED,
+        category: l.category,
+        productive: l.productive,
+        amount: l.amount / days.length,
+        paidHours: 0,
+        grossHours: 0,
+        breakMinutes: 0,
+        shifts: 0,
+      }));
+  });
+}
+
+/**
+ * Sums labor of the locations between `from` and `to` (inclusive), in
+ * total, per employee group and per pay category (see paymentTypes.ts).
+ * Base cost is what the payslip pays: gross amount less break deductions,
+ * plus pay lines such as monthly salary prorated over their period.
+ * Uplift is applied per day and group, with the rules in force on that day.
+ * `group` narrows the totals to one group; `productiveOnly` leaves
+ * non-productive pay out of the totals (it stays listed under categories).
+ */
+function summarize(
+  from: string,
+  to: string,
+  locations: string[],
+  opts: { group?: string; productiveOnly?: boolean } = {}
+) {
+  const c = categorySql("e", "pt");
+  const all = [
+    ...(db
+      .prepare(
+        `
+    SELECT e.date,
+           e.employee_group AS employeeGroup,
+           COALESCE(e.employee_group, '${UNGROUPED}') AS grp,
+           ${c.category} AS category,
+           ${c.productive} AS productive,
+           SUM(e.amount + e.break_amount) AS amount,
+           SUM(COALESCE(e.paid_hours, e.hours, 0)) AS paidHours,
+           SUM(COALESCE(e.hours, 0)) AS grossHours,
+           SUM(e.break_minutes) AS breakMinutes,
+           COUNT(*) AS shifts
+    FROM labor_entries e
+    ${c.join}
+    WHERE e.date BETWEEN ? AND ? AND ${locationIn("e.location_id", locations)}
+    GROUP BY e.date, grp, category, productive
+  `
+      )
+      .all(from, to, ...locations) as SummaryRow[]),
+    ...payLineRows(from, to, locations),
+  ]
+    .filter((r) => !opts.group || r.grp === opts.group)
+    .sort((a, b) => a.grp.localeCompare(b.grp) || a.date.localeCompare(b.date));
+
+  const rows = opts.productiveOnly ? all.filter((r) => r.productive === 1) : all;
+
+  const costRows = (rs: SummaryRow[]) =>
+    rs.map((r) => ({ date: r.date, group: r.employeeGroup, baseCost: r.amount }));
+
+  const groups: GroupTotals[] = [...new Set(rows.map((r) => r.grp))].map((grp) => {
+    const rs = rows.filter((r) => r.grp === grp);
+    const sum = (k: "paidHours" | "grossHours" | "breakMinutes" | "shifts") =>
+      rs.reduce((s, r) => s + r[k], 0);
+
+    return {
+      group: grp,
+      ...upliftCost(costRows(rs)),
+      hours: Number(sum("paidHours").toFixed(2)),
+      grossHours: Number(sum("grossHours").toFixed(2)),
+      breakMinutes: sum("breakMinutes"),
+      shifts: sum("shifts"),
+    };
+  });
+
+  const categories: CategoryTotals[] = [...new Set(all.map((r) => r.category))]
+    .sort()
+    .map((category) => {
+      const rs = all.filter((r) => r.category === category);
+      const cost = upliftCost(costRows(rs));
+      return {
+        category,
+        productive: rs.every((r) => r.productive === 1),
+        baseCost: cost.baseCost,
+        laborCost: cost.laborCost,
+        hours: Number(rs.reduce((s, r) => s + r.paidHours, 0).toFixed(2)),
+      };
+    });
+
+  const sum = (k: "hours" | "grossHours" | "breakMinutes" | "shifts") =>
+    groups.reduce((s, g) => s + g[k], 0);
+
+  return {
+    ...upliftCost(costRows(rows)),
+    hours: Number(sum("hours").toFixed(2)),
+    grossHours: Number(sum("grossHours").toFixed(2)),
+    breakMinutes: sum("breakMinutes"),
+    shifts: sum("shifts"),
+    productiveOnly: !!opts.productiveOnly,
+    groups,
+    categories,
+  };
+}
+
+function summaryOptions(req: express.Request) {
+  return { group: groupParam(req), productiveOnly: flag(req.query.productiveOnly) };
+}
+
+function groupParam(req: express.Request) {
+  return typeof req.query.group === "string" && req.query.group
+    ? req.query.group
+    : undefined;
+}
+
+function periodTotals(period: Period): express.RequestHandler {
+  return (req, res) => {
+    const date = req.query.date as string;
+    if (!date) return res.status(400).json({ error: "Missing date" });
+
+    const { from, to } = periodBounds(period, date);
+    const totals = summarize(from, to, locationIds(res), summaryOptions(req));
+
+    res.json({ ...periodMeta(period, date), locations: locationIds(res), ...totals });
+  };
+}
+
+function flag(value: unknown) {
+  return value === "1" || value === "true";
+}
 
 /* ================= IMPORT ================= */
 
-router.post("/import", express.text({ type: "*/*" }), (req, res) => {
+/**
+ * POST /api/labor/import[?location=][&dryRun=1]
+ * Body: Planday payroll HTML of the location. Stored as a numbered batch;
+ * dryRun returns the diff against current data without writing.
+ */
+router.post("/import", express.text({ type: "*/*", limit: "10mb" }), (req, res) => {
   const html = req.body;
   if (!html) {
     return res.status(400).json({ error: "Missing HTML body" });
   }
 
-  const result = parsePlandayHtml(html);
+  const result = importPayroll(html, {
+    locationId: locationIds(res)[0],
+    dryRun: flag(req.query.dryRun),
+  });
   res.json({ status: "ok", ...result });
 });
 
-/* ================= DAY ================= */
+/* ================= IMPORT HISTORY ================= */
 
-router.get("/day", (req, res) => {
-  const date = req.query.date as string;
-  if (!date) return res.status(400).json({ error: "Missing date" });
+router.get("/imports", (_req, res) => {
+  res.json({ batches: listImportBatches(locationIds(res)) });
+});
 
-  const rows = db
-    .prepare(`SELECT amount FROM labor_entries WHERE date = ?`)
-    .all(date) as { amount: number }[];
+/** Batch `id` when it belongs to a location of the request (?location=). */
+function scopedBatch(res: express.Response, id: number) {
+  const batch = getImportBatch(id);
+  return batch && locationIds(res).includes(batch.locationId) ? batch : null;
+}
+
+router.get("/imports/:id", (req, res) => {
+  const batch = scopedBatch(res, Number(req.params.id));
+  if (!batch) return res.status(404).json({ error: "Batch not found" });
+
+  res.json(batch);
+});
+
+/** Parsed payroll vs printed totals, as stored when the batch was imported. */
+router.get("/imports/:id/reconciliation", (req, res) => {
+  const batch = scopedBatch(res, Number(req.params.id));
+  const report = batch && getReconciliation(batch.id);
+  if (!report) return res.status(404).json({ error: "No reconciliation for batch" });
+
+  res.json({ batchId: batch.id, ...report });
+});
+
+/** Rolls back a batch of the ?location= location. */
+router.post("/imports/:id/rollback", (req, res) => {
+  const batch = scopedBatch(res, Number(req.params.id));
+  const result = batch && rollbackToBatch(batch.id);
+  if (!result) return res.status(404).json({ error: "Batch not found" });
 
-  const baseCost = rows.reduce((s, r) => s + r.amount, 0);
-  const laborCost = Number((baseCost * UPLIFT_FACTOR).toFixed(2));
+  res.json({ status: "ok", ...result });
+});
+
+/* ================= UPLIFT RULES ================= */
+
+router.get("/uplift-rules", (_req, res) => {
+  res.json({ rules: listUpliftRules() });
+});
+
+/**
+ * POST /api/labor/uplift-rules
+ * { component, pct, effectiveFrom: "YYYY-MM-DD", employeeGroup?: string }
+ */
+router.post("/uplift-rules", express.json(), (req, res) => {
+  const body = req.body ?? {};
+
+  const component = String(body.component || "").trim();
+  const pct = Number(body.pct);
+  const effectiveFrom = String(body.effectiveFrom || "").trim();
+  const employeeGroup = body.employeeGroup ? String(body.employeeGroup) : null;
+
+  if (!component) return res.status(400).json({ error: "Missing component" });
+  if (!Number.isFinite(pct)) return res.status(400).json({ error: "pct must be a number" });
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+    return res.status(400).json({ error: "effectiveFrom must be YYYY-MM-DD" });
+  }
+
+  res.json(addUpliftRule({ component, pct, effectiveFrom, employeeGroup }));
+});
+
+router.delete("/uplift-rules/:id", (req, res) => {
+  if (!deleteUpliftRule(Number(req.params.id))) {
+    return res.status(404).json({ error: "Rule not found" });
+  }
 
-  res.json({ date, upliftPct: UPLIFT_PCT, baseCost, laborCost });
+  res.json({ status: "ok" });
 });
 
-/* ================= WEEK ================= */
+/* ================= PAYMENT TYPES ================= */
+
+/** Mapped salary codes, plus codes on imported rows that have no mapping yet. */
+router.get("/payment-types", (_req, res) => {
+  const unmapped = db
+    .prepare(
+      `
+    SELECT payment_type AS code, COUNT(*) AS rows FROM (
+      SELECT payment_type FROM labor_entries
+      UNION ALL
+      SELECT payment_type FROM labor_pay_lines
+    )
+    WHERE payment_type IS NOT NULL
+      AND payment_type NOT IN (SELECT code FROM labor_payment_types)
+    GROUP BY payment_type
+    ORDER BY payment_type
+  `
+    )
+    .all();
+
+  res.json({ paymentTypes: listPaymentTypes(), unmapped });
+});
 
-router.get("/week", (req, res) => {
+/**
+ * PUT /api/labor/payment-types/:code
+ * { category, label?: string, productive?: boolean (default true) }
+ */
+router.put("/payment-types/:code", express.json(), (req, res) => {
+  const body = req.body ?? {};
+  const category = String(body.category || "").trim();
+  if (!category) return res.status(400).json({ error: "Missing category" });
+
+  res.json(
+    savePaymentType({
+      code: req.params.code,
+      category,
+      label: body.label ? String(body.label) : null,
+      productive: body.productive !== false,
+    })
+  );
+});
+
+router.delete("/payment-types/:code", (req, res) => {
+  if (!deletePaymentType(req.params.code)) {
+    return res.status(404).json({ error: "Payment type not found" });
+  }
+
+  res.json({ status: "ok" });
+});
+
+/* ================= DAY / WEEK / MONTH / YEAR ================= */
+
+router.get("/day", periodTotals("day"));
+router.get("/week", periodTotals("week"));
+router.get("/month", periodTotals("month"));
+router.get("/year", periodTotals("year"));
+
+/* ================= HOURS ================= */
+
+/**
+ * GET /api/labor/hours?date=YYYY-MM-DD&period=day|week|month|year
+ * Paid hours, breaks and gross hours for the period (default: day).
+ */
+router.get("/hours", (req, res) => {
   const date = req.query.date as string;
   if (!date) return res.status(400).json({ error: "Missing date" });
 
-  const d = new Date(date);
-  const day = d.getDay() || 7;
-  const monday = new Date(d);
-  monday.setDate(d.getDate() - day + 1);
+  const period = ((req.query.period as string) || "day") as Period;
+  if (!PERIODS.includes(period)) {
+    return res
+      .status(400)
+      .json({ error: "period must be day, week, month or year" });
+  }
+
+  const { from, to } = periodBounds(period, date);
+  const totals = summarize(from, to, locationIds(res), summaryOptions(req));
+
+  res.json({
+    period,
+    ...periodMeta(period, date),
+    paidHours: totals.hours,
+    grossHours: totals.grossHours,
+    breakMinutes: totals.breakMinutes,
+    shifts: totals.shifts,
+    avgShiftHours:
+      totals.shifts > 0
+        ? Number((totals.hours / totals.shifts).toFixed(2))
+        : null,
+    groups: totals.groups.map((g) => ({
+      group: g.group,
+      paidHours: g.hours,
+      grossHours: g.grossHours,
+      breakMinutes: g.breakMinutes,
+      shifts: g.shifts,
+    })),
+  });
+});
 
-  const sunday = new Date(monday);
-  sunday.setDate(monday.getDate() + 6);
+/* ================= INTRADAY ================= */
 
-  const from = monday.toISOString().slice(0, 10);
-  const to = sunday.toISOString().slice(0, 10);
+/**
+ * GET /api/labor/intraday?date=YYYY-MM-DD[&bucket=60|15][&group=]
+ * Labor hours and cost per time bucket of the business day
+ * (after-midnight hours count to the day the shift belongs to).
+ */
+router.get("/intraday", (req, res) => {
+  const date = req.query.date as string;
+  if (!date) return res.status(400).json({ error: "Missing date" });
 
-  const rows = db
-    .prepare(`SELECT amount FROM labor_entries WHERE date BETWEEN ? AND ?`)
-    .all(from, to) as { amount: number }[];
+  const bucket = Number(req.query.bucket || 60);
+  if (bucket !== 60 && bucket !== 15) {
+    return res.status(400).json({ error: "bucket must be 60 or 15" });
+  }
 
-  const baseCost = rows.reduce((s, r) => s + r.amount, 0);
-  const laborCost = Number((baseCost * UPLIFT_FACTOR).toFixed(2));
+  res.json(intradayLabor(date, bucket as BucketMinutes, locationIds(res), groupParam(req)));
+});
+
+/* ================= SOURCES ================= */
+
+/**
+ * GET /api/labor/sources?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Which source (payroll import / Planday API sync) supplied each day.
+ */
+router.get("/sources", (req, res) => {
+  const from = req.query.from as string;
+  const to = (req.query.to as string) || from;
+  if (!from) return res.status(400).json({ error: "Missing from" });
 
-  res.json({ from, to, upliftPct: UPLIFT_PCT, baseCost, laborCost });
+  res.json({ from, to, days: listDaySources(from, to, locationIds(res)) });
 });
 
-/* ================= MONTH ================= */
+/* ================= EMPLOYEES ================= */
+
+/** Employees with shifts at the location(s). */
+router.get("/employees", (_req, res) => {
+  res.json({ employees: listEmployees(locationIds(res)) });
+});
 
-router.get("/month", (req, res) => {
+/**
+ * GET /api/labor/employees/:id?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *   or ?date=YYYY-MM-DD&period=day|week|month|year
+ * :id is the Planday employee number. Without a range: all shifts on record.
+ */
+router.get("/employees/:id", (req, res) => {
+  const employee = getEmployee(req.params.id);
+  if (!employee) return res.status(404).json({ error: "Employee not found" });
+
+  let from = req.query.from as string;
+  let to = (req.query.to as string) || from;
   const date = req.query.date as string;
-  if (!date) return res.status(400).json({ error: "Missing date" });
 
-  const month = date.slice(0, 7);
+  if (!from && date) {
+    const period = ((req.query.period as string) || "month") as Period;
+    if (!PERIODS.includes(period)) {
+      return res
+        .status(400)
+        .json({ error: "period must be day, week, month or year" });
+    }
+    ({ from, to } = periodBounds(period, date));
+  }
 
-  const rows = db
-    .prepare(`SELECT amount FROM labor_entries WHERE substr(date,1,7) = ?`)
-    .all(month) as { amount: number }[];
+  from = from || employee.activeFrom;
+  to = to || employee.activeTo;
+
+  res.json({
+    ...employee,
+    from,
+    to,
+    rateHistory: rateHistory(employee.employeeNumber),
+    ...employeeStats(employee.employeeNumber, from, to, locationIds(res)),
+  });
+});
 
-  const baseCost = rows.reduce((s, r) => s + r.amount, 0);
-  const laborCost = Number((baseCost * UPLIFT_FACTOR).toFixed(2));
+/* ================= PLANNED SHIFTS ================= */
+
+/**
+ * POST /api/labor/planned/import?from=YYYY-MM-DD&to=YYYY-MM-DD[&location=][&departmentId=]
+ * Body: { shifts: [{ employee, employeeNumber?, group?, date, from, to,
+ *                    breakMinutes?, hourlyRate? }] }
+ * Replaces the exported schedule for the range (default: the shifts' dates).
+ */
+router.post("/planned/import", express.json({ limit: "5mb" }), (req, res) => {
+  const rows = Array.isArray(req.body?.shifts) ? req.body.shifts : null;
+  if (!rows) return res.status(400).json({ error: "Missing shifts array" });
+
+  const shifts = rows.map(mapScheduleExportRow).filter(Boolean) as PlannedShift[];
+  const dates = shifts.map((s) => s.date).sort();
+
+  const from = (req.query.from as string) || dates[0];
+  const to = (req.query.to as string) || dates[dates.length - 1];
+  if (!from || !to) return res.status(400).json({ error: "No valid shifts" });
+
+  const departmentId = Number(req.query.departmentId) || 0;
+  const result = replacePlannedShifts(
+    locationIds(res)[0],
+    "export",
+    departmentId,
+    from,
+    to,
+    shifts
+  );
+
+  res.json({ status: "ok", ...result, invalid: rows.length - shifts.length });
+});
+
+router.get("/planned", (req, res) => {
+  const from = req.query.from as string;
+  const to = (req.query.to as string) || from;
+  if (!from) return res.status(400).json({ error: "Missing from" });
 
-  res.json({ month, upliftPct: UPLIFT_PCT, baseCost, laborCost });
+  res.json({ from, to, shifts: listPlannedShifts(from, to, locationIds(res)) });
 });
 
-/* ================= YEAR ================= */
+/* ================= PROJECTION ================= */
 
-router.get("/year", (req, res) => {
+/**
+ * GET /api/labor/projection?date=YYYY-MM-DD&period=week|month[&group=]
+ * Actual labor for the days of the period that have it, plus planned
+ * shifts for the remaining days, both with the uplift rules of /week and /month.
+ */
+router.get("/projection", (req, res) => {
   const date = req.query.date as string;
   if (!date) return res.status(400).json({ error: "Missing date" });
 
-  const year = date.slice(0, 4);
+  const period = ((req.query.period as string) || "week") as Period;
+  if (period !== "week" && period !== "month") {
+    return res.status(400).json({ error: "period must be week or month" });
+  }
 
-  const rows = db
-    .prepare(`SELECT amount FROM labor_entries WHERE substr(date,1,4) = ?`)
-    .all(year) as { amount: number }[];
+  const { from, to } = periodBounds(period, date);
+  const group = groupParam(req);
+  const locations = locationIds(res);
+
+  const actualDays = (
+    db
+      .prepare(
+        `SELECT DISTINCT date FROM labor_entries
+         WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locations)}
+         ORDER BY date`
+      )
+      .all(from, to, ...locations) as { date: string }[]
+  ).map((r) => r.date);
+
+  const actual = summarize(from, to, locations, { group });
+  const scheduled = scheduledTotals(from, to, locations, group);
+
+  res.json({
+    period,
+    date,
+    from,
+    to,
+    actual: { ...actual, days: actualDays },
+    scheduled,
+    projected: {
+      baseCost: Number((actual.baseCost + scheduled.baseCost).toFixed(2)),
+      laborCost: Number((actual.laborCost + scheduled.laborCost).toFixed(2)),
+      hours: Number((actual.hours + scheduled.hours).toFixed(2)),
+      shifts: actual.shifts + scheduled.shifts,
+    },
+  });
+});
 
-  const baseCost = rows.reduce((s, r) => s + r.amount, 0);
-  const laborCost = Number((baseCost * UPLIFT_FACTOR).toFixed(2));
+/* ================= COMPLIANCE ================= */
 
-  res.json({ year, upliftPct: UPLIFT_PCT, baseCost, laborCost });
+/**
+ * GET /api/labor/compliance?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Rest, weekly day off, average weekly hours and break violations
+ * (thresholds: see compliance.ts).
+ */
+router.get("/compliance", (req, res) => {
+  const from = req.query.from as string;
+  const to = (req.query.to as string) || from;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from ?? "") || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    return res.status(400).json({ error: "from/to must be YYYY-MM-DD" });
+  }
+  if (from > to) return res.status(400).json({ error: "from must be <= to" });
+
+  res.json(complianceReport(from, to, locationIds(res)));
 });
 
 /* ================= TODAY SCHEDULE ================= */
@@ -107,15 +648,37 @@ router.get("/schedule/today", (req, res) => {
   const rows = db
     .prepare(
       `
-    SELECT employee, time_from AS "from", time_to AS "to"
+    SELECT employee, employee_number AS "employeeNumber",
+           employee_group AS "group",
+           time_from AS "from", time_to AS "to",
+           location_id AS "locationId"
     FROM labor_schedule
-    WHERE date = ?
-    ORDER BY time_from
+    WHERE date = ? AND ${locationIn("location_id", locationIds(res))}
+    ORDER BY time_from, employee
+  `
+    )
+    .all(date, ...locationIds(res));
+
+  if (rows.length > 0) return res.json({ date, source: "actual", schedule: rows });
+
+  // Not worked yet: show the planned shifts instead
+  const planned = db
+    .prepare(
+      `
+    SELECT COALESCE(employee, 'Open shift') AS employee,
+           employee_number AS "employeeNumber",
+           employee_group AS "group",
+           time_from AS "from", time_to AS "to",
+           location_id AS "locationId"
+    FROM labor_planned_shifts p
+    WHERE date = ? AND ${locationIn("location_id", locationIds(res))}
+      AND ${plannedSourceOfDay("p")}
+    ORDER BY time_from, employee
   `
     )
-    .all(date);
+    .all(date, ...locationIds(res));
 
-  res.json({ date, schedule: rows });
+  res.json({ date, source: "planned", schedule: planned });
 });
 
 export default router;
@@ -1,92 +1,392 @@
-import { db } from "./db";
 import * as cheerio from "cheerio";
 
-type ParsedShift = {
+/**
+ * One payslip page of the Planday payroll export.
+ * Identity comes from the `personInformation` table at the top of the page.
+ */
+export type PayrollEmployee = {
+  name: string;
+  employeeNumber: string | null;
+  salaryId: string | null;
+  serialNumber: string | null;
+  periodStart: string | null; // YYYY-MM-DD
+  periodEnd: string | null; // YYYY-MM-DD
+};
+
+export type ParsedBreak = {
+  from: string; // HH:MM
+  to: string;   // HH:MM
+  minutes: number;
+  amount: number; // negative: breaks are deducted from pay
+};
+
+export type ParsedShift = {
   employee: string;
+  employeeNumber: string | null;
+  serialNumber: string | null; // payslip the shift was printed on
+  group: string | null; // employee group, e.g. "Kitchen"
   date: string; // YYYY-MM-DD
   from: string; // HH:MM
   to: string;   // HH:MM
+  grossHours: number; // "Quantity" column, whole duty period
+  breakMinutes: number;
+  paidHours: number; // gross hours minus breaks
+  amount: number; // gross amount, before break deductions
+  breakAmount: number; // sum of break deductions (≤ 0)
+  hourlyRate: number | null; // "Hourly wage" column
+  paymentType: string | null; // "Salary code" column, e.g. "01"
+  breaks: ParsedBreak[];
+};
+
+/**
+ * Pay line without a duty period, e.g. "1202 Månedlig løn" for a date range.
+ * Its amount is pay for the whole range, not for hours worked.
+ */
+export type ParsedPayLine = {
+  employee: string;
+  employeeNumber: string | null;
+  serialNumber: string | null;
+  group: string | null;
+  paymentType: string | null;
+  text: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  quantity: number;
+  rate: number | null;
   amount: number;
 };
 
+/** Figures Planday printed on one payslip, kept to reconcile the parse against. */
+export type PrintedPayslip = {
+  employee: string;
+  serialNumber: string | null;
+  groups: { group: string; paidHours: number; amount: number }[]; // employeeGroupSummary
+  subtotals: { label: string; hours: number | null; amount: number }[];
+  total: { shifts: number | null; hours: number | null; amount: number } | null;
+};
+
+/** One row of the employee group table on the first page. */
+export type PrintedGroupTotal = {
+  group: string;
+  grossHours: number;
+  breakHours: number;
+  paidHours: number;
+  payroll: number;
+  breakAmount: number;
+  supplement: number;
+  total: number;
+};
+
+/** A payslip row the parser did not turn into a shift or break. */
+export type UnparsedRow = {
+  employee: string;
+  serialNumber: string | null;
+  rowClass: string;
+  text: string;
+};
+
+export type ParsedPayroll = {
+  employees: PayrollEmployee[];
+  shifts: ParsedShift[];
+  payLines?: ParsedPayLine[]; // absent on batches stored before pay lines were parsed
+  // Absent on batches stored before reconciliation existed
+  printed?: {
+    payslips: PrintedPayslip[];
+    groups: PrintedGroupTotal[];
+    total: PrintedGroupTotal | null;
+  };
+  unparsed?: UnparsedRow[];
+};
+
 function normalizeDate(dkDate: string): string {
   // dd.MM.yyyy → yyyy-MM-dd
   const [dd, mm, yyyy] = dkDate.split(".");
   return `${yyyy}-${mm}-${dd}`;
 }
 
-export function parsePlandayHtml(html: string) {
-  const $ = cheerio.load(html);
+/**
+ * Danish formatted number: "kr. 1.282,50" → 1282.5, "-67,50" → -67.5
+ */
+function parseDkNumber(raw: string): number {
+  const n = Number(raw.replace(/[^\d,-]/g, "").replace(",", "."));
+  return Number.isFinite(n) ? n : 0;
+}
 
-  // Ensure schedule table exists
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS labor_schedule (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      employee TEXT NOT NULL,
-      date TEXT NOT NULL,
-      time_from TEXT NOT NULL,
-      time_to TEXT NOT NULL
-    );
+function optionalDate(dkDate: string | undefined): string | null {
+  return dkDate && /^\d{2}\.\d{2}\.\d{4}$/.test(dkDate)
+    ? normalizeDate(dkDate)
+    : null;
+}
 
-    CREATE INDEX IF NOT EXISTS idx_labor_schedule_date
-      ON labor_schedule(date);
-  `);
+/**
+ * personInformation is a grid of label/value cell pairs:
+ *   Name | … | Date
+ *   Employee number | … | Start date
+ *   Salary ID | … | End date
+ *   Serial number | … | Page
+ */
+function readPersonInformation(
+  $: cheerio.CheerioAPI,
+  table: cheerio.Cheerio<any>
+): PayrollEmployee {
+  const fields: Record<string, string> = {};
 
-  const shifts: ParsedShift[] = [];
+  table.find("td.label").each((_, cell) => {
+    const label = $(cell).text().replace(/ /g, " ").trim();
+    if (!label) return;
 
-  $(".timesheetMasterRow").each((_, row) => {
-    const cells = $(row).find("td");
+    fields[label] = $(cell).next("td.value").text().replace(/ /g, " ").trim();
+  });
+
+  return {
+    name: fields["Name"] || "",
+    employeeNumber: fields["Employee number"] || null,
+    salaryId: fields["Salary ID"] || null,
+    serialNumber: fields["Serial number"] || null,
+    periodStart: optionalDate(fields["Start date"]),
+    periodEnd: optionalDate(fields["End date"]),
+  };
+}
 
-    const dutyDateRaw = $(cells[1]).text().trim();
-    const dutyPeriod = $(cells[2]).text().trim();
-    const amountRaw = $(cells[6]).text().replace(/[^\d,]/g, "").replace(",", ".");
+/**
+ * "Hours, Kitchen (Break 4,00)" → "Kitchen"
+ */
+function readGroupName(
+  $: cheerio.CheerioAPI,
+  row: cheerio.Cheerio<any>
+): string | null {
+  const text = row.find("td.text").clone();
+  text.find(".small").remove();
 
-    if (!dutyDateRaw || !dutyPeriod) return;
+  const name = text.text().trim().replace(/^Hours,\s*/, "");
+  return name || null;
+}
 
-    const [from, to] = dutyPeriod.split(" - ").map((s) => s.trim());
-    if (!from || !to) return;
+/**
+ * Break row: range, quantity (hours) and a negative amount.
+ */
+function addBreak(
+  shift: ParsedShift,
+  $: cheerio.CheerioAPI,
+  cells: cheerio.Cheerio<any>
+) {
+  const [from, to] = $(cells[2])
+    .text()
+    .trim()
+    .split(" - ")
+    .map((s) => s.trim());
 
-    const date = normalizeDate(dutyDateRaw);
-    const amount = Number(amountRaw);
+  const hours = parseDkNumber($(cells[4]).text());
+  const minutes = Math.round(hours * 60);
+  const amount = parseDkNumber($(cells[6]).text());
 
-    // Employee name is inferred later via amount matching
-    shifts.push({
-      employee: "__UNKNOWN__",
-      date,
-      from,
-      to,
-      amount,
-    });
+  shift.breaks.push({ from: from || "", to: to || "", minutes, amount });
+  shift.breakMinutes += minutes;
+  shift.paidHours = Number((shift.grossHours - shift.breakMinutes / 60).toFixed(2));
+  shift.breakAmount = Number((shift.breakAmount + amount).toFixed(2));
+}
+
+function cellText($: cheerio.CheerioAPI, cell: any) {
+  return $(cell).text().replace(/\s+/g, " ").trim();
+}
+
+/** Empty cell → null, otherwise a Danish number */
+function optionalNumber(raw: string): number | null {
+  return raw.trim() ? parseDkNumber(raw) : null;
+}
+
+/**
+ * Employee group table on the first page:
+ * group | gross hours | hours on break | hours | payroll | break | supplement | total
+ */
+function readReportHeader($: cheerio.CheerioAPI) {
+  const groups: PrintedGroupTotal[] = [];
+  let total: PrintedGroupTotal | null = null;
+
+  $("table.reportHeader tbody tr").each((_, row) => {
+    const cells = $(row).find("td");
+    if (cells.length < 8) return;
+
+    const n = (i: number) => parseDkNumber(cellText($, cells[i]));
+    const line: PrintedGroupTotal = {
+      group: cellText($, cells[0]),
+      grossHours: n(1),
+      breakHours: n(2),
+      paidHours: n(3),
+      payroll: n(4),
+      breakAmount: n(5),
+      supplement: n(6),
+      total: n(7),
+    };
+
+    if ($(row).hasClass("total")) total = line;
+    else groups.push(line);
   });
 
-  // Clear existing schedule (idempotent import)
-  db.prepare(`DELETE FROM labor_schedule`).run();
+  return { groups, total };
+}
+
+/**
+ * Pure parse of the payroll HTML (no DB access).
+ * Every paySlip table is attributed to the personInformation table on its page.
+ */
+export function parsePayrollHtml(html: string): ParsedPayroll {
+  const $ = cheerio.load(html);
+
+  const employees: PayrollEmployee[] = [];
+  const shifts: ParsedShift[] = [];
+  const payLines: ParsedPayLine[] = [];
+  const payslips: PrintedPayslip[] = [];
+  const unparsed: UnparsedRow[] = [];
+
+  $("table.paySlip").each((_, slip) => {
+    const info = $(slip).prevAll("table.personInformation").first();
+    const employee = info.length
+      ? readPersonInformation($, info)
+      : {
+          name: "",
+          employeeNumber: null,
+          salaryId: null,
+          serialNumber: null,
+          periodStart: null,
+          periodEnd: null,
+        };
+
+    employees.push(employee);
 
-  // Map shifts to employees via labor_entries (amount matching)
-  const stmtFindEmployee = db.prepare(`
-    SELECT employee
-    FROM labor_entries
-    WHERE date = ?
-      AND ABS(amount - ?) < 0.01
-    LIMIT 1
-  `);
+    const printed: PrintedPayslip = {
+      employee: employee.name,
+      serialNumber: employee.serialNumber,
+      groups: [],
+      subtotals: [],
+      total: null,
+    };
+    payslips.push(printed);
 
-  const stmtInsert = db.prepare(`
-    INSERT INTO labor_schedule (employee, date, time_from, time_to)
-    VALUES (?, ?, ?, ?)
-  `);
+    const skip = (row: cheerio.Cheerio<any>) =>
+      unparsed.push({
+        employee: employee.name,
+        serialNumber: employee.serialNumber,
+        rowClass: row.attr("class") || "",
+        text: cellText($, row),
+      });
 
-  for (const s of shifts) {
-    const row = stmtFindEmployee.get(s.date, s.amount) as
-      | { employee: string }
-      | undefined;
+    // Shifts belong to the employeeGroupSummary row above them
+    let group: string | null = null;
 
-    if (!row) continue;
+    // timesheetPauseRow rows belong to the timesheetMasterRow above them
+    let lastShift: ParsedShift | null = null;
 
-    stmtInsert.run(row.employee, s.date, s.from, s.to);
-  }
+    $(slip)
+      .find("tr")
+      .each((_, row) => {
+        const $row = $(row);
+
+        const cells = $row.find("td");
+
+        // Header rows (th) and the spacer above the subtotals
+        if (cells.length === 0 || $row.hasClass("firstsubtotal")) return;
+
+        if ($row.hasClass("employeeGroupSummary")) {
+          group = readGroupName($, $row);
+          printed.groups.push({
+            group: group ?? "",
+            paidHours: parseDkNumber(cellText($, cells[3])),
+            amount: parseDkNumber(cellText($, cells[5])),
+          });
+          return;
+        }
+
+        if ($row.hasClass("subtotal")) {
+          printed.subtotals.push({
+            label: cellText($, cells[0]),
+            hours: optionalNumber(cellText($, cells[1])),
+            amount: parseDkNumber(cellText($, cells[3])),
+          });
+          return;
+        }
+
+        if ($row.hasClass("total")) {
+          const shiftCount = /(\d+)/.exec(cellText($, cells[1]));
+          printed.total = {
+            shifts: shiftCount ? Number(shiftCount[1]) : null,
+            hours: optionalNumber(cellText($, cells[2])),
+            amount: parseDkNumber(cellText($, cells[4])),
+          };
+          return;
+        }
+
+        if ($row.hasClass("timesheetPauseRow")) {
+          if (lastShift) addBreak(lastShift, $, cells);
+          else skip($row);
+          return;
+        }
+
+        if (!$row.hasClass("timesheetMasterRow")) {
+          skip($row);
+          return;
+        }
+
+        lastShift = null;
+
+        const paymentType = cellText($, cells[0]) || null;
+        const dutyDateRaw = $(cells[1]).text().trim();
+        const dutyPeriod = $(cells[2]).text().trim();
+
+        // "01.01.2026 - 31.01.2026" across date + range: a pay line for a period
+        const range = /^(\d{2}\.\d{2}\.\d{4})\s*-\s*(\d{2}\.\d{2}\.\d{4})$/.exec(dutyDateRaw);
+        if (range) {
+          payLines.push({
+            employee: employee.name || employee.employeeNumber || "Unknown",
+            employeeNumber: employee.employeeNumber,
+            serialNumber: employee.serialNumber,
+            group,
+            paymentType,
+            text: cellText($, $row.find("td.text")),
+            periodStart: normalizeDate(range[1]),
+            periodEnd: normalizeDate(range[2]),
+            quantity: parseDkNumber(cellText($, $row.find("td.count"))),
+            rate: parseDkNumber(cellText($, $row.find("td.hourlySalary"))) || null,
+            amount: parseDkNumber(cellText($, $row.find("td.amount"))),
+          });
+          return;
+        }
+
+        const [from, to] = dutyPeriod.split(" - ").map((s) => s.trim());
+        if (!dutyDateRaw || !from || !to) {
+          skip($row);
+          return;
+        }
+
+        const grossHours = parseDkNumber($(cells[4]).text());
+
+        lastShift = {
+          employee: employee.name || employee.employeeNumber || "Unknown",
+          employeeNumber: employee.employeeNumber,
+          serialNumber: employee.serialNumber,
+          group,
+          date: normalizeDate(dutyDateRaw),
+          from,
+          to,
+          grossHours,
+          breakMinutes: 0,
+          paidHours: grossHours,
+          amount: parseDkNumber($(cells[6]).text()),
+          breakAmount: 0,
+          hourlyRate: parseDkNumber($(cells[5]).text()) || null,
+          paymentType,
+          breaks: [],
+        };
+
+        shifts.push(lastShift);
+      });
+  });
 
   return {
-    shiftsImported: shifts.length,
+    employees,
+    shifts,
+    payLines,
+    printed: { payslips, ...readReportHeader($) },
+    unparsed,
   };
 }
@@ -0,0 +1,73 @@
+import { db } from "./db";
+
+/**
+ * Planday salary codes (paymentTypeNumber) mapped to cost categories.
+ *
+ * The mapping is data: codes differ per Planday setup, so they are added
+ * through /api/labor/payment-types as they show up on payslips.
+ * Rows without a code (Planday API sync, old imports) count as "hours";
+ * a code without a mapping counts as "unmapped" and productive.
+ * Non-productive categories (sick pay, vacation …) can be left out of
+ * labor % of sales with ?productiveOnly=1.
+ */
+export type PaymentType = {
+  code: string;
+  category: string;
+  label: string | null;
+  productive: boolean;
+};
+
+type PaymentTypeRow = {
+  code: string;
+  category: string;
+  label: string | null;
+  productive: number;
+};
+
+function toPaymentType(row: PaymentTypeRow): PaymentType {
+  return {
+    code: row.code,
+    category: row.category,
+    label: row.label,
+    productive: row.productive === 1,
+  };
+}
+
+export function listPaymentTypes(): PaymentType[] {
+  return (
+    db.prepare(`SELECT * FROM labor_payment_types ORDER BY code`).all() as PaymentTypeRow[]
+  ).map(toPaymentType);
+}
+
+export function savePaymentType(input: PaymentType): PaymentType {
+  db.prepare(
+    `
+    INSERT INTO labor_payment_types (code, category, label, productive)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(code) DO UPDATE SET
+      category = excluded.category,
+      label = excluded.label,
+      productive = excluded.productive
+  `
+  ).run(input.code, input.category, input.label, input.productive ? 1 : 0);
+
+  return input;
+}
+
+export function deletePaymentType(code: string): boolean {
+  return db.prepare(`DELETE FROM labor_payment_types WHERE code = ?`).run(code).changes > 0;
+}
+
+/**
+ * SQL for the category / productive flag of a row with a `payment_type`
+ * column, given the alias of the joined labor_payment_types row.
+ */
+export function categorySql(row: string, pt: string) {
+  return {
+    join: `LEFT JOIN labor_payment_types ${pt} ON ${pt}.code = ${row}.payment_type`,
+    category: `CASE WHEN ${row}.payment_type IS NULL THEN 'hours'
+                    ELSE COALESCE(${pt}.category, 'unmapped') END`,
+    productive: `CASE WHEN ${row}.payment_type IS NULL THEN 1
+                      ELSE COALESCE(${pt}.productive, 1) END`,
+  };
+}
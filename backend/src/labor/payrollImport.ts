@@ -0,0 +1,656 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { clearDaySources, recordDaySources } from "./daySources";
+import { refreshEmployees } from "./employees";
+import { parsePayrollHtml, ParsedPayroll, ParsedShift } from "./parsePlandayHtml";
+import { reconcilePayroll, saveReconciliation } from "./reconciliation";
+import { locationIn } from "../locations/locations";
+
+export type ShiftChange = {
+  type: "insert" | "update" | "remove";
+  shiftKey: string;
+  date: string;
+  before?: { amount: number; breakAmount: number; paidHours: number | null };
+  after?: { amount: number; breakAmount: number; paidHours: number };
+};
+
+export type EmployeeImportCounts = {
+  employee: string;
+  employeeNumber: string | null;
+  serialNumber: string | null;
+  inserted: number;
+  updated: number;
+  skipped: number; // unchanged, or no payslip serial number to key on
+  removed: number; // no longer on the payslip (or legacy un-keyed rows)
+  changes: ShiftChange[];
+};
+
+export type ImportBatch = {
+  id: number;
+  locationId: string;
+  createdAt: string;
+  kind: "import" | "rollback";
+  status: "applied" | "rolled_back";
+  restoredFrom: number | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  fileHash: string | null;
+  employees: number;
+  shifts: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+};
+
+/**
+ * Identifies a shift within one payslip.
+ * Together with the payslip serial number this is the upsert key of labor_entries.
+ * Rows with a salary code other than ordinary hours ("01") can share a duty
+ * period with the hours row, so the code is part of their key.
+ * Identical shifts on one payslip are numbered by applyPayroll.
+ */
+export function shiftKey(s: {
+  date: string;
+  from: string;
+  to: string;
+  paymentType?: string | null;
+}) {
+  const key = `${s.date} ${s.from}-${s.to}`;
+  return s.paymentType && s.paymentType !== "01" ? `${key} #${s.paymentType}` : key;
+}
+
+type StoredEntry = {
+  id: number;
+  shift_key: string;
+  date: string;
+  employee: string;
+  employee_number: string | null;
+  employee_group: string | null;
+  hours: number | null;
+  break_minutes: number;
+  paid_hours: number | null;
+  amount: number;
+  break_amount: number;
+  hourly_rate: number | null;
+  payment_type: string | null;
+};
+
+function entryChanged(existing: StoredEntry, s: ParsedShift) {
+  return (
+    Math.abs(existing.amount - s.amount) >= 0.005 ||
+    Math.abs(existing.break_amount - s.breakAmount) >= 0.005 ||
+    Math.abs((existing.hours ?? 0) - s.grossHours) >= 0.005 ||
+    Math.abs((existing.paid_hours ?? 0) - s.paidHours) >= 0.005 ||
+    existing.break_minutes !== s.breakMinutes ||
+    (existing.hourly_rate ?? null) !== (s.hourlyRate ?? null) ||
+    (existing.payment_type ?? null) !== (s.paymentType ?? null) ||
+    existing.employee !== s.employee ||
+    existing.employee_number !== s.employeeNumber ||
+    existing.employee_group !== s.group
+  );
+}
+
+function before(e: StoredEntry): ShiftChange["before"] {
+  return { amount: e.amount, breakAmount: e.break_amount, paidHours: e.paid_hours };
+}
+
+function after(s: ParsedShift): ShiftChange["after"] {
+  return { amount: s.amount, breakAmount: s.breakAmount, paidHours: s.paidHours };
+}
+
+/**
+ * Payroll period covered by an import: the payslip start/end dates,
+ * or the shift dates when the payslips carry none.
+ */
+function payrollPeriod({ employees, shifts }: ParsedPayroll) {
+  const dates = [
+    ...employees.flatMap((e) => [e.periodStart, e.periodEnd]),
+    ...shifts.map((s) => s.date),
+  ]
+    .filter((d): d is string => !!d)
+    .sort();
+
+  return dates.length
+    ? { start: dates[0], end: dates[dates.length - 1] }
+    : { start: null, end: null };
+}
+
+/**
+ * Writes a parsed payroll to the labor tables of a location:
+ * - labor_schedule: replaced for the payroll period
+ * - labor_entries: per-shift cost, upserted by (location, serial_number, shift_key),
+ *   so re-importing the same payroll period replaces it instead of doubling it.
+ *   Rows synced from the Planday API for the period are replaced: the payroll
+ *   is the final word on what was paid.
+ *
+ * Must run inside a transaction.
+ */
+function applyPayroll(payroll: ParsedPayroll, batchId: number | null, locationId: string) {
+  const { employees, shifts } = payroll;
+  const period = payrollPeriod(payroll);
+
+  const stmtInsertSchedule = db.prepare(`
+    INSERT INTO labor_schedule
+      (employee, employee_number, employee_group, date, time_from, time_to, batch_id,
+       location_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const stmtSlipEntries = db.prepare(`
+    SELECT id, shift_key, date, employee, employee_number, employee_group,
+           hours, break_minutes, paid_hours, amount, break_amount, hourly_rate,
+           payment_type
+    FROM labor_entries
+    WHERE location_id = ? AND serial_number = ?
+  `);
+
+  const stmtInsertEntry = db.prepare(`
+    INSERT INTO labor_entries
+      (employee, employee_number, employee_group, serial_number, shift_key,
+       date, time_from, time_to, hours, break_minutes, paid_hours,
+       amount, break_amount, hourly_rate, payment_type, batch_id, location_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const stmtUpdateEntry = db.prepare(`
+    UPDATE labor_entries
+    SET employee = ?, employee_number = ?, employee_group = ?,
+        hours = ?, break_minutes = ?, paid_hours = ?,
+        amount = ?, break_amount = ?, hourly_rate = ?, payment_type = ?, batch_id = ?
+    WHERE id = ?
+  `);
+
+  const stmtDeleteEntry = db.prepare(`DELETE FROM labor_entries WHERE id = ?`);
+
+  const stmtDeletePayLines = db.prepare(
+    `DELETE FROM labor_pay_lines WHERE location_id = ? AND serial_number = ?`
+  );
+  const stmtInsertPayLine = db.prepare(`
+    INSERT INTO labor_pay_lines
+      (serial_number, employee, employee_number, employee_group, payment_type,
+       text, period_start, period_end, quantity, rate, amount, batch_id, location_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  // Rows entered before entries were keyed carry no serial number.
+  // They cover the same shifts, so they are replaced for the payslip period.
+  const stmtLegacy = db.prepare(`
+    SELECT id, shift_key, date, amount, break_amount, paid_hours
+    FROM labor_entries
+    WHERE serial_number IS NULL
+      AND location_id = ?
+      AND employee = ?
+      AND date BETWEEN ? AND ?
+  `);
+
+  const bySlip = new Map<string, ParsedShift[]>();
+  for (const s of shifts) {
+    const key = s.serialNumber ?? "";
+    if (!bySlip.has(key)) bySlip.set(key, []);
+    bySlip.get(key)!.push(s);
+  }
+
+  let replacedApiEntries = 0;
+
+  // Schedule for the payroll period is replaced, not the whole table
+  if (period.start && period.end) {
+    db.prepare(
+      `DELETE FROM labor_schedule WHERE location_id = ? AND date BETWEEN ? AND ?`
+    ).run(locationId, period.start, period.end);
+
+    replacedApiEntries = db
+      .prepare(
+        `DELETE FROM labor_entries
+         WHERE source = 'planday-api' AND location_id = ? AND date BETWEEN ? AND ?`
+      )
+      .run(locationId, period.start, period.end).changes;
+
+    clearDaySources(locationId, "planday-api", period.start, period.end);
+    clearDaySources(locationId, "payroll", period.start, period.end);
+  }
+
+  const entriesByDate = new Map<string, number>();
+  for (const s of shifts) {
+    if (!s.serialNumber) continue;
+    entriesByDate.set(s.date, (entriesByDate.get(s.date) ?? 0) + 1);
+  }
+  recordDaySources(locationId, "payroll", null, entriesByDate);
+
+  for (const s of shifts) {
+    stmtInsertSchedule.run(
+      s.employee,
+      s.employeeNumber,
+      s.group,
+      s.date,
+      s.from,
+      s.to,
+      batchId,
+      locationId
+    );
+  }
+
+  const results: EmployeeImportCounts[] = [];
+  let payLines = 0;
+
+  for (const e of employees) {
+    const slipShifts = bySlip.get(e.serialNumber ?? "") ?? [];
+    const counts: EmployeeImportCounts = {
+      employee: e.name,
+      employeeNumber: e.employeeNumber,
+      serialNumber: e.serialNumber,
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      removed: 0,
+      changes: [],
+    };
+    results.push(counts);
+
+    if (!e.serialNumber) {
+      counts.skipped += slipShifts.length;
+      continue;
+    }
+
+    if (e.periodStart && e.periodEnd) {
+      const legacy = stmtLegacy.all(
+        locationId,
+        e.name,
+        e.periodStart,
+        e.periodEnd
+      ) as StoredEntry[];
+
+      for (const row of legacy) {
+        stmtDeleteEntry.run(row.id);
+        counts.removed++;
+        counts.changes.push({
+          type: "remove",
+          shiftKey: row.shift_key ?? row.date,
+          date: row.date,
+          before: before(row),
+        });
+      }
+    }
+
+    const stored = new Map<string, StoredEntry>();
+    for (const row of stmtSlipEntries.all(locationId, e.serialNumber) as StoredEntry[]) {
+      stored.set(row.shift_key, row);
+    }
+
+    const keys = new Set<string>();
+    const occurrences = new Map<string, number>();
+
+    for (const s of slipShifts) {
+      // The same duty period printed twice on a payslip is two shifts:
+      // the nth one keys as "<key> (n)", stable across re-imports
+      const base = shiftKey(s);
+      const n = (occurrences.get(base) ?? 0) + 1;
+      occurrences.set(base, n);
+
+      const key = n === 1 ? base : `${base} (${n})`;
+      keys.add(key);
+
+      const existing = stored.get(key);
+
+      if (!existing) {
+        stmtInsertEntry.run(
+          s.employee,
+          s.employeeNumber,
+          s.group,
+          e.serialNumber,
+          key,
+          s.date,
+          s.from,
+          s.to,
+          s.grossHours,
+          s.breakMinutes,
+          s.paidHours,
+          s.amount,
+          s.breakAmount,
+          s.hourlyRate ?? null,
+          s.paymentType ?? null,
+          batchId,
+          locationId
+        );
+        counts.inserted++;
+        counts.changes.push({ type: "insert", shiftKey: key, date: s.date, after: after(s) });
+      } else if (entryChanged(existing, s)) {
+        stmtUpdateEntry.run(
+          s.employee,
+          s.employeeNumber,
+          s.group,
+          s.grossHours,
+          s.breakMinutes,
+          s.paidHours,
+          s.amount,
+          s.breakAmount,
+          s.hourlyRate ?? null,
+          s.paymentType ?? null,
+          batchId,
+          existing.id
+        );
+        counts.updated++;
+        counts.changes.push({
+          type: "update",
+          shiftKey: key,
+          date: s.date,
+          before: before(existing),
+          after: after(s),
+        });
+      } else {
+        counts.skipped++;
+      }
+    }
+
+    // Shifts that disappeared from a re-issued payslip
+    for (const row of stored.values()) {
+      if (keys.has(row.shift_key)) continue;
+      stmtDeleteEntry.run(row.id);
+      counts.removed++;
+      counts.changes.push({
+        type: "remove",
+        shiftKey: row.shift_key,
+        date: row.date,
+        before: before(row),
+      });
+    }
+
+    // Pay lines carry no key of their own: the payslip's set is replaced
+    stmtDeletePayLines.run(locationId, e.serialNumber);
+    for (const l of (payroll.payLines ?? []).filter((l) => l.serialNumber === e.serialNumber)) {
+      stmtInsertPayLine.run(
+        e.serialNumber,
+        l.employee,
+        l.employeeNumber,
+        l.group,
+        l.paymentType,
+        l.text,
+        l.periodStart,
+        l.periodEnd,
+        l.quantity,
+        l.rate,
+        l.amount,
+        batchId,
+        locationId
+      );
+      payLines++;
+    }
+  }
+
+  refreshEmployees();
+
+  return { period, results, replacedApiEntries, payLines };
+}
+
+function totalsOf(results: EmployeeImportCounts[]) {
+  const sum = (k: "inserted" | "updated" | "skipped" | "removed") =>
+    results.reduce((acc, r) => acc + r[k], 0);
+
+  return {
+    inserted: sum("inserted"),
+    updated: sum("updated"),
+    skipped: sum("skipped"),
+    removed: sum("removed"),
+  };
+}
+
+function recordBatch(
+  locationId: string,
+  payroll: ParsedPayroll,
+  kind: ImportBatch["kind"],
+  fileHash: string | null,
+  restoredFrom: number | null
+): number {
+  const period = payrollPeriod(payroll);
+
+  const info = db
+    .prepare(
+      `
+    INSERT INTO labor_import_batches
+      (created_at, kind, status, restored_from, period_start, period_end, file_hash,
+       employees, shifts, inserted, updated, skipped, removed, payload, location_id)
+    VALUES (?, ?, 'applied', ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, ?, ?)
+  `
+    )
+    .run(
+      new Date().toISOString(),
+      kind,
+      restoredFrom,
+      period.start,
+      period.end,
+      fileHash,
+      payroll.employees.length,
+      payroll.shifts.length,
+      JSON.stringify(payroll),
+      locationId
+    );
+
+  return Number(info.lastInsertRowid);
+}
+
+function saveBatchCounts(batchId: number, results: EmployeeImportCounts[]) {
+  const t = totalsOf(results);
+  db.prepare(
+    `
+    UPDATE labor_import_batches
+    SET inserted = ?, updated = ?, skipped = ?, removed = ?
+    WHERE id = ?
+  `
+  ).run(t.inserted, t.updated, t.skipped, t.removed, batchId);
+}
+
+/** Thrown inside a transaction to discard a dry run's writes. */
+class DryRunRollback extends Error {}
+
+/**
+ * Imports the Planday payroll HTML of a location as a new batch.
+ *
+ * dryRun: runs the exact same writes inside a transaction that is then
+ * rolled back, and returns the per-shift diff against current data.
+ * The parse is reconciled against the printed totals either way.
+ */
+export function importPayroll(
+  html: string,
+  opts: { locationId: string; dryRun?: boolean }
+) {
+  const payroll = parsePayrollHtml(html);
+  const reconciliation = reconcilePayroll(payroll);
+  const fileHash = crypto.createHash("sha256").update(html).digest("hex");
+
+  const previous = db
+    .prepare(
+      `
+    SELECT id FROM labor_import_batches
+    WHERE file_hash = ? AND status = 'applied'
+    ORDER BY id DESC LIMIT 1
+  `
+    )
+    .get(fileHash) as { id: number } | undefined;
+
+  let batchId: number | null = null;
+  let applied: ReturnType<typeof applyPayroll> | null = null;
+
+  try {
+    db.transaction(() => {
+      batchId = opts.dryRun
+        ? null
+        : recordBatch(opts.locationId, payroll, "import", fileHash, null);
+      applied = applyPayroll(payroll, batchId, opts.locationId);
+
+      if (opts.dryRun) throw new DryRunRollback();
+
+      saveBatchCounts(batchId!, applied.results);
+      saveReconciliation(batchId!, reconciliation);
+    })();
+  } catch (err) {
+    if (!(err instanceof DryRunRollback)) throw err;
+  }
+
+  const { period, results, replacedApiEntries, payLines } = applied!;
+
+  return {
+    dryRun: !!opts.dryRun,
+    locationId: opts.locationId,
+    batchId,
+    period,
+    replacedApiEntries,
+    fileHash,
+    sameFileAsBatch: previous?.id ?? null,
+    shiftsImported: payroll.shifts.length,
+    payLinesImported: payLines,
+    employees: results.map(({ changes, ...counts }) =>
+      opts.dryRun ? { ...counts, changes } : counts
+    ),
+    totals: totalsOf(results),
+    reconciliation,
+  };
+}
+
+type BatchRow = {
+  id: number;
+  location_id: string;
+  created_at: string;
+  kind: ImportBatch["kind"];
+  status: ImportBatch["status"];
+  restored_from: number | null;
+  period_start: string | null;
+  period_end: string | null;
+  file_hash: string | null;
+  employees: number;
+  shifts: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+  payload: string; // ParsedPayroll JSON
+};
+
+function toBatch(row: BatchRow): ImportBatch {
+  return {
+    id: row.id,
+    locationId: row.location_id,
+    createdAt: row.created_at,
+    kind: row.kind,
+    status: row.status,
+    restoredFrom: row.restored_from,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    fileHash: row.file_hash,
+    employees: row.employees,
+    shifts: row.shifts,
+    inserted: row.inserted,
+    updated: row.updated,
+    skipped: row.skipped,
+    removed: row.removed,
+  };
+}
+
+export function listImportBatches(locationIds: string[]): ImportBatch[] {
+  return (
+    db
+      .prepare(
+        `SELECT * FROM labor_import_batches
+         WHERE ${locationIn("location_id", locationIds)}
+         ORDER BY id DESC`
+      )
+      .all(...locationIds) as BatchRow[]
+  ).map(toBatch);
+}
+
+export function getImportBatch(id: number): ImportBatch | null {
+  const row = db.prepare(`SELECT * FROM labor_import_batches WHERE id = ?`).get(id) as
+    | BatchRow
+    | undefined;
+  return row ? toBatch(row) : null;
+}
+
+/**
+ * Restores the labor data of an earlier batch.
+ *
+ * Later applied batches of the same location overlapping its period are
+ * marked rolled_back, payslips only they introduced are removed, and the
+ * earlier batch's payroll is re-applied as a new "rollback" batch.
+ */
+export function rollbackToBatch(id: number) {
+  const target = db
+    .prepare(`SELECT * FROM labor_import_batches WHERE id = ?`)
+    .get(id) as BatchRow | undefined;
+
+  if (!target) return null;
+
+  const payroll = JSON.parse(target.payload) as ParsedPayroll;
+  const serials = new Set(
+    payroll.employees.map((e) => e.serialNumber).filter(Boolean)
+  );
+
+  let batchId = 0;
+  let results: EmployeeImportCounts[] = [];
+  let rolledBack: number[] = [];
+
+  db.transaction(() => {
+    rolledBack = (
+      db
+        .prepare(
+          `
+      SELECT id FROM labor_import_batches
+      WHERE id > ? AND status = 'applied' AND location_id = ?
+        AND COALESCE(period_start, '') <= COALESCE(?, '9999')
+        AND COALESCE(period_end, '9999') >= COALESCE(?, '')
+    `
+        )
+        .all(id, target.location_id, target.period_end, target.period_start) as { id: number }[]
+    ).map((r) => r.id);
+
+    const stmtMark = db.prepare(
+      `UPDATE labor_import_batches SET status = 'rolled_back' WHERE id = ?`
+    );
+    const stmtSlipsOf = db.prepare(
+      `SELECT serial_number FROM labor_entries WHERE batch_id = ?
+       UNION
+       SELECT serial_number FROM labor_pay_lines WHERE batch_id = ?`
+    );
+    const stmtDeleteSlip = db.prepare(
+      `DELETE FROM labor_entries WHERE location_id = ? AND serial_number = ?`
+    );
+    const stmtDeleteSlipPayLines = db.prepare(
+      `DELETE FROM labor_pay_lines WHERE location_id = ? AND serial_number = ?`
+    );
+
+    const extraRemoved: EmployeeImportCounts[] = [];
+
+    for (const later of rolledBack) {
+      for (const { serial_number } of stmtSlipsOf.all(later, later) as {
+        serial_number: string | null;
+      }[]) {
+        if (!serial_number || serials.has(serial_number)) continue;
+        const removed = stmtDeleteSlip.run(target.location_id, serial_number).changes;
+        stmtDeleteSlipPayLines.run(target.location_id, serial_number);
+        extraRemoved.push({
+          employee: "",
+          employeeNumber: null,
+          serialNumber: serial_number,
+          inserted: 0,
+          updated: 0,
+          skipped: 0,
+          removed,
+          changes: [],
+        });
+      }
+      stmtMark.run(later);
+    }
+
+    batchId = recordBatch(target.location_id, payroll, "rollback", target.file_hash, id);
+    results = [...applyPayroll(payroll, batchId, target.location_id).results, ...extraRemoved];
+    saveBatchCounts(batchId, results);
+    saveReconciliation(batchId, reconcilePayroll(payroll));
+  })();
+
+  return {
+    locationId: target.location_id,
+    batchId,
+    restoredFrom: id,
+    rolledBack,
+    employees: results.map(({ changes: _changes, ...counts }) => counts),
+    totals: totalsOf(results),
+  };
+}
@@ -0,0 +1,41 @@
+import { addDays } from "../utils/businessCalendar";
+
+export type Period = "day" | "week" | "month" | "year";
+
+export const PERIODS: Period[] = ["day", "week", "month", "year"];
+
+/**
+ * First and last date (YYYY-MM-DD, inclusive) of the period containing `date`.
+ * Weeks run Monday → Sunday.
+ */
+export function periodBounds(period: Period, date: string) {
+  if (period === "day") return { from: date, to: date };
+
+  if (period === "week") {
+    // Weekday of the calendar date itself, not of the server's local midnight
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+    const monday = addDays(date, 1 - day);
+    return { from: monday, to: addDays(monday, 6) };
+  }
+
+  const year = Number(date.slice(0, 4));
+
+  if (period === "month") {
+    const month = Number(date.slice(5, 7));
+    const last = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return {
+      from: `${date.slice(0, 7)}-01`,
+      to: `${date.slice(0, 7)}-${String(last).padStart(2, "0")}`,
+    };
+  }
+
+  return { from: `${year}-01-01`, to: `${year}-12-31` };
+}
+
+/** Keys each period endpoint echoes back (date / from+to / month / year). */
+export function periodMeta(period: Period, date: string) {
+  if (period === "day") return { date };
+  if (period === "week") return periodBounds("week", date);
+  if (period === "month") return { month: date.slice(0, 7) };
+  return { year: date.slice(0, 4) };
+}
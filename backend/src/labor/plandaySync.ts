@@ -0,0 +1,285 @@
+import { db } from "./db";
+import { clearDaySources, recordDaySources } from "./daySources";
+import { refreshEmployees } from "./employees";
+import { ParsedShift } from "./parsePlandayHtml";
+import { plandayGet } from "../integrations/plandayAuth";
+
+/**
+ * Planday time & cost sync.
+ *
+ * Pulls `timeandcost/v1.0/entries` for a department and date range and maps
+ * every entry to the same ParsedShift shape the payroll HTML import produces,
+ * so API-sourced and HTML-sourced labor land in labor_entries/labor_schedule
+ * identically (gross amount, break deduction, gross/paid hours, group).
+ *
+ * Rows belong to the location the department is synced for. Days of that
+ * location already supplied by an imported payroll are left alone:
+ * the payroll is what was actually paid.
+ */
+
+export const API_SOURCE = "planday-api";
+
+const PAGE_SIZE = 50;
+
+type Lookup = Map<string, string>;
+
+function str(v: unknown): string | null {
+  return v === null || v === undefined || v === "" ? null : String(v);
+}
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** "2026-01-07T16:29:00" → { date: "2026-01-07", time: "16:29" } (local, no TZ shift) */
+export function splitLocal(dateTime: string) {
+  return { date: dateTime.slice(0, 10), time: dateTime.slice(11, 16) };
+}
+
+export function minutesBetween(start: string, end: string) {
+  const a = Date.parse(start.slice(0, 19) + "Z");
+  const b = Date.parse(end.slice(0, 19) + "Z");
+  return Number.isFinite(a) && Number.isFinite(b) ? Math.max(0, (b - a) / 60000) : 0;
+}
+
+/**
+ * Maps one Planday time & cost entry. Field names vary between API
+ * versions, so the common spellings are accepted.
+ */
+export function mapTimeAndCostEntry(
+  raw: any,
+  employees: Lookup,
+  groups: Lookup
+): ParsedShift | null {
+  const start = str(raw?.startDateTime ?? raw?.start ?? raw?.shiftStart);
+  const end = str(raw?.endDateTime ?? raw?.end ?? raw?.shiftEnd);
+  if (!start || !end) return null;
+
+  const employeeNumber = str(raw?.employeeId ?? raw?.employee?.id);
+  const groupId = str(raw?.employeeGroupId ?? raw?.employeeGroup?.id);
+
+  const employee =
+    str(raw?.employeeName) ??
+    (employeeNumber ? employees.get(employeeNumber) : null) ??
+    (employeeNumber ? `Employee ${employeeNumber}` : "Unknown");
+
+  const group =
+    str(raw?.employeeGroupName ?? raw?.employeeGroup?.name) ??
+    (groupId ? groups.get(groupId) ?? null : null);
+
+  const grossMinutes = minutesBetween(start, end);
+  const breakMinutes = Math.round(num(raw?.breakDuration ?? raw?.breakMinutes));
+  const paidMinutes = Math.max(0, grossMinutes - breakMinutes);
+
+  // Planday reports the paid cost; split it into gross pay and break
+  // deduction like the payslip does.
+  const cost = num(raw?.cost ?? raw?.salary ?? raw?.amount);
+  const wage =
+    num(raw?.wage ?? raw?.hourlyRate) || (paidMinutes > 0 ? cost / (paidMinutes / 60) : 0);
+  const breakAmount = -Number(((breakMinutes / 60) * wage).toFixed(2));
+
+  const from = splitLocal(start);
+  const to = splitLocal(end);
+
+  return {
+    employee,
+    employeeNumber,
+    serialNumber: null,
+    group,
+    date: from.date,
+    from: from.time,
+    to: to.time,
+    grossHours: Number((grossMinutes / 60).toFixed(2)),
+    breakMinutes,
+    paidHours: Number((paidMinutes / 60).toFixed(2)),
+    amount: Number((cost - breakAmount).toFixed(2)),
+    breakAmount,
+    hourlyRate: wage || null,
+    paymentType: null,
+    breaks: [],
+  };
+}
+
+export function rowsOf(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data?.data)) return data.data;
+  if (Array.isArray(data?.data?.costs)) return data.data.costs;
+  if (Array.isArray(data?.data?.entries)) return data.data.entries;
+  return [];
+}
+
+/** Rows of every page of a paged Planday list (`path` already has a query). */
+export async function getAllPages(path: string) {
+  const rows: any[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = rowsOf(await plandayGet(`${path}&limit=${PAGE_SIZE}&offset=${offset}`));
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/** Best-effort id → name lookups; names are cosmetic, sync works without them. */
+export async function loadLookups(departmentId: number) {
+  const employees: Lookup = new Map();
+  const groups: Lookup = new Map();
+
+  try {
+    for (const e of rowsOf(await plandayGet(`/hr/v1.0/employees?departmentId=${departmentId}&limit=500`))) {
+      const name = [e?.firstName, e?.lastName].filter(Boolean).join(" ");
+      if (e?.id && name) employees.set(String(e.id), name);
+    }
+  } catch (err) {
+    console.warn("[Planday sync] employee names unavailable:", (err as Error).message);
+  }
+
+  try {
+    for (const g of rowsOf(await plandayGet(`/hr/v1.0/employeegroups`))) {
+      if (g?.id && g?.name) groups.set(String(g.id), String(g.name));
+    }
+  } catch (err) {
+    console.warn("[Planday sync] employee groups unavailable:", (err as Error).message);
+  }
+
+  return { employees, groups };
+}
+
+/**
+ * Syncs one department into a location for `from`..`to` (YYYY-MM-DD,
+ * inclusive). Re-running a range replaces the API rows of that range.
+ */
+export async function syncPlandayTimeAndCost(
+  locationId: string,
+  departmentId: number,
+  from: string,
+  to: string
+) {
+  const rawRows = await getAllPages(
+    `/timeandcost/v1.0/entries?departmentId=${departmentId}&from=${from}&to=${to}`
+  );
+  const { employees, groups } = await loadLookups(departmentId);
+
+  const shifts = rawRows
+    .map((r) => mapTimeAndCostEntry(r, employees, groups))
+    .filter((s): s is ParsedShift => !!s && s.date >= from && s.date <= to);
+
+  const payrollDays = new Set(
+    (
+      db
+        .prepare(
+          `SELECT DISTINCT date FROM labor_day_sources
+           WHERE location_id = ? AND source = 'payroll' AND date BETWEEN ? AND ?`
+        )
+        .all(locationId, from, to) as { date: string }[]
+    ).map((r) => r.date)
+  );
+
+  const serial = `${API_SOURCE}:${departmentId}`;
+
+  const stmtInsertEntry = db.prepare(`
+    INSERT INTO labor_entries
+      (employee, employee_number, employee_group, serial_number, shift_key,
+       date, time_from, time_to, hours, break_minutes, paid_hours,
+       amount, break_amount, hourly_rate, source, location_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '${API_SOURCE}', ?)
+    ON CONFLICT(location_id, serial_number, shift_key) DO NOTHING
+  `);
+
+  const stmtInsertSchedule = db.prepare(`
+    INSERT INTO labor_schedule
+      (employee, employee_number, employee_group, date, time_from, time_to,
+       source, department_id, location_id)
+    VALUES (?, ?, ?, ?, ?, ?, '${API_SOURCE}', ?, ?)
+  `);
+
+  let removed = 0;
+  let inserted = 0;
+  let duplicates = 0;
+  const skippedPayrollDays = new Set<string>();
+  const entriesByDate = new Map<string, number>();
+
+  db.transaction(() => {
+    removed = db
+      .prepare(
+        `DELETE FROM labor_entries
+         WHERE serial_number = ? AND location_id = ? AND date BETWEEN ? AND ?`
+      )
+      .run(serial, locationId, from, to).changes;
+
+    db.prepare(
+      `DELETE FROM labor_schedule
+       WHERE source = '${API_SOURCE}' AND department_id = ? AND location_id = ?
+         AND date BETWEEN ? AND ?`
+    ).run(departmentId, locationId, from, to);
+
+    clearDaySources(locationId, API_SOURCE, from, to, departmentId);
+
+    for (const s of shifts) {
+      if (payrollDays.has(s.date)) {
+        skippedPayrollDays.add(s.date);
+        continue;
+      }
+
+      const key = `${s.employeeNumber ?? s.employee} ${s.date} ${s.from}-${s.to}`;
+
+      const { changes } = stmtInsertEntry.run(
+        s.employee,
+        s.employeeNumber,
+        s.group,
+        serial,
+        key,
+        s.date,
+        s.from,
+        s.to,
+        s.grossHours,
+        s.breakMinutes,
+        s.paidHours,
+        s.amount,
+        s.breakAmount,
+        s.hourlyRate,
+        locationId
+      );
+
+      // The same employee and duty period again (Planday repeats entries
+      // across pages) or already stored: neither counted nor scheduled twice
+      if (changes === 0) {
+        duplicates++;
+        continue;
+      }
+      inserted++;
+
+      stmtInsertSchedule.run(
+        s.employee,
+        s.employeeNumber,
+        s.group,
+        s.date,
+        s.from,
+        s.to,
+        departmentId,
+        locationId
+      );
+
+      entriesByDate.set(s.date, (entriesByDate.get(s.date) ?? 0) + 1);
+    }
+
+    recordDaySources(locationId, API_SOURCE, departmentId, entriesByDate);
+    refreshEmployees();
+  })();
+
+  return {
+    locationId,
+    departmentId,
+    from,
+    to,
+    entriesReceived: rawRows.length,
+    unmapped: rawRows.length - shifts.length,
+    inserted,
+    duplicates,
+    removed,
+    skippedPayrollDays: [...skippedPayrollDays].sort(),
+    days: [...entriesByDate.keys()].sort(),
+  };
+}
@@ -0,0 +1,405 @@
+import { db } from "./db";
+import { listEmployees } from "./employees";
+import {
+  API_SOURCE,
+  getAllPages,
+  loadLookups,
+  minutesBetween,
+  splitLocal,
+} from "./plandaySync";
+import { UNGROUPED, upliftCost } from "./uplift";
+import { locationIn } from "../locations/locations";
+
+/**
+ * Planned (future) shifts and the labor cost they will cost.
+ *
+ * Shifts come from the Planday shift API or a schedule export and carry
+ * hours, not money, so each one is priced with the best known hourly rate:
+ * the rate on the shift itself, else the employee's latest paid rate,
+ * else the group's average rate, else the overall average
+ * (LABOR_DEFAULT_HOURLY_RATE when the location has no labor history).
+ * Rates are learned per location. The priced base cost then goes through
+ * the same uplift rules as actuals.
+ *
+ * A day of a location is planned by one source: the Planday shift API when
+ * it has shifts that day, else the schedule export. Both hold the same
+ * schedule when a location uses both, so adding them up would count it twice.
+ */
+
+export type PlannedSource = typeof API_SOURCE | "export";
+
+export type PlannedShift = {
+  externalId: string;
+  employee: string | null; // null = open shift
+  employeeNumber: string | null;
+  group: string | null;
+  date: string; // YYYY-MM-DD
+  from: string; // HH:MM
+  to: string; // HH:MM
+  grossHours: number;
+  breakMinutes: number;
+  paidHours: number;
+  hourlyRate: number | null;
+};
+
+/** One row of a schedule export (POST /api/labor/planned/import). */
+export type ScheduleExportRow = {
+  employee?: string | null;
+  employeeNumber?: string | number | null;
+  group?: string | null;
+  date: string;
+  from: string;
+  to: string;
+  breakMinutes?: number;
+  hourlyRate?: number | null;
+};
+
+/**
+ * WHERE condition keeping the planned shifts of `alias` that come from the
+ * source planning their location and day (see the file comment).
+ */
+export function plannedSourceOfDay(alias: string) {
+  return `(${alias}.source = '${API_SOURCE}' OR NOT EXISTS (
+    SELECT 1 FROM labor_planned_shifts api
+    WHERE api.location_id = ${alias}.location_id AND api.date = ${alias}.date
+      AND api.source = '${API_SOURCE}'
+  ))`;
+}
+
+function str(v: unknown): string | null {
+  return v === null || v === undefined || v === "" ? null : String(v);
+}
+
+function hoursOf(minutes: number) {
+  return Number((minutes / 60).toFixed(2));
+}
+
+/** "22:00" → "23:30" style clock range in minutes; wraps past midnight. */
+function clockMinutes(from: string, to: string) {
+  const [fh, fm] = from.split(":").map(Number);
+  const [th, tm] = to.split(":").map(Number);
+  const diff = th * 60 + tm - (fh * 60 + fm);
+  return diff < 0 ? diff + 24 * 60 : diff;
+}
+
+/* ================= PLANDAY SHIFTS ================= */
+
+/**
+ * Maps one Planday shift (`scheduling/v1.0/shifts`).
+ * Shifts without start/end (e.g. deleted placeholders) are dropped.
+ */
+export function mapPlandayShift(
+  raw: any,
+  employees: Map<string, string>,
+  groups: Map<string, string>
+): PlannedShift | null {
+  const start = str(raw?.startDateTime ?? raw?.start);
+  const end = str(raw?.endDateTime ?? raw?.end);
+  const id = str(raw?.id);
+  if (!start || !end || !id) return null;
+
+  const employeeNumber = str(raw?.employeeId);
+  const groupId = str(raw?.employeeGroupId);
+
+  const grossMinutes = minutesBetween(start, end);
+  const breakMinutes = Math.round(Number(raw?.breakDuration ?? raw?.breakMinutes) || 0);
+  const from = splitLocal(start);
+  const to = splitLocal(end);
+
+  return {
+    externalId: id,
+    employee: employeeNumber
+      ? employees.get(employeeNumber) ?? `Employee ${employeeNumber}`
+      : null,
+    employeeNumber,
+    group: groupId ? groups.get(groupId) ?? null : null,
+    date: from.date,
+    from: from.time,
+    to: to.time,
+    grossHours: hoursOf(grossMinutes),
+    breakMinutes,
+    paidHours: hoursOf(Math.max(0, grossMinutes - breakMinutes)),
+    hourlyRate: Number(raw?.hourlyRate ?? raw?.wage) || null,
+  };
+}
+
+export function mapScheduleExportRow(row: ScheduleExportRow): PlannedShift | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(row?.date ?? "")) return null;
+  if (!/^\d{2}:\d{2}$/.test(row?.from ?? "") || !/^\d{2}:\d{2}$/.test(row?.to ?? "")) {
+    return null;
+  }
+
+  const grossMinutes = clockMinutes(row.from, row.to);
+  const breakMinutes = Math.round(Number(row.breakMinutes) || 0);
+  const employeeNumber = str(row.employeeNumber);
+  const employee = str(row.employee);
+
+  return {
+    externalId: `${employeeNumber ?? employee ?? "open"} ${row.date} ${row.from}-${row.to}`,
+    employee,
+    employeeNumber,
+    group: str(row.group),
+    date: row.date,
+    from: row.from,
+    to: row.to,
+    grossHours: hoursOf(grossMinutes),
+    breakMinutes,
+    paidHours: hoursOf(Math.max(0, grossMinutes - breakMinutes)),
+    hourlyRate: Number(row.hourlyRate) || null,
+  };
+}
+
+/**
+ * Replaces the planned shifts of a location's `source`/`departmentId`
+ * between `from` and `to` (inclusive) with `shifts`.
+ */
+export function replacePlannedShifts(
+  locationId: string,
+  source: PlannedSource,
+  departmentId: number,
+  from: string,
+  to: string,
+  shifts: PlannedShift[]
+) {
+  const stmtInsert = db.prepare(`
+    INSERT INTO labor_planned_shifts
+      (location_id, source, department_id, external_id, employee, employee_number,
+       employee_group, date, time_from, time_to, hours, break_minutes,
+       paid_hours, hourly_rate, imported_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(location_id, source, department_id, external_id) DO NOTHING
+  `);
+
+  const now = new Date().toISOString();
+  let removed = 0;
+  let inserted = 0;
+
+  db.transaction(() => {
+    removed = db
+      .prepare(
+        `DELETE FROM labor_planned_shifts
+         WHERE location_id = ? AND source = ? AND department_id = ? AND date BETWEEN ? AND ?`
+      )
+      .run(locationId, source, departmentId, from, to).changes;
+
+    for (const s of shifts) {
+      if (s.date < from || s.date > to) continue;
+
+      inserted += stmtInsert.run(
+        locationId,
+        source,
+        departmentId,
+        s.externalId,
+        s.employee,
+        s.employeeNumber,
+        s.group,
+        s.date,
+        s.from,
+        s.to,
+        s.grossHours,
+        s.breakMinutes,
+        s.paidHours,
+        s.hourlyRate,
+        now
+      ).changes;
+    }
+  })();
+
+  return {
+    locationId,
+    source,
+    departmentId,
+    from,
+    to,
+    received: shifts.length,
+    inserted,
+    removed,
+  };
+}
+
+/**
+ * Pulls the Planday schedule of one department for `from`..`to`
+ * (YYYY-MM-DD, inclusive) into the location's labor_planned_shifts.
+ */
+export async function syncPlandayShifts(
+  locationId: string,
+  departmentId: number,
+  from: string,
+  to: string
+) {
+  const rawRows = await getAllPages(
+    `/scheduling/v1.0/shifts?departmentId=${departmentId}&from=${from}&to=${to}`
+  );
+
+  const { employees, groups } = await loadLookups(departmentId);
+  const shifts = rawRows
+    .map((r) => mapPlandayShift(r, employees, groups))
+    .filter((s): s is PlannedShift => !!s);
+
+  return {
+    ...replacePlannedShifts(locationId, API_SOURCE, departmentId, from, to, shifts),
+    unmapped: rawRows.length - shifts.length,
+  };
+}
+
+export function listPlannedShifts(from: string, to: string, locationIds: string[]) {
+  return db
+    .prepare(
+      `
+    SELECT location_id AS locationId,
+           source,
+           department_id AS departmentId,
+           employee,
+           employee_number AS employeeNumber,
+           employee_group AS "group",
+           date,
+           time_from AS "from",
+           time_to AS "to",
+           hours AS grossHours,
+           break_minutes AS breakMinutes,
+           paid_hours AS paidHours,
+           hourly_rate AS hourlyRate
+    FROM labor_planned_shifts
+    WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locationIds)}
+    ORDER BY date, time_from, employee
+  `
+    )
+    .all(from, to, ...locationIds);
+}
+
+/* ================= PRICING ================= */
+
+type RateSource = "shift" | "employee" | "group" | "average" | "default";
+
+/**
+ * Hourly rates learned from the labor history of a location: the current
+ * rate of its employees (see employees.ts), else gross amount / gross hours
+ * per group and overall.
+ */
+function loadRates(locationId: string) {
+  const byEmployee = new Map<string, number>();
+  for (const e of listEmployees([locationId])) {
+    if (e.hourlyRate) byEmployee.set(e.employeeNumber, e.hourlyRate);
+  }
+
+  const byGroup = new Map<string, number>();
+  const grouped = db
+    .prepare(
+      `
+    SELECT employee_group AS grp, SUM(amount) / SUM(hours) AS rate
+    FROM labor_entries
+    WHERE location_id = ? AND employee_group IS NOT NULL AND hours > 0 AND amount > 0
+    GROUP BY employee_group
+  `
+    )
+    .all(locationId) as { grp: string; rate: number }[];
+
+  for (const r of grouped) byGroup.set(r.grp, r.rate);
+
+  const overall = db
+    .prepare(
+      `SELECT SUM(amount) / SUM(hours) AS rate
+       FROM labor_entries WHERE location_id = ? AND hours > 0 AND amount > 0`
+    )
+    .get(locationId) as { rate: number | null };
+
+  const fallback = overall.rate || Number(process.env.LABOR_DEFAULT_HOURLY_RATE) || 0;
+
+  return (s: {
+    employeeNumber: string | null;
+    group: string | null;
+    hourlyRate: number | null;
+  }): { rate: number; source: RateSource } => {
+    if (s.hourlyRate) return { rate: s.hourlyRate, source: "shift" };
+    if (s.employeeNumber && byEmployee.has(s.employeeNumber)) {
+      return { rate: byEmployee.get(s.employeeNumber), source: "employee" };
+    }
+    if (s.group && byGroup.has(s.group)) {
+      return { rate: byGroup.get(s.group), source: "group" };
+    }
+    return { rate: fallback, source: overall.rate ? "average" : "default" };
+  };
+}
+
+/**
+ * Priced planned shifts of the locations between `from` and `to`, one
+ * source per day, leaving out days of a location that already have actual
+ * labor there. Totals
+ * mirror the actual labor summaries: uplifted cost, paid hours and shifts,
+ * overall and per group.
+ */
+export function scheduledTotals(
+  from: string,
+  to: string,
+  locationIds: string[],
+  group?: string
+) {
+  const rates = new Map(locationIds.map((id) => [id, loadRates(id)]));
+
+  const shifts = (
+    db
+      .prepare(
+        `
+    SELECT location_id AS locationId,
+           date,
+           employee_number AS employeeNumber,
+           employee_group AS employeeGroup,
+           COALESCE(employee_group, '${UNGROUPED}') AS grp,
+           paid_hours AS paidHours,
+           hourly_rate AS hourlyRate
+    FROM labor_planned_shifts p
+    WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locationIds)}
+      AND ${plannedSourceOfDay("p")}
+      AND NOT EXISTS (
+        SELECT 1 FROM labor_entries e
+        WHERE e.location_id = p.location_id AND e.date = p.date
+      )
+  `
+      )
+      .all(from, to, ...locationIds) as {
+      locationId: string;
+      date: string;
+      employeeNumber: string | null;
+      employeeGroup: string | null;
+      grp: string;
+      paidHours: number;
+      hourlyRate: number | null;
+    }[]
+  ).filter((s) => !group || s.grp === group);
+
+  const rateSources: Record<RateSource, number> = {
+    shift: 0,
+    employee: 0,
+    group: 0,
+    average: 0,
+    default: 0,
+  };
+
+  const priced = shifts.map((s) => {
+    const { rate, source } = rates.get(s.locationId)({
+      employeeNumber: s.employeeNumber,
+      group: s.employeeGroup,
+      hourlyRate: s.hourlyRate,
+    });
+    rateSources[source]++;
+    return { ...s, baseCost: s.paidHours * rate };
+  });
+
+  const totals = (rows: typeof priced) => ({
+    ...upliftCost(
+      rows.map((r) => ({ date: r.date, group: r.employeeGroup, baseCost: r.baseCost }))
+    ),
+    hours: Number(rows.reduce((sum, r) => sum + r.paidHours, 0).toFixed(2)),
+    shifts: rows.length,
+  });
+
+  return {
+    ...totals(priced),
+    days: [...new Set(priced.map((s) => s.date))].sort(),
+    rateSources,
+    groups: [...new Set(priced.map((s) => s.grp))].sort().map((grp) => ({
+      group: grp,
+      ...totals(priced.filter((s) => s.grp === grp)),
+    })),
+  };
+}
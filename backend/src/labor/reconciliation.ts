@@ -0,0 +1,180 @@
+import { db } from "./db";
+import { ParsedPayLine, ParsedPayroll, ParsedShift, UnparsedRow } from "./parsePlandayHtml";
+import { round } from "../utils/number";
+
+/**
+ * Payroll reconciliation: the parsed shifts summed up again and compared
+ * with the figures Planday printed on the same report, so a parsing
+ * regression (a skipped row, a misread number) shows up at import time.
+ *
+ * Per payslip: each employee group line, the "Paid hours" / "Break" subtotals,
+ * other subtotals against the pay lines with that text (e.g. "Månedlig løn")
+ * and the total with its shift count. Per report: the employee group table
+ * on the first page, where pay lines are listed under their text.
+ */
+
+export type ReconciliationCheck = {
+  scope: "payslip" | "report";
+  employee: string | null;
+  serialNumber: string | null;
+  item: string; // e.g. "Kitchen amount", "Paid hours subtotal", "Total shifts"
+  printed: number;
+  parsed: number;
+  diff: number;
+};
+
+export type ReconciliationReport = {
+  status: "ok" | "mismatch" | "unchecked";
+  checks: number;
+  mismatches: ReconciliationCheck[];
+  unparsed: UnparsedRow[];
+};
+
+// Printed figures are rounded to 2 decimals; parsed hours are summed from
+// per-shift values that were rounded too.
+const AMOUNT_TOLERANCE = 0.01;
+const HOURS_TOLERANCE = 0.05;
+
+function sumOf(shifts: ParsedShift[], pick: (s: ParsedShift) => number) {
+  return round(shifts.reduce((s, x) => s + pick(x), 0));
+}
+
+const paidAmount = (s: ParsedShift) => s.amount + s.breakAmount;
+
+function sumLines(lines: ParsedPayLine[]) {
+  return round(lines.reduce((s, l) => s + l.amount, 0));
+}
+
+export function reconcilePayroll(payroll: ParsedPayroll): ReconciliationReport {
+  if (!payroll.printed) {
+    return { status: "unchecked", checks: 0, mismatches: [], unparsed: [] };
+  }
+
+  let checks = 0;
+  const mismatches: ReconciliationCheck[] = [];
+
+  const check = (
+    base: Pick<ReconciliationCheck, "scope" | "employee" | "serialNumber">,
+    item: string,
+    printed: number,
+    parsed: number,
+    tolerance: number
+  ) => {
+    checks++;
+    const diff = round(parsed - printed);
+    if (Math.abs(diff) > tolerance) mismatches.push({ ...base, item, printed, parsed, diff });
+  };
+
+  /* ---- per payslip ---- */
+  for (const slip of payroll.printed.payslips) {
+    const base = {
+      scope: "payslip" as const,
+      employee: slip.employee,
+      serialNumber: slip.serialNumber,
+    };
+    const shifts = payroll.shifts.filter((s) => s.serialNumber === slip.serialNumber);
+    const lines = (payroll.payLines ?? []).filter((l) => l.serialNumber === slip.serialNumber);
+
+    for (const g of slip.groups) {
+      const inGroup = shifts.filter((s) => (s.group ?? "") === g.group);
+      check(base, `${g.group} hours`, g.paidHours, sumOf(inGroup, (s) => s.paidHours), HOURS_TOLERANCE);
+      check(base, `${g.group} amount`, g.amount, sumOf(inGroup, paidAmount), AMOUNT_TOLERANCE);
+    }
+
+    for (const sub of slip.subtotals) {
+      if (sub.label === "Paid hours") {
+        if (sub.hours !== null) {
+          check(base, "Paid hours subtotal hours", sub.hours, sumOf(shifts, (s) => s.paidHours), HOURS_TOLERANCE);
+        }
+        check(base, "Paid hours subtotal amount", sub.amount, sumOf(shifts, (s) => s.amount), AMOUNT_TOLERANCE);
+      } else if (sub.label === "Break") {
+        if (sub.hours !== null) {
+          check(base, "Break subtotal hours", sub.hours, sumOf(shifts, (s) => s.breakMinutes / 60), HOURS_TOLERANCE);
+        }
+        check(base, "Break subtotal amount", sub.amount, sumOf(shifts, (s) => s.breakAmount), AMOUNT_TOLERANCE);
+      } else {
+        const matching = lines.filter((l) => l.text === sub.label);
+        check(base, `${sub.label} subtotal amount`, sub.amount, sumLines(matching), AMOUNT_TOLERANCE);
+      }
+    }
+
+    if (slip.total) {
+      if (slip.total.shifts !== null) {
+        check(base, "Total shifts", slip.total.shifts, shifts.length, 0);
+      }
+      if (slip.total.hours !== null) {
+        check(base, "Total hours", slip.total.hours, sumOf(shifts, (s) => s.paidHours), HOURS_TOLERANCE);
+      }
+      check(
+        base,
+        "Total amount",
+        slip.total.amount,
+        round(sumOf(shifts, paidAmount) + sumLines(lines)),
+        AMOUNT_TOLERANCE
+      );
+    }
+  }
+
+  /* ---- report header (all payslips) ---- */
+  const report = { scope: "report" as const, employee: null, serialNumber: null };
+  const headerLines = [...payroll.printed.groups];
+  if (payroll.printed.total) headerLines.push(payroll.printed.total);
+
+  const allLines = payroll.payLines ?? [];
+
+  for (const line of headerLines) {
+    const isTotal = line === payroll.printed.total;
+    const shifts = isTotal
+      ? payroll.shifts
+      : payroll.shifts.filter((s) => (s.group ?? "") === line.group);
+    const payLines = isTotal ? allLines : allLines.filter((l) => l.text === line.group);
+
+    check(report, `${line.group} gross hours`, line.grossHours, sumOf(shifts, (s) => s.grossHours), HOURS_TOLERANCE);
+    check(report, `${line.group} hours`, line.paidHours, sumOf(shifts, (s) => s.paidHours), HOURS_TOLERANCE);
+    check(report, `${line.group} payroll`, line.payroll, round(sumOf(shifts, (s) => s.amount) + sumLines(payLines)), AMOUNT_TOLERANCE);
+    check(report, `${line.group} break`, line.breakAmount, sumOf(shifts, (s) => s.breakAmount), AMOUNT_TOLERANCE);
+    check(report, `${line.group} total`, line.total, round(sumOf(shifts, paidAmount) + sumLines(payLines)), AMOUNT_TOLERANCE);
+  }
+
+  const unparsed = payroll.unparsed ?? [];
+
+  return {
+    status: mismatches.length > 0 || unparsed.length > 0 ? "mismatch" : "ok",
+    checks,
+    mismatches,
+    unparsed,
+  };
+}
+
+export function saveReconciliation(batchId: number, report: ReconciliationReport) {
+  db.prepare(
+    `
+    INSERT INTO labor_reconciliation_reports
+      (batch_id, created_at, status, checks, mismatches, unparsed, report)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(batch_id) DO UPDATE SET
+      created_at = excluded.created_at,
+      status = excluded.status,
+      checks = excluded.checks,
+      mismatches = excluded.mismatches,
+      unparsed = excluded.unparsed,
+      report = excluded.report
+  `
+  ).run(
+    batchId,
+    new Date().toISOString(),
+    report.status,
+    report.checks,
+    report.mismatches.length,
+    report.unparsed.length,
+    JSON.stringify(report)
+  );
+}
+
+export function getReconciliation(batchId: number): ReconciliationReport | null {
+  const row = db
+    .prepare(`SELECT report FROM labor_reconciliation_reports WHERE batch_id = ?`)
+    .get(batchId) as { report: string } | undefined;
+
+  return row ? JSON.parse(row.report) : null;
+}
@@ -0,0 +1,143 @@
+import { db } from "./db";
+
+/**
+ * Labor cost uplift on top of the payslip base cost
+ * (holiday pay / feriepenge, pension, ATP, social costs …).
+ *
+ * Rules are data with an effective-from date, so a rate change mid-year
+ * leaves earlier periods computed with the old rate. A rule with an
+ * employee group overrides the general rule of the same component.
+ */
+export type UpliftRule = {
+  id: number;
+  component: string;
+  pct: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  employeeGroup: string | null;
+};
+
+export type UpliftComponent = {
+  component: string;
+  amount: number;
+};
+
+export type CostRow = {
+  date: string; // YYYY-MM-DD
+  group: string | null;
+  baseCost: number;
+};
+
+type UpliftRuleRow = {
+  id: number;
+  component: string;
+  pct: number;
+  effective_from: string;
+  employee_group: string | null;
+};
+
+/** Group of shifts and pay lines without an employee group. */
+export const UNGROUPED = "Ungrouped";
+
+function toRule(row: UpliftRuleRow): UpliftRule {
+  return {
+    id: row.id,
+    component: row.component,
+    pct: row.pct,
+    effectiveFrom: row.effective_from,
+    employeeGroup: row.employee_group,
+  };
+}
+
+export function listUpliftRules(): UpliftRule[] {
+  return (
+    db
+      .prepare(
+        `SELECT * FROM labor_uplift_rules ORDER BY component, effective_from, employee_group`
+      )
+      .all() as UpliftRuleRow[]
+  ).map(toRule);
+}
+
+export function addUpliftRule(input: Omit<UpliftRule, "id">): UpliftRule {
+  const info = db
+    .prepare(
+      `
+    INSERT INTO labor_uplift_rules (component, pct, effective_from, employee_group)
+    VALUES (?, ?, ?, ?)
+  `
+    )
+    .run(input.component, input.pct, input.effectiveFrom, input.employeeGroup);
+
+  return { id: Number(info.lastInsertRowid), ...input };
+}
+
+export function deleteUpliftRule(id: number): boolean {
+  return (
+    db.prepare(`DELETE FROM labor_uplift_rules WHERE id = ?`).run(id).changes > 0
+  );
+}
+
+/**
+ * Rates in force on `date` for `group`: per component, the group rule with the
+ * latest effective date if there is one, otherwise the latest general rule.
+ */
+function ratesOn(rules: UpliftRule[], date: string, group: string | null) {
+  const best = new Map<string, UpliftRule>();
+
+  for (const r of rules) {
+    if (r.effectiveFrom > date) continue;
+    if (r.employeeGroup !== null && r.employeeGroup !== group) continue;
+
+    const current = best.get(r.component);
+    const moreSpecific = r.employeeGroup !== null && current?.employeeGroup === null;
+    const sameLevel = (r.employeeGroup === null) === (current?.employeeGroup === null);
+
+    if (
+      !current ||
+      moreSpecific ||
+      (sameLevel && r.effectiveFrom >= current.effectiveFrom)
+    ) {
+      best.set(r.component, r);
+    }
+  }
+
+  return [...best.values()];
+}
+
+/**
+ * Base cost + uplift components for a set of cost rows, each row
+ * uplifted with the rates in force on its own date.
+ */
+export function upliftCost(rows: CostRow[]) {
+  const rules = listUpliftRules();
+  const components = new Map<string, number>();
+  let baseCost = 0;
+
+  for (const row of rows) {
+    baseCost += row.baseCost;
+
+    for (const rate of ratesOn(rules, row.date, row.group)) {
+      components.set(
+        rate.component,
+        (components.get(rate.component) ?? 0) + (row.baseCost * rate.pct) / 100
+      );
+    }
+  }
+
+  const uplift: UpliftComponent[] = [...components.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([component, amount]) => ({
+      component,
+      amount: Number(amount.toFixed(2)),
+    }));
+
+  const upliftTotal = uplift.reduce((s, c) => s + c.amount, 0);
+
+  return {
+    baseCost: Number(baseCost.toFixed(2)),
+    uplift,
+    upliftPct:
+      baseCost > 0 ? Number(((upliftTotal / baseCost) * 100).toFixed(2)) : 0,
+    laborCost: Number((baseCost + upliftTotal).toFixed(2)),
+  };
+}
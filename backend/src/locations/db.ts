@@ -0,0 +1,62 @@
+import { db, ensureColumn, hasColumn, tableColumns } from "../db/sqlite";
+
+export { db };
+
+// Locations, each with its own POS firmaid and Planday department (see
+// locations.ts). Labor, POS and Wolt rows belong to one location.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS locations (
+    id TEXT PRIMARY KEY,               -- slug used as ?location=
+    name TEXT NOT NULL,
+    pos_firmaid INTEGER,
+    planday_department_id INTEGER,
+    created_at TEXT NOT NULL
+  );
+`);
+
+const locationCount = db.prepare(`SELECT COUNT(*) AS c FROM locations`).get() as { c: number };
+
+if (locationCount.c === 0) {
+  // The single store that used to be configured through env
+  const envId = (name: string) => {
+    const n = Number(process.env[name]);
+    return Number.isInteger(n) && n > 0 ? n : null;
+  };
+
+  db.prepare(
+    `INSERT INTO locations (id, name, pos_firmaid, planday_department_id, created_at)
+     VALUES ('aarhus', 'Aarhus (Gaia)', ?, ?, ?)`
+  ).run(envId("POS_FIRMAID"), envId("PLANDAY_DEPARTMENT_ID"), new Date().toISOString());
+}
+
+// Rows from before locations belong to the first location
+const legacyLocation = (
+  db.prepare(`SELECT id FROM locations ORDER BY created_at, id LIMIT 1`).get() as { id: string }
+).id;
+
+/** Adds a location_id column to `table`, its existing rows going to the legacy location. */
+export function addLocationColumn(table: string) {
+  if (ensureColumn(table, "location_id", "TEXT")) {
+    db.prepare(`UPDATE ${table} SET location_id = ?`).run(legacyLocation);
+  }
+}
+
+/**
+ * Recreates `table` from `createSql` when it has no location_id column yet,
+ * copying the rows to the legacy location. For tables whose key gains the
+ * location, which ALTER TABLE cannot change.
+ */
+export function rebuildWithLocation(table: string, createSql: string) {
+  if (hasColumn(table, "location_id")) return;
+
+  const columns = tableColumns(table).join(", ");
+
+  db.transaction(() => {
+    db.exec(`ALTER TABLE ${table} RENAME TO ${table}_old`);
+    db.exec(createSql);
+    db.prepare(
+      `INSERT INTO ${table} (location_id, ${columns}) SELECT ?, ${columns} FROM ${table}_old`
+    ).run(legacyLocation);
+    db.exec(`DROP TABLE ${table}_old`);
+  })();
+}
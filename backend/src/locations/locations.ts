@@ -0,0 +1,132 @@
+import { db } from "./db";
+import { hasDailyInputs } from "../db/supabaseDb";
+
+/**
+ * Locations (stores) as data: each has its own POS firmaid and Planday
+ * department, and labor, POS imports and daily inputs are kept per location
+ * (location_id columns, see the db.ts of each area).
+ *
+ * Routes take `?location=<id>`; "all" is every location together and a
+ * missing param is the default location (the first one created, seeded
+ * from POS_FIRMAID / PLANDAY_DEPARTMENT_ID).
+ */
+
+export type Location = {
+  id: string; // slug, e.g. "aarhus"
+  name: string;
+  posFirmaId: number | null;
+  plandayDepartmentId: number | null;
+  createdAt: string;
+};
+
+export const ALL_LOCATIONS = "all";
+
+const LOCATION_COLUMNS = `
+  id, name, pos_firmaid AS posFirmaId,
+  planday_department_id AS plandayDepartmentId, created_at AS createdAt
+`;
+
+export function listLocations(): Location[] {
+  return db
+    .prepare(`SELECT ${LOCATION_COLUMNS} FROM locations ORDER BY created_at, id`)
+    .all() as Location[];
+}
+
+export function getLocation(id: string): Location | null {
+  return (
+    (db.prepare(`SELECT ${LOCATION_COLUMNS} FROM locations WHERE id = ?`).get(id) as
+      | Location
+      | undefined) ?? null
+  );
+}
+
+export function defaultLocation(): Location {
+  return listLocations()[0];
+}
+
+/**
+ * Locations named by a `location` query param: one id, "all", or the
+ * default location when missing. An error (for a 400) for an unknown id,
+ * or for "all" unless `allowAll` (writes and single-store calls).
+ */
+export function locationsParam(
+  param: unknown,
+  opts: { allowAll?: boolean } = {}
+): { locations: Location[]; all: boolean } | { error: string } {
+  const id = typeof param === "string" ? param.trim() : "";
+  if (!id) return { locations: [defaultLocation()], all: false };
+
+  if (id === ALL_LOCATIONS) {
+    if (!opts.allowAll) return { error: "location must be a single location, not all" };
+    return { locations: listLocations(), all: true };
+  }
+
+  const location = getLocation(id);
+  return location ? { locations: [location], all: false } : { error: `Unknown location "${id}"` };
+}
+
+/** The location's POS firmaid; throws when it has none. */
+export function requirePosFirmaId(location: Location): number {
+  if (!location.posFirmaId) throw new Error(`Location "${location.id}" has no POS firmaid`);
+  return location.posFirmaId;
+}
+
+/** `column IN (?, …)` for the given location ids; pass the ids as params. */
+export function locationIn(column: string, ids: string[]) {
+  return `${column} IN (${ids.map(() => "?").join(", ")})`;
+}
+
+/** Creates or updates a location. */
+export function saveLocation(input: Omit<Location, "createdAt">): Location {
+  db.prepare(
+    `
+    INSERT INTO locations (id, name, pos_firmaid, planday_department_id, created_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      pos_firmaid = excluded.pos_firmaid,
+      planday_department_id = excluded.planday_department_id
+  `
+  ).run(
+    input.id,
+    input.name,
+    input.posFirmaId,
+    input.plandayDepartmentId,
+    new Date().toISOString()
+  );
+
+  return getLocation(input.id);
+}
+
+/** Every table with a location_id column, so tables added later are covered too. */
+function locationTables() {
+  return (
+    db
+      .prepare(
+        `SELECT m.name FROM sqlite_master m, pragma_table_info(m.name) c
+         WHERE m.type = 'table' AND c.name = 'location_id'
+         ORDER BY m.name`
+      )
+      .all() as { name: string }[]
+  ).map((t) => t.name);
+}
+
+/**
+ * Deletes a location that has no rows in any location table here nor
+ * daily_inputs in Supabase.
+ * "in_use" when rows still point at it, "last" for the only location.
+ */
+export async function deleteLocation(
+  id: string
+): Promise<"deleted" | "not_found" | "in_use" | "last"> {
+  if (!getLocation(id)) return "not_found";
+  if (listLocations().length === 1) return "last";
+
+  const inUse = locationTables().some(
+    (table) => db.prepare(`SELECT 1 FROM ${table} WHERE location_id = ? LIMIT 1`).get(id) !== undefined
+  );
+  if (inUse || (await hasDailyInputs(id))) return "in_use";
+
+  db.prepare(`DELETE FROM locations WHERE id = ?`).run(id);
+  return "deleted";
+}
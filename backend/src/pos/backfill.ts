@@ -0,0 +1,313 @@
+import { db } from "./db";
+import { Location, getLocation } from "../locations/locations";
+import { addDays } from "../utils/businessCalendar";
+import { finalizedPosDays, importPosDay } from "./posImport";
+import { finalProductSalesDays, importProductSales } from "./productSales";
+import { cachedTransactionDays, importTransactionDay } from "./transactions";
+
+/**
+ * Historical POS backfill as a background job.
+ *
+ * A job is a date range of one location and a kind: "revenue" imports
+ * daily_inputs.totalRevenue (pos/posImport.ts), "transactions" fills the
+ * BackOffice transaction cache (pos/transactions.ts) and "product_sales"
+ * the item sales of the sales mix (pos/productSales.ts). Every day in it
+ * gets a pos_backfill_days row, so progress and failures survive
+ * restarts. Days already imported for good (a final import, a cached
+ * transaction count) are skipped unless the job is forced. Days are
+ * imported one at a time with POS_BACKFILL_DELAY_MS (default 1000)
+ * between them, on top of the POS client's own retries and concurrency
+ * limit. Failed days can be retried, which puts the job back in the
+ * queue. Jobs run one after another.
+ */
+
+export type BackfillJobStatus = "queued" | "running" | "completed" | "completed_with_errors";
+export type BackfillDayStatus = "pending" | "imported" | "skipped" | "failed";
+export type BackfillKind = "revenue" | "transactions" | "product_sales";
+
+export const MAX_BACKFILL_DAYS = 3700;
+
+type JobRow = {
+  id: number;
+  locationId: string;
+  kind: BackfillKind;
+  from: string;
+  to: string;
+  force: number;
+  status: BackfillJobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+const JOB_COLUMNS = `
+  id, location_id AS locationId, kind, date_from AS "from", date_to AS "to", force, status,
+  created_at AS createdAt, started_at AS startedAt, finished_at AS finishedAt
+`;
+
+function delayMs() {
+  const n = Number(process.env.POS_BACKFILL_DELAY_MS);
+  return process.env.POS_BACKFILL_DELAY_MS && Number.isFinite(n) ? Math.max(0, n) : 1000;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function datesBetween(from: string, to: string) {
+  const dates: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) dates.push(d);
+  return dates;
+}
+
+/* ================= KINDS ================= */
+
+type DayImporter = {
+  /** Days imported for good, skipped unless the job is forced. */
+  done: (locationId: string, from: string, to: string) => Set<string>;
+  /** Sets up a job's import; the function imports one day and returns its revenue. */
+  start: (location: Location) => Promise<(date: string) => Promise<number>>;
+};
+
+const IMPORTERS: Record<BackfillKind, DayImporter> = {
+  revenue: {
+    done: finalizedPosDays,
+    start: async (location) => async (date) => (await importPosDay(location, date)).pos.revenue,
+  },
+  transactions: {
+    done: cachedTransactionDays,
+    start: async (location) => async (date) => (await importTransactionDay(location, date)).revenue,
+  },
+  product_sales: {
+    done: finalProductSalesDays,
+    start: async (location) => async (date) => (await importProductSales(location, date)).revenue,
+  },
+};
+
+export const BACKFILL_KINDS = Object.keys(IMPORTERS) as BackfillKind[];
+
+/* ================= JOBS ================= */
+
+export function createBackfillJob(
+  locationId: string,
+  from: string,
+  to: string,
+  force: boolean,
+  kind: BackfillKind = "revenue"
+) {
+  const now = new Date().toISOString();
+  const finalized = force ? new Set<string>() : IMPORTERS[kind].done(locationId, from, to);
+
+  const id = db.transaction(() => {
+    const jobId = Number(
+      db
+        .prepare(
+          `INSERT INTO pos_backfill_jobs (location_id, kind, date_from, date_to, force, status, created_at)
+           VALUES (?, ?, ?, ?, ?, 'queued', ?)`
+        )
+        .run(locationId, kind, from, to, force ? 1 : 0, now).lastInsertRowid
+    );
+
+    const stmtDay = db.prepare(
+      `INSERT INTO pos_backfill_days (job_id, date, status, updated_at) VALUES (?, ?, ?, ?)`
+    );
+    for (const date of datesBetween(from, to)) {
+      stmtDay.run(jobId, date, finalized.has(date) ? "skipped" : "pending", now);
+    }
+
+    return jobId;
+  })();
+
+  startBackfillRunner();
+  return getBackfillJob(id);
+}
+
+/** Job with its progress and failed days. */
+export function getBackfillJob(id: number) {
+  const job = db
+    .prepare(`SELECT ${JOB_COLUMNS} FROM pos_backfill_jobs WHERE id = ?`)
+    .get(id) as JobRow | undefined;
+  if (!job) return null;
+
+  const counts = db
+    .prepare(`SELECT status, COUNT(*) AS c FROM pos_backfill_days WHERE job_id = ? GROUP BY status`)
+    .all(id) as { status: BackfillDayStatus; c: number }[];
+
+  const progress: Record<BackfillDayStatus, number> & { total: number } = {
+    total: 0,
+    pending: 0,
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const c of counts) {
+    progress[c.status] = c.c;
+    progress.total += c.c;
+  }
+
+  const failures = db
+    .prepare(
+      `SELECT date, attempts, error, updated_at AS updatedAt
+       FROM pos_backfill_days WHERE job_id = ? AND status = 'failed' ORDER BY date`
+    )
+    .all(id);
+
+  return {
+    ...job,
+    force: job.force === 1,
+    progress: {
+      ...progress,
+      percent: progress.total
+        ? Math.round(((progress.total - progress.pending) / progress.total) * 100)
+        : 100,
+    },
+    failures,
+  };
+}
+
+export function listBackfillJobs() {
+  const ids = db
+    .prepare(`SELECT id FROM pos_backfill_jobs ORDER BY id DESC LIMIT 50`)
+    .all() as { id: number }[];
+
+  return ids.map((r) => getBackfillJob(r.id));
+}
+
+/** Puts the failed days of a job back to pending and requeues it. */
+export function retryBackfillJob(id: number) {
+  const job = getBackfillJob(id);
+  if (!job) return null;
+
+  const now = new Date().toISOString();
+  const retried = db.transaction(() => {
+    const changes = db
+      .prepare(
+        `UPDATE pos_backfill_days SET status = 'pending', error = NULL, updated_at = ?
+         WHERE job_id = ? AND status = 'failed'`
+      )
+      .run(now, id).changes;
+
+    if (changes > 0) {
+      db.prepare(
+        `UPDATE pos_backfill_jobs SET status = 'queued', finished_at = NULL WHERE id = ?`
+      ).run(id);
+    }
+    return changes;
+  })();
+
+  if (retried > 0) startBackfillRunner();
+  return { retried, job: getBackfillJob(id) };
+}
+
+/* ================= RUNNER ================= */
+
+let runner: Promise<void> | null = null;
+
+/** Starts working through queued jobs unless already doing so. */
+export function startBackfillRunner() {
+  if (!runner) {
+    runner = runQueue()
+      .catch((err) => console.error("POS backfill runner error:", err))
+      .finally(() => {
+        runner = null;
+      });
+  }
+}
+
+async function runQueue() {
+  for (;;) {
+    // "running" = interrupted by a restart; carry on where it stopped
+    const next = db
+      .prepare(
+        `SELECT id FROM pos_backfill_jobs
+         WHERE status IN ('running', 'queued')
+         ORDER BY CASE status WHEN 'running' THEN 0 ELSE 1 END, id
+         LIMIT 1`
+      )
+      .get() as { id: number } | undefined;
+
+    if (!next) return;
+    await runJob(next.id);
+  }
+}
+
+async function runJob(id: number) {
+  const job = db
+    .prepare(`SELECT ${JOB_COLUMNS} FROM pos_backfill_jobs WHERE id = ?`)
+    .get(id) as JobRow;
+
+  db.prepare(
+    `UPDATE pos_backfill_jobs SET status = 'running', started_at = COALESCE(started_at, ?)
+     WHERE id = ?`
+  ).run(new Date().toISOString(), id);
+
+  const pending = db
+    .prepare(
+      `SELECT date FROM pos_backfill_days WHERE job_id = ? AND status = 'pending' ORDER BY date`
+    )
+    .all(id) as { date: string }[];
+
+  const setDay = db.prepare(
+    `UPDATE pos_backfill_days
+     SET status = ?, attempts = attempts + 1, revenue = ?, error = ?, updated_at = ?
+     WHERE job_id = ? AND date = ?`
+  );
+
+  const importer = IMPORTERS[job.kind];
+
+  // Days finalized since the job was created (e.g. by a single-day import)
+  const finalized = job.force
+    ? new Set<string>()
+    : importer.done(job.locationId, job.from, job.to);
+
+  const location = getLocation(job.locationId);
+  let importDay: ((date: string) => Promise<number>) | null = null;
+  let loadError: string | null = location ? null : `Location "${job.locationId}" no longer exists`;
+  try {
+    if (location) importDay = await importer.start(location);
+  } catch (err: any) {
+    loadError = err?.message ?? String(err);
+  }
+
+  for (let i = 0; i < pending.length; i++) {
+    const { date } = pending[i];
+
+    if (finalized.has(date)) {
+      db.prepare(
+        `UPDATE pos_backfill_days SET status = 'skipped', updated_at = ? WHERE job_id = ? AND date = ?`
+      ).run(new Date().toISOString(), id, date);
+      continue;
+    }
+
+    if (loadError) {
+      setDay.run("failed", null, loadError, new Date().toISOString(), id, date);
+      continue;
+    }
+
+    try {
+      const revenue = await importDay(date);
+      setDay.run("imported", revenue, null, new Date().toISOString(), id, date);
+    } catch (err: any) {
+      setDay.run("failed", null, err?.message ?? String(err), new Date().toISOString(), id, date);
+    }
+
+    if (i < pending.length - 1) await sleep(delayMs());
+  }
+
+  const failed = db
+    .prepare(`SELECT COUNT(*) AS c FROM pos_backfill_days WHERE job_id = ? AND status = 'failed'`)
+    .get(id) as { c: number };
+
+  db.prepare(`UPDATE pos_backfill_jobs SET status = ?, finished_at = ? WHERE id = ?`).run(
+    failed.c > 0 ? "completed_with_errors" : "completed",
+    new Date().toISOString(),
+    id
+  );
+}
+
+/** Resumes jobs left queued or running by a restart; run once at startup. */
+export function resumeBackfillJobs() {
+  const unfinished = db
+    .prepare(`SELECT COUNT(*) AS c FROM pos_backfill_jobs WHERE status IN ('queued', 'running')`)
+    .get() as { c: number };
+
+  if (unfinished.c > 0) startBackfillRunner();
+}
@@ -0,0 +1,141 @@
+import { db, ensureColumn } from "../db/sqlite";
+import { addLocationColumn, rebuildWithLocation } from "../locations/db";
+
+export { db };
+
+// POS revenue imported into daily_inputs, one row per business day (see posImport.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS pos_import_days (
+    date TEXT PRIMARY KEY,
+    revenue REAL NOT NULL,
+    entries INTEGER NOT NULL,
+    imported_at TEXT NOT NULL,
+    final INTEGER NOT NULL DEFAULT 0   -- 1 = imported after the business day ended
+  );
+
+  CREATE TABLE IF NOT EXISTS pos_backfill_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date_from TEXT NOT NULL,
+    date_to TEXT NOT NULL,
+    force INTEGER NOT NULL DEFAULT 0,  -- 1 = re-import finalized days too
+    status TEXT NOT NULL,              -- queued | running | completed | completed_with_errors
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    finished_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS pos_backfill_days (
+    job_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    status TEXT NOT NULL,              -- pending | imported | skipped | failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    revenue REAL,
+    error TEXT,
+    updated_at TEXT,
+    PRIMARY KEY (job_id, date)
+  );
+`);
+
+// POS BackOffice browser session (see integrations/posBackOffice.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS pos_bo_session (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    cookie TEXT,                       -- Cookie header for the BackOffice API
+    xsrf TEXT,
+    expires_at TEXT,                   -- earliest cookie expiry, null = browser session
+    obtained_at TEXT,
+    last_check_at TEXT,
+    last_check_status INTEGER,         -- HTTP status of the last BackOffice call
+    last_error TEXT,
+    updated_at TEXT NOT NULL
+  );
+`);
+
+// Hourly POS sales of finished business days (see hourlySales.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS pos_hourly_sales (
+    date TEXT NOT NULL,                -- business day
+    hour INTEGER NOT NULL,             -- 0 = the hour starting at the cutoff
+    cutoff TEXT NOT NULL,              -- day cutoff the hours were cut at, "HH:MM"
+    start TEXT NOT NULL,               -- local wall clock, "YYYY-MM-DD HH:MM"
+    revenue REAL NOT NULL,
+    covers REAL NOT NULL,
+    cached_at TEXT NOT NULL,
+    PRIMARY KEY (date, hour)
+  );
+`);
+
+// Per location (see locations/locations.ts)
+addLocationColumn("pos_backfill_jobs");
+
+rebuildWithLocation(
+  "pos_import_days",
+  `
+  CREATE TABLE pos_import_days (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    revenue REAL NOT NULL,
+    entries INTEGER NOT NULL,
+    imported_at TEXT NOT NULL,
+    final INTEGER NOT NULL DEFAULT 0,  -- 1 = imported after the business day ended
+    PRIMARY KEY (location_id, date)
+  );
+`
+);
+
+rebuildWithLocation(
+  "pos_hourly_sales",
+  `
+  CREATE TABLE pos_hourly_sales (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,                -- business day
+    hour INTEGER NOT NULL,             -- 0 = the hour starting at the cutoff
+    cutoff TEXT NOT NULL,              -- day cutoff the hours were cut at, "HH:MM"
+    start TEXT NOT NULL,               -- local wall clock, "YYYY-MM-DD HH:MM"
+    revenue REAL NOT NULL,
+    covers REAL NOT NULL,
+    cached_at TEXT NOT NULL,
+    PRIMARY KEY (location_id, date, hour)
+  );
+`
+);
+
+// BackOffice transaction counts of finished business days (see transactions.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS pos_daily_transactions (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,                -- business day
+    transactions INTEGER NOT NULL,
+    revenue REAL NOT NULL,             -- BackOffice revenue, for comparison
+    cached_at TEXT NOT NULL,
+    PRIMARY KEY (location_id, date)
+  );
+`);
+
+// What a backfill job imports: revenue (daily_inputs), transactions or product_sales
+ensureColumn("pos_backfill_jobs", "kind", "TEXT NOT NULL DEFAULT 'revenue'");
+
+// POS product (item) sales per business day (see productSales.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS pos_product_sales (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,                -- business day
+    product_id TEXT NOT NULL,          -- POS product id (the name when missing)
+    product_name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    revenue REAL NOT NULL,
+    PRIMARY KEY (location_id, date, product_id)
+  );
+
+  -- Days imported, with or without sales
+  CREATE TABLE IF NOT EXISTS pos_product_sales_days (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    products INTEGER NOT NULL,
+    revenue REAL NOT NULL,
+    imported_at TEXT NOT NULL,
+    final INTEGER NOT NULL DEFAULT 0,  -- 1 = imported after the business day ended
+    PRIMARY KEY (location_id, date)
+  );
+`);
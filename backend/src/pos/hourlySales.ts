@@ -0,0 +1,175 @@
+import { db } from "./db";
+import { getRevenueByUnixRange } from "../integrations/posOnline";
+import { Location, requirePosFirmaId } from "../locations/locations";
+import {
+  addDays,
+  businessDayCutoff,
+  businessDayRangeUnix,
+  formatLocal,
+} from "../utils/businessCalendar";
+import { round } from "../utils/number";
+
+/**
+ * POS sales per hour of a location's business day: one getByUnixTimeSales
+ * query per hour from the day cutoff, so 23 or 25 hours on DST days.
+ *
+ * The unix-range response carries amount and pax per POS user, so hours
+ * have revenue and covers (guests), not transactions: receipts are only
+ * counted per day (BackOffice getBasicSales). Results say so in
+ * `transactions: null` and `transactionsUnavailable` rather than passing
+ * covers off as transactions. Hours of a day in progress stop at now.
+ * Finished days are cached in pos_hourly_sales, keyed by the cutoff they
+ * were cut at, so changing BUSINESS_DAY_CUTOFF refetches them.
+ */
+
+export type SalesHour = {
+  hour: number; // 0 = the hour starting at the cutoff
+  start: string; // "YYYY-MM-DD HH:MM", Copenhagen
+  end: string;
+  revenue: number;
+  covers: number;
+};
+
+export const MAX_HOURLY_RANGE_DAYS = 31;
+
+export const HOURLY_TRANSACTIONS_UNAVAILABLE =
+  "POS Online reports revenue and covers per time range but no transaction count; " +
+  "transactions are only available per business day (BackOffice getBasicSales)";
+
+const HOUR_SECONDS = 60 * 60;
+
+function cutoffLabel() {
+  const m = businessDayCutoff();
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+function loadCached(locationId: string, date: string, cutoff: string): SalesHour[] | null {
+  const rows = db
+    .prepare(
+      `SELECT hour, start, revenue, covers FROM pos_hourly_sales
+       WHERE location_id = ? AND date = ? AND cutoff = ? ORDER BY hour`
+    )
+    .all(locationId, date, cutoff) as Omit<SalesHour, "end">[];
+
+  if (rows.length === 0) return null;
+
+  return rows.map((r, i) => ({
+    ...r,
+    end: rows[i + 1]?.start ?? `${addDays(date, 1)} ${cutoff}`,
+  }));
+}
+
+function saveCached(locationId: string, date: string, cutoff: string, hours: SalesHour[]) {
+  const stmt = db.prepare(`
+    INSERT INTO pos_hourly_sales
+      (location_id, date, hour, cutoff, start, revenue, covers, cached_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM pos_hourly_sales WHERE location_id = ? AND date = ?`).run(
+      locationId,
+      date
+    );
+    for (const h of hours) {
+      stmt.run(locationId, date, h.hour, cutoff, h.start, h.revenue, h.covers, now);
+    }
+  })();
+}
+
+/** Revenue and covers per hour of the location's business day `date`. */
+export async function hourlySales(location: Location, date: string) {
+  const firmaId = requirePosFirmaId(location);
+  const cutoff = cutoffLabel();
+  const { fromUnix, toUnix } = businessDayRangeUnix(date, date);
+  const nowUnix = Math.floor(Date.now() / 1000);
+  const final = nowUnix > toUnix;
+
+  let hours = final ? loadCached(location.id, date, cutoff) : null;
+  const cached = hours !== null;
+
+  if (!hours) {
+    const starts: number[] = [];
+    for (let t = fromUnix; t <= Math.min(toUnix, nowUnix); t += HOUR_SECONDS) starts.push(t);
+
+    // The POS client limits how many of these run at once
+    hours = await Promise.all(
+      starts.map(async (start, hour) => {
+        const end = Math.min(start + HOUR_SECONDS - 1, toUnix);
+        const sales = await getRevenueByUnixRange(firmaId, start, end);
+        return {
+          hour,
+          start: formatLocal(start * 1000),
+          end: formatLocal((end + 1) * 1000),
+          revenue: round(sales.revenue),
+          covers: sales.covers,
+        };
+      })
+    );
+
+    if (final) saveCached(location.id, date, cutoff, hours);
+  }
+
+  return {
+    locationId: location.id,
+    date,
+    cutoff,
+    final,
+    cached,
+    revenue: round(hours.reduce((s, h) => s + h.revenue, 0)),
+    covers: hours.reduce((s, h) => s + h.covers, 0),
+    transactions: null,
+    transactionsUnavailable: HOURLY_TRANSACTIONS_UNAVAILABLE,
+    hours,
+  };
+}
+
+/**
+ * Hourly sales of every day `from`..`to` plus the average curve: revenue
+ * and covers per clock hour ("HH:MM" of the hour start) over the days.
+ */
+export async function hourlySalesRange(location: Location, from: string, to: string) {
+  const days: Awaited<ReturnType<typeof hourlySales>>[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push(await hourlySales(location, date));
+  }
+
+  const byClock = new Map<string, { revenue: number; covers: number; days: number }>();
+  for (const day of days) {
+    for (const h of day.hours) {
+      const clock = h.start.slice(11);
+      const c = byClock.get(clock) ?? { revenue: 0, covers: 0, days: 0 };
+      c.revenue += h.revenue;
+      c.covers += h.covers;
+      c.days++;
+      byClock.set(clock, c);
+    }
+  }
+
+  // Clock hours in business-day order, starting at the cutoff
+  const cutoff = cutoffLabel();
+  const order = (clock: string) => (clock < cutoff ? "1" : "0") + clock;
+  const average = [...byClock.entries()]
+    .sort(([a], [b]) => order(a).localeCompare(order(b)))
+    .map(([clock, c]) => ({
+      clock,
+      days: c.days,
+      revenue: round(c.revenue),
+      avgRevenue: round(c.revenue / c.days),
+      avgCovers: round(c.covers / c.days),
+    }));
+
+  return {
+    locationId: location.id,
+    from,
+    to,
+    cutoff,
+    revenue: round(days.reduce((s, d) => s + d.revenue, 0)),
+    covers: days.reduce((s, d) => s + d.covers, 0),
+    transactions: null,
+    transactionsUnavailable: HOURLY_TRANSACTIONS_UNAVAILABLE,
+    average,
+    days,
+  };
+}
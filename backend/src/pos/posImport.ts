@@ -0,0 +1,89 @@
+import { db } from "./db";
+import { getDailyInput, upsertDailyInput } from "../db/supabaseDb";
+import { dayRangeUnix, getKoncernRevenue } from "../integrations/posOnline";
+import { Location, requirePosFirmaId } from "../locations/locations";
+
+/**
+ * POS revenue → daily_inputs.totalRevenue for one location and business day.
+ *
+ * Each import is recorded in pos_import_days, per location. A day imported after its
+ * business day ended (past the next day's cutoff) is final: POS Online
+ * will not book more revenue on it, so backfills skip it.
+ * The other daily_inputs fields (woltRevenue, laborCost, bcGroceryCost)
+ * are kept as they are.
+ */
+
+export type PosImportDay = {
+  locationId: string;
+  date: string;
+  revenue: number;
+  entries: number;
+  importedAt: string;
+  final: boolean;
+};
+
+export function getPosImportDay(locationId: string, date: string): PosImportDay | null {
+  const row = db
+    .prepare(
+      `SELECT location_id AS locationId, date, revenue, entries, imported_at AS importedAt, final
+       FROM pos_import_days WHERE location_id = ? AND date = ?`
+    )
+    .get(locationId, date) as (Omit<PosImportDay, "final"> & { final: number }) | undefined;
+
+  return row ? { ...row, final: row.final === 1 } : null;
+}
+
+/** Dates between `from` and `to` (inclusive) with a final import for the location. */
+export function finalizedPosDays(locationId: string, from: string, to: string): Set<string> {
+  const rows = db
+    .prepare(
+      `SELECT date FROM pos_import_days
+       WHERE location_id = ? AND final = 1 AND date BETWEEN ? AND ?`
+    )
+    .all(locationId, from, to) as { date: string }[];
+
+  return new Set(rows.map((r) => r.date));
+}
+
+/**
+ * Fetches the location's POS revenue for `date` and upserts it into daily_inputs.
+ * The day's row is read right before the write, so fields another import
+ * or POST /api/inputs changed in the meantime are kept.
+ */
+export async function importPosDay(location: Location, date: string) {
+  const { fromUnix, toUnix } = dayRangeUnix(date, date);
+  const pos = await getKoncernRevenue([requirePosFirmaId(location)], fromUnix, toUnix);
+  const final = Date.now() > (toUnix + 1) * 1000;
+
+  const current = await getDailyInput(location.id, date);
+
+  const saved = await upsertDailyInput({
+    locationId: location.id,
+    date,
+    totalRevenue: pos.revenue,
+    woltRevenue: current?.woltRevenue ?? 0,
+    laborCost: current?.laborCost ?? 0,
+    bcGroceryCost: current?.bcGroceryCost ?? 0,
+  });
+
+  db.prepare(
+    `
+    INSERT INTO pos_import_days (location_id, date, revenue, entries, imported_at, final)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(location_id, date) DO UPDATE SET
+      revenue = excluded.revenue,
+      entries = excluded.entries,
+      imported_at = excluded.imported_at,
+      final = excluded.final
+  `
+  ).run(
+    location.id,
+    date,
+    pos.revenue,
+    pos.entries.length,
+    new Date().toISOString(),
+    final ? 1 : 0
+  );
+
+  return { locationId: location.id, date, pos, saved, final };
+}
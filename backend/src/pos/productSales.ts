@@ -0,0 +1,267 @@
+import { db } from "./db";
+import { dayRangeUnix, getProductSalesByUnixRange } from "../integrations/posOnline";
+import { Location, locationIn, requirePosFirmaId } from "../locations/locations";
+import { addDays, businessToday } from "../utils/businessCalendar";
+import { dateRanges } from "../utils/date";
+import { round } from "../utils/number";
+
+/**
+ * Product and category sales mix from POS Online item sales.
+ *
+ * Each business day of a location is imported into pos_product_sales
+ * (one row per product) and marked in pos_product_sales_days; a day
+ * imported after it ended is final. Days are imported in the background
+ * by the nightly "pos-products" import and backfill jobs of kind
+ * "product_sales"; reports read the table only and list the days that
+ * have no final import yet (missingProductSalesDays).
+ *
+ * Products are matched by name and category, so the same dish adds up
+ * across locations and POS product ids.
+ */
+
+export type MixCompare = "previous" | "lastYear";
+
+export const MIX_COMPARES: MixCompare[] = ["previous", "lastYear"];
+
+export const MAX_MIX_RANGE_DAYS = 366;
+
+const UNCATEGORIZED = "Uncategorized";
+
+type MixRow = {
+  name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+};
+
+function pct(part: number, whole: number) {
+  return whole ? round((part / whole) * 100) : 0;
+}
+
+/* ================= IMPORT ================= */
+
+/** Fetches one business day of the location and replaces its rows. */
+export async function importProductSales(location: Location, date: string) {
+  const { fromUnix, toUnix } = dayRangeUnix(date, date);
+  const { lines } = await getProductSalesByUnixRange(requirePosFirmaId(location), fromUnix, toUnix);
+  const final = Date.now() > (toUnix + 1) * 1000;
+  const revenue = round(lines.reduce((sum, l) => sum + l.revenue, 0));
+
+  const insert = db.prepare(`
+    INSERT INTO pos_product_sales
+      (location_id, date, product_id, product_name, category, quantity, revenue)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM pos_product_sales WHERE location_id = ? AND date = ?`).run(
+      location.id,
+      date
+    );
+    for (const l of lines) {
+      insert.run(
+        location.id,
+        date,
+        l.productId,
+        l.name,
+        l.category ?? UNCATEGORIZED,
+        l.quantity,
+        l.revenue
+      );
+    }
+
+    db.prepare(
+      `
+      INSERT INTO pos_product_sales_days (location_id, date, products, revenue, imported_at, final)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(location_id, date) DO UPDATE SET
+        products = excluded.products,
+        revenue = excluded.revenue,
+        imported_at = excluded.imported_at,
+        final = excluded.final
+    `
+    ).run(location.id, date, lines.length, revenue, new Date().toISOString(), final ? 1 : 0);
+  })();
+
+  return { locationId: location.id, date, products: lines.length, revenue, final };
+}
+
+/** Days `from`..`to` of the location with a final import. */
+export function finalProductSalesDays(locationId: string, from: string, to: string) {
+  const rows = db
+    .prepare(
+      `SELECT date FROM pos_product_sales_days
+       WHERE location_id = ? AND final = 1 AND date BETWEEN ? AND ?`
+    )
+    .all(locationId, from, to) as { date: string }[];
+
+  return new Set(rows.map((r) => r.date));
+}
+
+/**
+ * Days `from`..`to` (up to today) that lack a final import for any of
+ * the locations; today always does.
+ */
+export function missingProductSalesDays(locationIds: string[], from: string, to: string) {
+  const today = businessToday();
+  const last = to < today ? to : today;
+
+  const final = locationIds.map((id) => finalProductSalesDays(id, from, last));
+  const missing: string[] = [];
+  for (let date = from; date <= last; date = addDays(date, 1)) {
+    if (final.some((days) => !days.has(date))) missing.push(date);
+  }
+
+  return { days: missing.length, ranges: dateRanges(missing) };
+}
+
+/* ================= REPORTS ================= */
+
+function salesBy(
+  level: "product" | "category",
+  locationIds: string[],
+  from: string,
+  to: string,
+  category?: string
+): MixRow[] {
+  const name = level === "product" ? "product_name" : "category";
+
+  return db
+    .prepare(
+      `
+    SELECT ${name} AS name, category,
+           SUM(quantity) AS quantity, SUM(revenue) AS revenue
+    FROM pos_product_sales
+    WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locationIds)}
+      ${category ? "AND category = ?" : ""}
+    GROUP BY ${name}, category
+    ORDER BY revenue DESC
+  `
+    )
+    .all(from, to, ...locationIds, ...(category ? [category] : [])) as MixRow[];
+}
+
+/** Best selling products by revenue or quantity, with their revenue share. */
+export function topSellers(
+  locationIds: string[],
+  from: string,
+  to: string,
+  opts: { limit: number; by: "revenue" | "quantity"; category?: string }
+) {
+  const rows = salesBy("product", locationIds, from, to, opts.category);
+  const revenue = rows.reduce((sum, r) => sum + r.revenue, 0);
+
+  return {
+    from,
+    to,
+    by: opts.by,
+    category: opts.category ?? null,
+    revenue: round(revenue),
+    products: [...rows]
+      .sort((a, b) => b[opts.by] - a[opts.by])
+      .slice(0, opts.limit)
+      .map((r) => ({
+        name: r.name,
+        category: r.category,
+        quantity: round(r.quantity),
+        revenue: round(r.revenue),
+        sharePct: pct(r.revenue, revenue),
+      })),
+  };
+}
+
+/** Revenue, quantity and share of revenue per category. */
+export function categoryMix(locationIds: string[], from: string, to: string) {
+  const rows = salesBy("category", locationIds, from, to);
+  const revenue = rows.reduce((sum, r) => sum + r.revenue, 0);
+
+  return {
+    from,
+    to,
+    revenue: round(revenue),
+    categories: rows.map((r) => ({
+      category: r.category,
+      quantity: round(r.quantity),
+      revenue: round(r.revenue),
+      sharePct: pct(r.revenue, revenue),
+    })),
+  };
+}
+
+/**
+ * The range compared with: the same number of days just before it, or
+ * the same weekdays 52 weeks earlier (as the KPI comparisons).
+ */
+export function compareRange(from: string, to: string, compare: MixCompare) {
+  if (compare === "lastYear") return { from: addDays(from, -364), to: addDays(to, -364) };
+
+  let days = 0;
+  for (let date = from; date <= to; date = addDays(date, 1)) days++;
+  return { from: addDays(from, -days), to: addDays(from, -1) };
+}
+
+/**
+ * Mix changes of `from`..`to` against the compared range: per category
+ * and product the revenue change, the change in share of revenue
+ * (percentage points) and the contribution to total growth (percent of
+ * the compared revenue), largest movers first.
+ */
+export function mixChanges(
+  locationIds: string[],
+  from: string,
+  to: string,
+  compare: MixCompare,
+  limit: number
+) {
+  const prev = compareRange(from, to, compare);
+
+  const changes = (level: "product" | "category") => {
+    const current = salesBy(level, locationIds, from, to);
+    const before = salesBy(level, locationIds, prev.from, prev.to);
+    const total = current.reduce((sum, r) => sum + r.revenue, 0);
+    const prevTotal = before.reduce((sum, r) => sum + r.revenue, 0);
+
+    const key = (r: MixRow) => `${r.category}\u0000${r.name}`;
+    const rows = new Map<string, { now?: MixRow; prev?: MixRow }>();
+    for (const r of current) rows.set(key(r), { now: r });
+    for (const r of before) rows.set(key(r), { ...rows.get(key(r)), prev: r });
+
+    return [...rows.values()]
+      .map(({ now, prev: p }) => {
+        const revenue = now?.revenue ?? 0;
+        const prevRevenue = p?.revenue ?? 0;
+        return {
+          name: (now ?? p).name,
+          category: (now ?? p).category,
+          quantity: round(now?.quantity ?? 0),
+          compareQuantity: round(p?.quantity ?? 0),
+          revenue: round(revenue),
+          compareRevenue: round(prevRevenue),
+          diff: round(revenue - prevRevenue),
+          sharePct: pct(revenue, total),
+          compareSharePct: pct(prevRevenue, prevTotal),
+          shareChangePts: round(pct(revenue, total) - pct(prevRevenue, prevTotal)),
+          contributionPct: pct(revenue - prevRevenue, prevTotal),
+        };
+      })
+      .sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+  };
+
+  const categories = changes("category").map(({ name: _name, ...c }) => c);
+  const products = changes("product").slice(0, limit);
+  const revenue = categories.reduce((sum, c) => sum + c.revenue, 0);
+  const compareRevenue = categories.reduce((sum, c) => sum + c.compareRevenue, 0);
+
+  return {
+    from,
+    to,
+    compare,
+    compareFrom: prev.from,
+    compareTo: prev.to,
+    revenue: round(revenue),
+    compareRevenue: round(compareRevenue),
+    diff: round(revenue - compareRevenue),
+    categories,
+    products,
+  };
+}
@@ -0,0 +1,108 @@
+import { db } from "./db";
+import { getBackOfficeBasicSales } from "../integrations/posOnline";
+import { withBackOfficeSession } from "../integrations/posBackOffice";
+import { Location, requirePosFirmaId } from "../locations/locations";
+import { addDays, businessToday } from "../utils/businessCalendar";
+
+/**
+ * POS transaction counts per business day of a location. Only BackOffice
+ * getBasicSales reports them, one day per call, so finished days are
+ * imported into pos_daily_transactions in the background: the nightly
+ * "pos-transactions" import and backfill jobs of kind "transactions".
+ * Reports only read that cache (cachedTransactions) and say which days
+ * are missing.
+ */
+
+export type TransactionDay = { date: string; transactions: number; revenue: number };
+
+async function fetchDay(location: Location, date: string): Promise<TransactionDay> {
+  const venue = requirePosFirmaId(location);
+  const sales = await withBackOfficeSession((session) =>
+    getBackOfficeBasicSales(venue, date, session)
+  );
+
+  if (!sales.ok) {
+    throw new Error(`POS BackOffice getBasicSales failed (${sales.status}) for ${date}`);
+  }
+
+  return { date, transactions: sales.transactionCount, revenue: sales.revenue };
+}
+
+/** Fetches a finished business day and stores it in the cache. */
+export async function importTransactionDay(location: Location, date: string) {
+  if (date >= businessToday()) {
+    throw new Error(`Business day ${date} is not over yet`);
+  }
+
+  const day = await fetchDay(location, date);
+
+  db.prepare(
+    `
+    INSERT INTO pos_daily_transactions (location_id, date, transactions, revenue, cached_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(location_id, date) DO UPDATE SET
+      transactions = excluded.transactions,
+      revenue = excluded.revenue,
+      cached_at = excluded.cached_at
+  `
+  ).run(location.id, date, day.transactions, day.revenue, new Date().toISOString());
+
+  return day;
+}
+
+/** Cached days `from`..`to` of a location. */
+export function cachedTransactionDays(locationId: string, from: string, to: string) {
+  const rows = db
+    .prepare(
+      `SELECT date FROM pos_daily_transactions
+       WHERE location_id = ? AND date BETWEEN ? AND ?`
+    )
+    .all(locationId, from, to) as { date: string }[];
+
+  return new Set(rows.map((r) => r.date));
+}
+
+/**
+ * Cached transactions and BackOffice revenue per business day
+ * `from`..`to` (up to today), summed over the locations. A day is missing
+ * when any of the locations has no cached row for it; today always is.
+ */
+export function cachedTransactions(locations: Location[], from: string, to: string) {
+  const today = businessToday();
+  const last = to < today ? to : today;
+  if (from > last || locations.length === 0) return { days: [], missing: [] };
+
+  const rows = db
+    .prepare(
+      `SELECT date, COUNT(*) AS locations,
+              SUM(transactions) AS transactions, SUM(revenue) AS revenue
+       FROM pos_daily_transactions
+       WHERE location_id IN (${locations.map(() => "?").join(",")}) AND date BETWEEN ? AND ?
+       GROUP BY date`
+    )
+    .all(...locations.map((l) => l.id), from, last) as (TransactionDay & { locations: number })[];
+
+  const complete = new Map(
+    rows
+      .filter((r) => r.locations === locations.length)
+      .map((r) => [r.date, { date: r.date, transactions: r.transactions, revenue: r.revenue }])
+  );
+
+  const days: TransactionDay[] = [];
+  const missing: string[] = [];
+  for (let date = from; date <= last; date = addDays(date, 1)) {
+    const day = complete.get(date);
+    if (day) days.push(day);
+    else missing.push(date);
+  }
+
+  return { days, missing };
+}
+
+/** Transactions of one business day: cached, else one BackOffice call. */
+export async function transactionsOfDay(location: Location, date: string) {
+  const [cached] = cachedTransactions([location], date, date).days;
+  if (cached) return cached;
+
+  return date < businessToday() ? importTransactionDay(location, date) : fetchDay(location, date);
+}
@@ -0,0 +1,63 @@
+import type { BcCateringDelivery, BcCateringTodayData } from "../services/bcCatering";
+import { formatLocal, localTimeToMs } from "../utils/businessCalendar";
+import { seededRandom } from "./providerMode";
+
+/**
+ * BC Catering provider: a location's grocery deliveries of one business
+ * day. There is no BC Catering integration yet, so live reports no cost
+ * (grocery cost is entered as a daily input); mock generates deliveries.
+ */
+export interface BcCateringProvider {
+  today(locationId: string, date: string): Promise<BcCateringTodayData>;
+}
+
+export const liveBcCateringProvider: BcCateringProvider = {
+  async today() {
+    return { groceryCost: null, deliveries: [] };
+  },
+};
+
+/* ================= MOCK ================= */
+
+// Grocery cost per business day in DKK excl. VAT, Monday first; no deliveries on Sundays
+const WEEKDAY_COST = [6200, 6800, 7600, 8900, 11800, 12600, 0];
+const CATEGORIES = [
+  { name: "Produce", share: 0.3 },
+  { name: "Meat & fish", share: 0.35 },
+  { name: "Dairy", share: 0.15 },
+  { name: "Dry goods", share: 0.12 },
+  { name: "Beverages", share: 0.08 },
+];
+
+export function mockBcCateringProvider(): BcCateringProvider {
+  return {
+    async today(locationId, date) {
+      const random = seededRandom("bc-day", locationId, date);
+      const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+      const cost = WEEKDAY_COST[weekday] * (0.85 + 0.3 * random());
+
+      // One or two deliveries between 06:30 and 09:00 local; unknown until delivered
+      const all: BcCateringDelivery[] = [];
+      const count = cost > 0 ? 1 + Math.floor(random() * 2) : 0;
+      for (let i = 0; i < count; i++) {
+        const at = localTimeToMs(date, 6 * 60 + 30 + Math.floor(random() * 150));
+        for (const c of CATEGORIES) {
+          all.push({
+            id: `mock-bc-${locationId}-${date}-${i + 1}-${c.name}`,
+            deliveredAt: formatLocal(at),
+            category: c.name,
+            amount: Math.round(((cost * c.share) / count) * (0.9 + 0.2 * random())),
+          });
+        }
+      }
+
+      const now = formatLocal(Date.now());
+      const deliveries = all.filter((d) => d.deliveredAt <= now);
+      deliveries.sort((a, b) => a.deliveredAt.localeCompare(b.deliveredAt));
+      return {
+        groceryCost: deliveries.reduce((sum, d) => sum + d.amount, 0),
+        deliveries,
+      };
+    },
+  };
+}
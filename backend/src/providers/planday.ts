@@ -0,0 +1,151 @@
+import { addDays, businessToday } from "../utils/businessCalendar";
+import { seededRandom } from "./providerMode";
+
+/**
+ * Planday provider: raw answers of the Planday Open API, parsed by
+ * labor/plandaySync.ts and labor/plannedShifts.ts whichever provider
+ * answered (see providerMode.ts).
+ */
+export interface PlandayProvider {
+  /** GET `pathAndQuery`; null for an empty (HTML) answer, non-2xx throws. */
+  get(pathAndQuery: string): Promise<any>;
+}
+
+/* ================= MOCK ================= */
+
+const GROUPS = [
+  { id: 11, name: "Kitchen", wage: 178 },
+  { id: 12, name: "Service", wage: 162 },
+  { id: 13, name: "Bar", wage: 168 },
+];
+
+const EMPLOYEES = [
+  { id: 5001, firstName: "Anna", lastName: "Holm", groupId: 11 },
+  { id: 5002, firstName: "Jonas", lastName: "Berg", groupId: 11 },
+  { id: 5003, firstName: "Sofie", lastName: "Lund", groupId: 11 },
+  { id: 5004, firstName: "Emil", lastName: "Kjær", groupId: 11 },
+  { id: 5005, firstName: "Freja", lastName: "Dahl", groupId: 12 },
+  { id: 5006, firstName: "Lucas", lastName: "Vang", groupId: 12 },
+  { id: 5007, firstName: "Ida", lastName: "Krogh", groupId: 12 },
+  { id: 5008, firstName: "Oscar", lastName: "Bach", groupId: 12 },
+  { id: 5009, firstName: "Clara", lastName: "Winther", groupId: 12 },
+  { id: 5010, firstName: "Victor", lastName: "Friis", groupId: 13 },
+  { id: 5011, firstName: "Alma", lastName: "Juhl", groupId: 13 },
+];
+
+// Shifts per group, Monday first: [from, to] local time, to < from ends the next day
+const BASE_SHIFTS: Record<number, [string, string][]> = {
+  11: [["10:00", "18:00"], ["15:00", "23:00"]],
+  12: [["11:00", "17:00"], ["17:00", "23:30"], ["17:00", "23:30"]],
+  13: [["16:00", "23:00"]],
+};
+const BUSY_SHIFTS: Record<number, [string, string][]> = {
+  11: [["16:00", "22:00"]],
+  12: [["18:00", "00:30"]],
+  13: [["18:00", "01:00"]],
+};
+
+type MockShift = {
+  id: string;
+  employeeId: number;
+  employeeGroupId: number;
+  startDateTime: string;
+  endDateTime: string;
+  breakDuration: number;
+  hourlyRate: number;
+};
+
+function minutes(clock: string) {
+  return Number(clock.slice(0, 2)) * 60 + Number(clock.slice(3, 5));
+}
+
+/** The mock department's shifts of one day; Thursday to Saturday are busy. */
+function shiftsOf(departmentId: number, date: string): MockShift[] {
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const busy = weekday >= 3 && weekday <= 5;
+  const random = seededRandom("planday-day", departmentId, date);
+
+  return GROUPS.flatMap((group) => {
+    const staff = EMPLOYEES.filter((e) => e.groupId === group.id);
+    const offset = Math.floor(random() * staff.length);
+    const templates = [...BASE_SHIFTS[group.id], ...(busy ? BUSY_SHIFTS[group.id] : [])];
+
+    return templates.map(([from, to], i) => {
+      const employee = staff[(offset + i) % staff.length];
+      const endDate = minutes(to) < minutes(from) ? addDays(date, 1) : date;
+      const length = (minutes(to) - minutes(from) + 24 * 60) % (24 * 60);
+
+      return {
+        id: `${departmentId}-${date}-${group.id}-${i}`,
+        employeeId: employee.id,
+        employeeGroupId: group.id,
+        startDateTime: `${date}T${from}:00`,
+        endDateTime: `${endDate}T${to}:00`,
+        breakDuration: length >= 6 * 60 ? 30 : 0,
+        hourlyRate: Math.round(group.wage * (0.95 + 0.1 * random())),
+      };
+    });
+  });
+}
+
+function shiftsBetween(departmentId: number, from: string, to: string) {
+  const shifts: MockShift[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    shifts.push(...shiftsOf(departmentId, date));
+  }
+  return shifts;
+}
+
+export function mockPlandayProvider(): PlandayProvider {
+  return {
+    async get(pathAndQuery) {
+      const url = new URL(pathAndQuery, "http://planday.mock");
+      const q = url.searchParams;
+      const departmentId = Number(q.get("departmentId")) || 0;
+      const from = q.get("from") ?? businessToday();
+      const to = q.get("to") ?? from;
+
+      if (url.pathname === "/hr/v1.0/employees") {
+        return { data: EMPLOYEES.map(({ id, firstName, lastName }) => ({ id, firstName, lastName })) };
+      }
+
+      if (url.pathname === "/hr/v1.0/employeegroups") {
+        return { data: GROUPS.map(({ id, name }) => ({ id, name })) };
+      }
+
+      // Time & cost exists for worked days only
+      if (url.pathname === "/timeandcost/v1.0/entries") {
+        const today = businessToday();
+        const last = to < today ? to : addDays(today, -1);
+
+        return {
+          data: {
+            costs: shiftsBetween(departmentId, from, last).map((s) => {
+              const paidHours =
+                ((Date.parse(`${s.endDateTime}Z`) - Date.parse(`${s.startDateTime}Z`)) / 60000 -
+                  s.breakDuration) /
+                60;
+              return {
+                employeeId: s.employeeId,
+                employeeGroupId: s.employeeGroupId,
+                startDateTime: s.startDateTime,
+                endDateTime: s.endDateTime,
+                breakDuration: s.breakDuration,
+                wage: s.hourlyRate,
+                cost: Number((paidHours * s.hourlyRate).toFixed(2)),
+              };
+            }),
+          },
+        };
+      }
+
+      if (url.pathname === "/scheduling/v1.0/shifts") {
+        const offset = Number(q.get("offset")) || 0;
+        const limit = Number(q.get("limit")) || 50;
+        return { data: shiftsBetween(departmentId, from, to).slice(offset, offset + limit) };
+      }
+
+      return { data: [] };
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import type {
+  PosBasicSalesResponse,
+  PosKoncernRevenueResponse,
+  PosProductSalesResponse,
+  PosUnixTimeSalesResponse,
+} from "../integrations/posOnline";
+import { listLocations } from "../locations/locations";
+import {
+  addDays,
+  businessDateOf,
+  businessDayCutoff,
+  businessDayRangeUnix,
+} from "../utils/businessCalendar";
+import { round } from "../utils/number";
+import { seededRandom } from "./providerMode";
+
+/**
+ * POS Online provider: the raw answers of the POS Online API and the
+ * BackOffice report API. integrations/posOnline.ts parses them the same
+ * way whichever provider answered (see providerMode.ts).
+ */
+export interface PosProvider {
+  /** GET /getByUnixTimeSales/{from}/{to} */
+  unixTimeSales(firmaId: number, fromUnix: number, toUnix: number): Promise<PosUnixTimeSalesResponse>;
+  /** GET /koncern/getKoncernRevenue/{from}/{to} (every firmaid of the group) */
+  koncernRevenue(firmaId: number, fromUnix: number, toUnix: number): Promise<PosKoncernRevenueResponse>;
+  /** GET POS_PRODUCT_SALES_PATH */
+  productSales(firmaId: number, fromUnix: number, toUnix: number): Promise<PosProductSalesResponse>;
+  /** BackOffice reports/getBasicSales; non-2xx answers are returned, not thrown */
+  basicSales(
+    venue: number,
+    date: string,
+    session: { cookie: string; xsrf: string }
+  ): Promise<{ status: number; ok: boolean; json: PosBasicSalesResponse | null; text: string }>;
+}
+
+/* ================= MOCK ================= */
+
+// A mid-sized restaurant: DKK incl. VAT per business day, Monday first
+const WEEKDAY_REVENUE = [21000, 23000, 26000, 31000, 41000, 46000, 33000];
+const MONTH_FACTOR = [0.82, 0.86, 0.94, 0.98, 1.04, 1.08, 1.12, 1.1, 1.0, 0.97, 0.95, 1.14];
+const YEARLY_GROWTH = 1.07;
+
+// Share of the day's sales per clock hour (lunch and dinner peaks)
+const HOUR_WEIGHTS: Record<number, number> = {
+  11: 5, 12: 9, 13: 7, 14: 3, 15: 3, 16: 4, 17: 9, 18: 15, 19: 16, 20: 13, 21: 8, 22: 5, 23: 3,
+};
+const HOUR_TOTAL = Object.values(HOUR_WEIGHTS).reduce((s, w) => s + w, 0);
+
+const SPEND_PER_COVER = 265;
+const AVERAGE_TICKET = 340;
+
+const MENU: { id: number; name: string; category: string; price: number; weight: number }[] = [
+  { id: 101, name: "Burrata", category: "Starters", price: 115, weight: 5 },
+  { id: 102, name: "Tartare", category: "Starters", price: 125, weight: 4 },
+  { id: 103, name: "Soup of the day", category: "Starters", price: 85, weight: 3 },
+  { id: 201, name: "Burger", category: "Mains", price: 185, weight: 12 },
+  { id: 202, name: "Steak frites", category: "Mains", price: 265, weight: 9 },
+  { id: 203, name: "Fish of the day", category: "Mains", price: 235, weight: 6 },
+  { id: 204, name: "Risotto", category: "Mains", price: 195, weight: 5 },
+  { id: 205, name: "Caesar salad", category: "Mains", price: 165, weight: 6 },
+  { id: 301, name: "Chocolate fondant", category: "Desserts", price: 95, weight: 4 },
+  { id: 302, name: "Crème brûlée", category: "Desserts", price: 85, weight: 3 },
+  { id: 401, name: "House wine", category: "Drinks", price: 95, weight: 11 },
+  { id: 402, name: "Draft beer", category: "Drinks", price: 65, weight: 10 },
+  { id: 403, name: "Soft drink", category: "Drinks", price: 40, weight: 6 },
+  { id: 404, name: "Cocktail", category: "Drinks", price: 115, weight: 5 },
+  { id: 501, name: "Coffee", category: "Coffee", price: 42, weight: 5 },
+];
+
+const dayTotals = new Map<string, number>();
+
+/** Mock sales of one full business day of a firmaid. */
+function dayTotal(firmaId: number, date: string) {
+  const key = `${firmaId}:${date}`;
+  const cached = dayTotals.get(key);
+  if (cached !== undefined) return cached;
+
+  const d = new Date(`${date}T00:00:00Z`);
+  const size = 0.8 + 0.4 * seededRandom("pos-size", firmaId)();
+  const noise = 0.88 + 0.24 * seededRandom("pos-day", firmaId, date)();
+  const growth = YEARLY_GROWTH ** (d.getUTCFullYear() - 2026);
+
+  const total =
+    WEEKDAY_REVENUE[(d.getUTCDay() + 6) % 7] * MONTH_FACTOR[d.getUTCMonth()] * size * noise * growth;
+
+  dayTotals.set(key, total);
+  return total;
+}
+
+/** Mock sales of a firmaid in a unix range; nothing after now. */
+function rangeRevenue(firmaId: number, fromUnix: number, toUnix: number) {
+  const end = Math.min(toUnix, Math.floor(Date.now() / 1000));
+  const cutoffHour = Math.floor(businessDayCutoff() / 60);
+  let revenue = 0;
+
+  for (let date = businessDateOf(fromUnix * 1000); ; date = addDays(date, 1)) {
+    const day = businessDayRangeUnix(date, date);
+    if (day.fromUnix > end) break;
+
+    const from = Math.max(day.fromUnix, fromUnix);
+    const to = Math.min(day.toUnix, end);
+
+    if (from === day.fromUnix && to === day.toUnix) {
+      revenue += dayTotal(firmaId, date);
+      continue;
+    }
+
+    // Part of the day: its hours, a partial hour pro rata
+    for (let t = day.fromUnix; t <= to; t += 3600) {
+      const overlap = Math.min(t + 3600, to + 1) - Math.max(t, from);
+      if (overlap <= 0) continue;
+
+      const clock = (cutoffHour + Math.floor((t - day.fromUnix) / 3600)) % 24;
+      revenue += (dayTotal(firmaId, date) * (HOUR_WEIGHTS[clock] ?? 0) * overlap) / HOUR_TOTAL / 3600;
+    }
+  }
+
+  return revenue;
+}
+
+export function mockPosProvider(): PosProvider {
+  return {
+    async unixTimeSales(firmaId, fromUnix, toUnix) {
+      const revenue = rangeRevenue(firmaId, fromUnix, toUnix);
+      const covers = Math.round(revenue / SPEND_PER_COVER);
+
+      // Split over three POS users, like a real till setup
+      return {
+        period: `${fromUnix}-${toUnix}`,
+        location: [0.5, 0.3, 0.2].map((share, i) => ({
+          userid: firmaId * 10 + i,
+          amount: round(revenue * share),
+          pax: String(Math.round(covers * share)),
+        })),
+      };
+    },
+
+    async koncernRevenue(firmaId, fromUnix, toUnix) {
+      const firmaIds = new Set([
+        firmaId,
+        ...listLocations().map((l) => l.posFirmaId).filter((id): id is number => !!id),
+      ]);
+
+      return {
+        entries: [...firmaIds].map((id) => ({
+          entry: { firmaid: id, revenue: round(rangeRevenue(id, fromUnix, toUnix)) },
+        })),
+      };
+    },
+
+    async productSales(firmaId, fromUnix, toUnix) {
+      const revenue = rangeRevenue(firmaId, fromUnix, toUnix);
+      const random = seededRandom("pos-products", firmaId, fromUnix, toUnix);
+      const weights = MENU.map((m) => m.weight * (0.7 + 0.6 * random()));
+      const weightTotal = weights.reduce((s, w) => s + w, 0);
+
+      return MENU.map((m, i) => {
+        const quantity = Math.round((revenue * weights[i]) / weightTotal / m.price);
+        return {
+          productid: m.id,
+          name: m.name,
+          category: m.category,
+          quantity,
+          amount: quantity * m.price,
+        };
+      }).filter((line) => line.quantity > 0);
+    },
+
+    async basicSales(venue, date) {
+      const { fromUnix, toUnix } = businessDayRangeUnix(date, date);
+      const revenue = rangeRevenue(venue, fromUnix, toUnix);
+      const ticket = AVERAGE_TICKET * (0.9 + 0.2 * seededRandom("pos-ticket", venue, date)());
+
+      const json = {
+        data: { revenue: round(revenue), transaction_count: Math.round(revenue / ticket) },
+      };
+      return { status: 200, ok: true, json, text: JSON.stringify(json) };
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Data providers: every external data source (POS Online, Planday, Wolt,
+ * BC Catering) is read through a provider interface, picked per source:
+ *
+ * - live:   the real API (integrations/*.ts)
+ * - mock:   seeded, believable data generated offline (the same answer
+ *           for the same request, so comparisons and caches hold up)
+ * - replay: JSON fixtures recorded from live answers
+ *
+ * PROVIDER_MODE sets every source (default live); POS_PROVIDER,
+ * PLANDAY_PROVIDER, WOLT_PROVIDER and BC_CATERING_PROVIDER override it.
+ * With PROVIDER_RECORD=1 live (or mock) answers are written to the
+ * fixtures directory (PROVIDER_FIXTURES_DIR, default backend/fixtures),
+ * one file per call: <source>/<method>/<arguments>.json. The committed
+ * fixtures are a replay set recorded from the mock (fixtures/README.md).
+ *
+ * Answers land in the local caches (labor.db) whatever the mode.
+ */
+
+export type ProviderSource = "pos" | "planday" | "wolt" | "bcCatering";
+export type ProviderMode = "live" | "mock" | "replay";
+
+export const PROVIDER_MODES: ProviderMode[] = ["live", "mock", "replay"];
+
+const SOURCE_ENV: Record<ProviderSource, string> = {
+  pos: "POS_PROVIDER",
+  planday: "PLANDAY_PROVIDER",
+  wolt: "WOLT_PROVIDER",
+  bcCatering: "BC_CATERING_PROVIDER",
+};
+
+function parseMode(raw: string | undefined): ProviderMode | null {
+  const v = (raw ?? "").trim().toLowerCase();
+  return PROVIDER_MODES.includes(v as ProviderMode) ? (v as ProviderMode) : null;
+}
+
+export function providerMode(source: ProviderSource): ProviderMode {
+  return parseMode(process.env[SOURCE_ENV[source]]) ?? parseMode(process.env.PROVIDER_MODE) ?? "live";
+}
+
+export function providerModes() {
+  return Object.fromEntries(
+    (Object.keys(SOURCE_ENV) as ProviderSource[]).map((s) => [s, providerMode(s)])
+  ) as Record<ProviderSource, ProviderMode>;
+}
+
+/* ================= FIXTURES ================= */
+
+function fixturesDir() {
+  return path.resolve(process.env.PROVIDER_FIXTURES_DIR || path.join(__dirname, "../../fixtures"));
+}
+
+function recording() {
+  const v = (process.env.PROVIDER_RECORD ?? "").trim().toLowerCase();
+  return v === "1" || v === "true";
+}
+
+/** Fixture file of one call; object arguments (sessions …) are not part of it. */
+function fixturePath(source: ProviderSource, method: string, args: unknown[]) {
+  const key = args
+    .filter((a) => a === null || typeof a !== "object")
+    .map((a) => String(a))
+    .join("_")
+    .replace(/[^\w.-]+/g, "_")
+    .slice(0, 200);
+
+  return path.join(fixturesDir(), source, method, `${key || "_"}.json`);
+}
+
+function writeFixture(file: string, value: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value ?? null, null, 2));
+}
+
+/** Calls of `provider` pass through and are written as fixtures. */
+function recordingProvider<T extends object>(source: ProviderSource, provider: T): T {
+  return new Proxy(provider, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function") return value;
+
+      return async (...args: unknown[]) => {
+        const result = await value.apply(target, args);
+        try {
+          writeFixture(fixturePath(source, String(prop), args), result);
+        } catch (err) {
+          console.warn(`[providers] could not record ${source} fixture:`, (err as Error).message);
+        }
+        return result;
+      };
+    },
+  });
+}
+
+/** A provider answering every call from its recorded fixture. */
+function replayProvider<T extends object>(source: ProviderSource): T {
+  return new Proxy({} as T, {
+    get(_target, prop) {
+      return async (...args: unknown[]) => {
+        const file = fixturePath(source, String(prop), args);
+        if (!fs.existsSync(file)) {
+          throw new Error(`No ${source} fixture for ${String(prop)}(${args.join(", ")}): ${file}`);
+        }
+        return JSON.parse(fs.readFileSync(file, "utf8"));
+      };
+    },
+  });
+}
+
+/** The provider of `source` for the configured mode. */
+export function selectProvider<T extends object>(
+  source: ProviderSource,
+  impl: { live: () => T; mock: () => T }
+): T {
+  const mode = providerMode(source);
+  if (mode === "replay") return replayProvider<T>(source);
+
+  const provider = mode === "mock" ? impl.mock() : impl.live();
+  return recording() ? recordingProvider(source, provider) : provider;
+}
+
+/* ================= SEEDED RANDOM ================= */
+
+/**
+ * Deterministic random numbers in [0, 1) for a key (mulberry32 seeded
+ * with a string hash), so mock data is stable per request.
+ * PROVIDER_MOCK_SEED changes every generated value.
+ */
+export function seededRandom(...key: (string | number)[]) {
+  let h = 2166136261;
+  for (const ch of `${process.env.PROVIDER_MOCK_SEED ?? ""}|${key.join("|")}`) {
+    h = Math.imul(h ^ ch.charCodeAt(0), 16777619);
+  }
+
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
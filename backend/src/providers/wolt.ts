@@ -0,0 +1,63 @@
+import type { WoltOrder, WoltTodayData } from "../services/wolt";
+import { businessDayRangeUnix, formatLocal, localTimeToMs } from "../utils/businessCalendar";
+import { woltDailySales } from "../wolt/woltImport";
+import { seededRandom } from "./providerMode";
+
+/**
+ * Wolt provider: a location's delivery orders of one business day.
+ * Wolt has no API for this, so live answers with the sales imported from
+ * Wolt report files (wolt/woltImport.ts): nothing for a day not imported
+ * yet, and never live orders.
+ */
+export interface WoltProvider {
+  today(locationId: string, date: string): Promise<WoltTodayData>;
+}
+
+export const liveWoltProvider: WoltProvider = {
+  async today(locationId, date) {
+    const [day] = woltDailySales([locationId], date, date);
+    return { revenue: day?.gross ?? 0, orders: day?.orders ?? 0, liveOrders: [] };
+  },
+};
+
+/* ================= MOCK ================= */
+
+// Delivery orders per business day, Monday first
+const WEEKDAY_ORDERS = [22, 24, 27, 31, 38, 42, 40];
+const STATUSES: WoltOrder["status"][] = ["received", "preparing", "ready", "delivering"];
+
+export function mockWoltProvider(): WoltProvider {
+  return {
+    async today(locationId, date) {
+      const random = seededRandom("wolt-day", locationId, date);
+      const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+      const { toUnix } = businessDayRangeUnix(date, date);
+      const nowUnix = Math.floor(Date.now() / 1000);
+
+      // Orders come in evenly from 11:00 to 22:00 local
+      const open = Math.floor(localTimeToMs(date, 11 * 60) / 1000);
+      const close = Math.floor(localTimeToMs(date, 22 * 60) / 1000);
+      const elapsed = Math.min(1, Math.max(0, (nowUnix - open) / (close - open)));
+
+      const dayOrders = Math.round(WEEKDAY_ORDERS[weekday] * (0.8 + 0.4 * random()));
+      const orders = nowUnix > toUnix ? dayOrders : Math.round(dayOrders * elapsed);
+      const ticket = 215 + 50 * random();
+
+      // Live orders: the last few, while the kitchen is open
+      const liveOrders: WoltOrder[] = [];
+      if (nowUnix <= close && elapsed > 0) {
+        const count = Math.min(orders, 1 + Math.floor(random() * 4));
+        for (let i = 0; i < count; i++) {
+          liveOrders.push({
+            id: `mock-${locationId}-${date}-${orders - i}`,
+            status: STATUSES[i % STATUSES.length],
+            placedAt: formatLocal((nowUnix - (i + 1) * 6 * 60) * 1000),
+            amount: Math.round(ticket * (0.6 + 0.8 * random())),
+          });
+        }
+      }
+
+      return { revenue: Math.round(orders * ticket), orders, liveOrders };
+    },
+  };
+}
@@ -3,37 +3,76 @@ import { getPosToday } from "../services/pos";
 import { getWoltToday } from "../services/wolt";
 import { getPlandayToday } from "../services/planday";
 import { getBcCateringToday } from "../services/bcCatering";
+import { businessToday } from "../utils/businessCalendar";
+import { locationsParam } from "../locations/locations";
+import { ProviderSource, providerModes } from "../providers/providerMode";
 
 export const dashboardRouter = Router();
 
-dashboardRouter.get("/today", async (_req, res) => {
-  // SAFE MODE: services currently return mock data
-  const today = new Date().toISOString().slice(0, 10);
+/** A settled source's value, or null with its error recorded. */
+function settled<T>(
+  result: PromiseSettledResult<T>,
+  source: ProviderSource,
+  errors: Partial<Record<ProviderSource, string>>
+): T | null {
+  if (result.status === "fulfilled") return result.value;
+  errors[source] = result.reason?.message ?? String(result.reason);
+  return null;
+}
 
-  const [pos, wolt, planday] = await Promise.all([
-    getPosToday(),
-    getWoltToday(),
-    getPlandayToday(),
-    getBcCateringToday(), // called to confirm integration is wired (unused for now)
+/**
+ * GET /api/dashboard/today[?location=]
+ * Today's POS, Wolt, Planday and BC Catering figures of one location.
+ * Each source is read through its provider (live, mock or replay, see
+ * providers/providerMode.ts), reported under `providers`. A source that
+ * fails (not configured for the location, not connected …) is null with
+ * its message under `errors`; totals add up the sources that answered.
+ */
+dashboardRouter.get("/today", async (req, res) => {
+  const scope = locationsParam(req.query.location);
+  if ("error" in scope) return res.status(400).json({ error: scope.error });
+
+  const location = scope.locations[0];
+  const today = businessToday();
+
+  const results = await Promise.allSettled([
+    getPosToday(location, today),
+    getWoltToday(location.id, today),
+    getPlandayToday(location, today),
+    getBcCateringToday(location.id, today),
   ]);
 
-  const revenuePos = pos.revenue;
-  const revenueWolt = wolt.revenue;
+  const errors: Partial<Record<ProviderSource, string>> = {};
+  const pos = settled(results[0], "pos", errors);
+  const wolt = settled(results[1], "wolt", errors);
+  const planday = settled(results[2], "planday", errors);
+  const bcCatering = settled(results[3], "bcCatering", errors);
 
-  res.json({
+  for (const [source, error] of Object.entries(errors)) {
+    console.warn(`GET /api/dashboard/today: ${source} failed:`, error);
+  }
+
+  return res.json({
     date: today,
+    locationId: location.id,
+    providers: providerModes(),
     revenue: {
-      pos: revenuePos,
-      wolt: revenueWolt,
-      total: revenuePos + revenueWolt,
+      pos: pos?.revenue ?? null,
+      wolt: wolt?.revenue ?? null,
+      total: (pos?.revenue ?? 0) + (wolt?.revenue ?? 0),
     },
     orders: {
-      pos: pos.orders,
-      wolt: wolt.orders,
+      pos: pos?.orders ?? null,
+      wolt: wolt?.orders ?? null,
     },
     labor: {
-      staffScheduled: planday.staffScheduled,
+      staffScheduled: planday?.staffScheduled ?? null,
+    },
+    groceries: {
+      cost: bcCatering?.groceryCost ?? null,
+      deliveries: bcCatering?.deliveries ?? [],
     },
-    woltLiveOrders: wolt.liveOrders,
+    woltLiveOrders: wolt?.liveOrders ?? [],
+    errors,
   });
 });
@@ -1,104 +1,39 @@
 import express from "express";
-import { upsertDailyInput, listDailyInputs } from "../db/supabaseDb";
+import { supabase } from "../db/supabaseClient";
+import { businessToday } from "../utils/businessCalendar";
+import { importPosDay } from "../pos/posImport";
+import { locationsParam } from "../locations/locations";
+import {
+  BACKFILL_KINDS,
+  BackfillKind,
+  MAX_BACKFILL_DAYS,
+  createBackfillJob,
+  getBackfillJob,
+  listBackfillJobs,
+  retryBackfillJob,
+} from "../pos/backfill";
+import { WoltReportError } from "../wolt/parseWoltCsv";
+import { importWoltReport, listWoltImportBatches, woltDailySales } from "../wolt/woltImport";
 
 export const importRouter = express.Router();
 
 /**
- * POST /api/import/pos?date=YYYY-MM-DD
+ * POST /api/import/pos?date=YYYY-MM-DD[&location=]
  *
- * Fetches POS revenue for a date from POS Online API,
+ * Fetches POS revenue for a date and location from POS Online API,
  * then upserts into Supabase daily_inputs:
- *   - date
+ *   - location_id, date
  *   - totalRevenue = POS posSalesTotal
  *
  * IMPORTANT:
- * We MUST filter revenue ONLY for POS_FIRMAID (your store),
+ * We MUST filter revenue ONLY for the location's firmaid,
  * otherwise we import the entire koncern revenue (all locations).
  *
  * Keeps other fields unchanged (woltRevenue, laborCost, bcGroceryCost).
+ * `final` is true when the business day was over at import time
+ * (see pos/posImport.ts); backfills skip final days.
  */
 
-function toUnixSeconds(dateIso: string, endOfDay: boolean): number {
-  // IMPORTANT:
-  // Do NOT force UTC by using "Z".
-  // POS Online "daily revenue" is based on local Denmark time.
-  const d = new Date(`${dateIso}T00:00:00`);
-  if (Number.isNaN(d.getTime())) return 0;
-
-  if (endOfDay) {
-    d.setHours(23, 59, 59, 999);
-  }
-
-  return Math.floor(d.getTime() / 1000);
-}
-
-function parseRevenue(value: any): number {
-  const n = Number(value);
-  return Number.isFinite(n) ? n : 0;
-}
-
-async function fetchPosSalesTotalForDate(date: string) {
-  const token = process.env.POS_API_TOKEN;
-  const firmaid = process.env.POS_FIRMAID;
-
-  if (!token) throw new Error("Missing POS_API_TOKEN");
-  if (!firmaid) throw new Error("Missing POS_FIRMAID");
-
-  const targetFirmaId = Number(firmaid);
-
-  const from = toUnixSeconds(date, false);
-  const to = toUnixSeconds(date, true);
-
-  const url = `https://api.onlinepos.dk/api/koncern/getKoncernRevenue/${from}/${to}`;
-
-  const r = await fetch(url, {
-    method: "GET",
-    headers: {
-      token: token,
-      firmaid: String(firmaid),
-      Accept: "application/json",
-    },
-  });
-
-  if (!r.ok) {
-    const text = await r.text();
-    throw new Error(`POS Online API request failed (${r.status}): ${text}`);
-  }
-
-  const data: any = await r.json();
-
-  // POS sometimes returns:
-  // - { entries: [...] }
-  // - [] (empty array)
-  const entries = Array.isArray(data?.entries)
-    ? data.entries
-    : Array.isArray(data)
-    ? data
-    : [];
-
-  // ✅ Filter to only this firmaid (your store)
-  const filtered = entries.filter((x: any) => {
-    const fid = Number(x?.entry?.firmaid);
-    return Number.isFinite(fid) && fid === targetFirmaId;
-  });
-
-  const posSalesTotal = filtered.reduce((acc: number, x: any) => {
-    const revenue = parseRevenue(x?.entry?.revenue);
-    return acc + revenue;
-  }, 0);
-
-  return {
-    date,
-    from,
-    to,
-    url,
-    posSalesTotal,
-    entriesCount: filtered.length,
-    targetFirmaId,
-    raw: data,
-  };
-}
-
 importRouter.post("/pos", async (req, res) => {
   try {
     const date = typeof req.query.date === "string" ? req.query.date : "";
@@ -109,32 +44,26 @@ importRouter.post("/pos", async (req, res) => {
         .json({ ok: false, error: "date must be YYYY-MM-DD" });
     }
 
-    // 1) Fetch POS total for date (filtered to POS_FIRMAID only)
-    const pos = await fetchPosSalesTotalForDate(date);
-
-    // 2) Get existing daily input so we keep other fields unchanged
-    const all = await listDailyInputs();
-    const existing = all.find((x) => x.date === date);
+    const scope = locationsParam(req.query.location);
+    if ("error" in scope) return res.status(400).json({ ok: false, error: scope.error });
+    const location = scope.locations[0];
 
-    // 3) Upsert ONLY totalRevenue (POS)
-    const saved = await upsertDailyInput({
-      date,
-      totalRevenue: pos.posSalesTotal,
-      woltRevenue: existing?.woltRevenue ?? 0,
-      laborCost: existing?.laborCost ?? 0,
-      bcGroceryCost: existing?.bcGroceryCost ?? 0,
-    });
+    // Fetch POS total for date (filtered to the location's firmaid) and upsert
+    // ONLY totalRevenue, keeping the other daily input fields unchanged
+    const { pos, saved, final } = await importPosDay(location, date);
 
     return res.json({
       ok: true,
+      locationId: location.id,
       date,
       imported: {
-        totalRevenue: pos.posSalesTotal,
+        totalRevenue: pos.revenue,
       },
+      final,
       saved,
       posDebug: {
-        entriesCount: pos.entriesCount,
-        targetFirmaId: pos.targetFirmaId,
+        entriesCount: pos.entries.length,
+        targetFirmaIds: pos.targetFirmaIds,
         url: pos.url,
       },
     });
@@ -146,3 +75,160 @@ importRouter.post("/pos", async (req, res) => {
     });
   }
 });
+
+/* ================= POS BACKFILL ================= */
+
+/**
+ * POST /api/import/pos/backfill?from=YYYY-MM-DD&to=YYYY-MM-DD[&location=][&force=1][&kind=revenue|transactions|product_sales]
+ * Starts a background job importing every day in the range: revenue into
+ * daily_inputs (default), BackOffice transaction counts for /api/kpis or
+ * product sales for /api/sales-mix. Days already imported for good are
+ * skipped unless force=1. Answers 202 with the job.
+ */
+importRouter.post("/pos/backfill", (req, res) => {
+  const from = typeof req.query.from === "string" ? req.query.from : "";
+  const to = typeof req.query.to === "string" ? req.query.to : "";
+  const force = req.query.force === "1" || req.query.force === "true";
+  const kind = (typeof req.query.kind === "string" ? req.query.kind : "revenue") as BackfillKind;
+
+  if (!BACKFILL_KINDS.includes(kind)) {
+    return res
+      .status(400)
+      .json({ ok: false, error: `kind must be one of ${BACKFILL_KINDS.join(", ")}` });
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    return res.status(400).json({ ok: false, error: "from/to must be YYYY-MM-DD" });
+  }
+  if (from > to) {
+    return res.status(400).json({ ok: false, error: "from must be <= to" });
+  }
+  if (to > businessToday()) {
+    return res.status(400).json({ ok: false, error: "to must not be in the future" });
+  }
+
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000 + 1;
+  if (days > MAX_BACKFILL_DAYS) {
+    return res
+      .status(400)
+      .json({ ok: false, error: `At most ${MAX_BACKFILL_DAYS} days per backfill` });
+  }
+
+  const scope = locationsParam(req.query.location);
+  if ("error" in scope) return res.status(400).json({ ok: false, error: scope.error });
+  const location = scope.locations[0];
+  if (!location.posFirmaId) {
+    return res
+      .status(400)
+      .json({ ok: false, error: `Location "${location.id}" has no POS firmaid` });
+  }
+
+  if (kind === "revenue" && !supabase) {
+    return res.status(500).json({
+      ok: false,
+      error: "Supabase is disabled (missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY)",
+    });
+  }
+
+  try {
+    return res
+      .status(202)
+      .json({ ok: true, job: createBackfillJob(location.id, from, to, force, kind) });
+  } catch (err: any) {
+    console.error("POST /api/import/pos/backfill error:", err);
+    return res.status(500).json({ ok: false, error: err?.message ?? "Backfill failed" });
+  }
+});
+
+/**
+ * GET /api/import/pos/backfill
+ * The 50 most recent backfill jobs with their progress.
+ */
+importRouter.get("/pos/backfill", (_req, res) => {
+  res.json({ ok: true, jobs: listBackfillJobs() });
+});
+
+/**
+ * GET /api/import/pos/backfill/:id
+ * Job status: progress counts per day status and the failed days with errors.
+ */
+importRouter.get("/pos/backfill/:id", (req, res) => {
+  const job = getBackfillJob(Number(req.params.id));
+  if (!job) return res.status(404).json({ ok: false, error: "Job not found" });
+
+  res.json({ ok: true, job });
+});
+
+/**
+ * POST /api/import/pos/backfill/:id/retry
+ * Requeues the failed days of a job.
+ */
+importRouter.post("/pos/backfill/:id/retry", (req, res) => {
+  const result = retryBackfillJob(Number(req.params.id));
+  if (!result) return res.status(404).json({ ok: false, error: "Job not found" });
+
+  res.json({ ok: true, ...result });
+});
+
+/* ================= WOLT REPORTS ================= */
+
+/**
+ * POST /api/import/wolt[?location=][&dryRun=1]
+ * Body: a Wolt merchant sales or payout report (CSV) of the location.
+ * Replaces the stored Wolt sales of the orders (per-order reports) or
+ * days (per-day reports) it lists and writes the stored gross sales of
+ * the touched days to daily_inputs.woltRevenue (see wolt/woltImport.ts);
+ * dryRun returns the resulting days next to the stored ones without writing.
+ * An unusable report is a 400; database failures are a 500.
+ */
+importRouter.post("/wolt", express.text({ type: "*/*", limit: "10mb" }), async (req, res) => {
+  const csv = typeof req.body === "string" ? req.body : "";
+  if (!csv.trim()) {
+    return res.status(400).json({ ok: false, error: "Missing CSV body" });
+  }
+
+  const scope = locationsParam(req.query.location);
+  if ("error" in scope) return res.status(400).json({ ok: false, error: scope.error });
+
+  const dryRun = req.query.dryRun === "1" || req.query.dryRun === "true";
+
+  try {
+    const result = await importWoltReport(csv, { locationId: scope.locations[0].id, dryRun });
+    return res.json({ ok: true, ...result });
+  } catch (err) {
+    console.error("POST /api/import/wolt error:", err);
+    return res.status(err instanceof WoltReportError ? 400 : 500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Wolt import failed",
+    });
+  }
+});
+
+/**
+ * GET /api/import/wolt/imports[?location=<id>|all]
+ * Imported Wolt reports, newest first.
+ */
+importRouter.get("/wolt/imports", (req, res) => {
+  const scope = locationsParam(req.query.location, { allowAll: true });
+  if ("error" in scope) return res.status(400).json({ ok: false, error: scope.error });
+
+  res.json({ ok: true, batches: listWoltImportBatches(scope.locations.map((l) => l.id)) });
+});
+
+/**
+ * GET /api/import/wolt/sales?from=YYYY-MM-DD&to=YYYY-MM-DD[&location=<id>|all]
+ * Imported orders, gross sales, commission, fees and net payout per business day.
+ */
+importRouter.get("/wolt/sales", (req, res) => {
+  const scope = locationsParam(req.query.location, { allowAll: true });
+  if ("error" in scope) return res.status(400).json({ ok: false, error: scope.error });
+
+  const from = typeof req.query.from === "string" ? req.query.from : "";
+  const to = typeof req.query.to === "string" ? req.query.to : from;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    return res.status(400).json({ ok: false, error: "from/to must be YYYY-MM-DD" });
+  }
+
+  const locationIds = scope.locations.map((l) => l.id);
+  res.json({ ok: true, locations: locationIds, from, to, days: woltDailySales(locationIds, from, to) });
+});
@@ -1,20 +1,28 @@
 ﻿import express from "express";
-import { upsertDailyInput, listDailyInputs } from "../db/supabaseDb";
+import {
+  consolidateDailyInputs,
+  listDailyInputs,
+  upsertDailyInput,
+} from "../db/supabaseDb";
+import { ALL_LOCATIONS, locationsParam } from "../locations/locations";
 
 export const inputsRouter = express.Router();
 
-// GET all saved inputs
-inputsRouter.get("/", async (_req, res) => {
+// GET saved inputs of ?location= (default location; "all" = summed per date)
+inputsRouter.get("/", async (req, res) => {
+  const scope = locationsParam(req.query.location, { allowAll: true });
+  if ("error" in scope) return res.status(400).json({ error: scope.error });
+
   try {
-    const all = await listDailyInputs();
-    res.json(all);
+    const all = await listDailyInputs(scope.locations.map((l) => l.id));
+    res.json(scope.all ? consolidateDailyInputs(all, ALL_LOCATIONS) : all);
   } catch (err: any) {
     console.error("GET /api/inputs error:", err);
     res.status(500).json({ error: "Failed to load inputs" });
   }
 });
 
-// POST save/update one day input
+// POST save/update one day input of one location (?location= or body.location)
 inputsRouter.post("/", async (req, res) => {
   try {
     const body = req.body ?? {};
@@ -24,7 +32,11 @@ inputsRouter.post("/", async (req, res) => {
       return res.status(400).json({ error: "date must be YYYY-MM-DD" });
     }
 
+    const scope = locationsParam(req.query.location ?? body.location);
+    if ("error" in scope) return res.status(400).json({ error: scope.error });
+
     const saved = await upsertDailyInput({
+      locationId: scope.locations[0].id,
       date,
       totalRevenue: Number(body.totalRevenue ?? 0),
       woltRevenue: Number(body.woltRevenue ?? 0),
@@ -3,8 +3,12 @@ import {
   getBasicSalesByDate,
   getBasicSalesByMonth,
   getBasicSalesByYear,
-  getRevenueByUnixRange,
+  getRevenueByDateRange,
 } from "../integrations/posOnline";
+import { addYears, dateRanges } from "../utils/date";
+import { round } from "../utils/number";
+import { ALL_LOCATIONS, Location, locationsParam } from "../locations/locations";
+import { cachedTransactions } from "../pos/transactions";
 
 export const kpisRouter = express.Router();
 
@@ -17,8 +21,44 @@ type DiffBlock = {
   direction: "up" | "down" | "flat";
 };
 
+type PeriodValues = {
+  today: number;
+  week: number; // Mon→Sun
+  month: number;
+  year: number;
+
+  lastYearSameDay: number;
+  lastYearSameWeekday: number;
+  lastYearWeek: number;
+  lastYearMonth: number;
+  lastYearYear: number;
+};
+
+type PeriodKey = keyof PeriodValues;
+
+type DateRange = { fromDate: string; toDate: string };
+
+/** Period values of a KPI; null for a period whose data is not all in yet. */
+type MetricValues = Record<PeriodKey, number | null>;
+
+/**
+ * A KPI besides revenue: its period values with the same comparisons.
+ * A comparison with a null side is null, not a diff against 0.
+ */
+type MetricKpis = MetricValues & {
+  comparisons: {
+    todayVsLastYearSameDay: DiffBlock | null;
+    todayVsLastYearSameWeekday: DiffBlock | null;
+
+    weekVsLastYearWeek: DiffBlock | null;
+    monthVsLastYearMonth: DiffBlock | null;
+    yearVsLastYearYear: DiffBlock | null;
+  };
+};
+
 type KpiResponse = {
   date: string;
+  location: string; // location id, or "all"
   revenue: {
     today: number;
 
@@ -55,13 +95,28 @@ type KpiResponse = {
     yearVsLastYearYear: DiffBlock;
   };
 
+  // Transaction counts of the days cached from the BackOffice
+  // (pos/transactions.ts); periods with missing days (today always) are
+  // null, the days are in meta.transactionsMissing
+  transactions: MetricKpis;
+  averageTicket: MetricKpis; // BackOffice revenue / transactions of the same days
+  covers: MetricKpis; // POS pax
+
   meta: {
     cached: boolean;
     cacheAgeSeconds: number;
     source: "live" | "cache";
+    transactionsMissing: TransactionsMissing;
   };
 };
 
+/** Days without cached transactions, and the periods they leave incomplete. */
+type TransactionsMissing = {
+  days: number;
+  ranges: { from: string; to: string }[];
+  periods: PeriodKey[];
+};
+
 const cache: Record<string, { savedAt: number; data: KpiResponse }> = {};
 
 function parseDateOrThrow(dateStr?: string) {
@@ -69,10 +124,9 @@ function parseDateOrThrow(dateStr?: string) {
   if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr))
     throw new Error("Invalid date format. Use YYYY-MM-DD");
 
-  const dateObj = new Date(dateStr + "T00:00:00");
-  if (isNaN(dateObj.getTime())) throw new Error("Invalid date value");
+  if (isNaN(Date.parse(dateStr + "T00:00:00Z"))) throw new Error("Invalid date value");
 
-  return { dateStr, dateObj };
+  return { dateStr };
 }
 
 function getCacheAgeSeconds(savedAt: number) {
@@ -86,10 +140,6 @@ function formatYYYYMMDD(dateObj: Date) {
   return `${y}-${m}-${d}`;
 }
 
-function toUnixSeconds(d: Date) {
-  return Math.floor(d.getTime() / 1000);
-}
-
 /**
  * ✅ Same weekday last year (52 weeks ago)
  * Subtract 364 days so weekday matches.
@@ -101,64 +151,114 @@ function sameWeekdayLastYear(dateStr: string) {
   return formatYYYYMMDD(d2);
 }
 
-/**
- * ✅ Full week range (Mon 00:00 -> Sun 23:59) in UTC
- */
-function fullWeekUnixRange(dateStr: string) {
+function mondayOf(dateStr: string) {
   const d = new Date(dateStr + "T00:00:00.000Z");
   const day = d.getUTCDay(); // Sun=0
-  const diffToMonday = day === 0 ? -6 : 1 - day;
-
-  const monday = new Date(d);
-  monday.setUTCDate(d.getUTCDate() + diffToMonday);
-  monday.setUTCHours(0, 0, 0, 0);
+  d.setUTCDate(d.getUTCDate() + (day === 0 ? -6 : 1 - day));
+  return d;
+}
 
+/**
+ * ✅ Full week range (Mon -> Sun)
+ */
+function fullWeekRange(dateStr: string) {
+  const monday = mondayOf(dateStr);
   const sunday = new Date(monday);
   sunday.setUTCDate(monday.getUTCDate() + 6);
-  sunday.setUTCHours(23, 59, 59, 999);
 
-  return {
-    fromUnix: toUnixSeconds(monday),
-    toUnix: toUnixSeconds(sunday),
-    fromDate: formatYYYYMMDD(monday),
-    toDate: formatYYYYMMDD(sunday),
-  };
+  return { fromDate: formatYYYYMMDD(monday), toDate: formatYYYYMMDD(sunday) };
 }
 
 /**
- * WeekToDate = Monday 00:00 -> selected date 23:59 (UTC)
+ * WeekToDate = Monday -> selected date
  */
-function weekToDateUnixRange(dateStr: string) {
-  const d = new Date(dateStr + "T00:00:00.000Z");
-  const day = d.getUTCDay(); // Sun=0
-  const diffToMonday = day === 0 ? -6 : 1 - day;
+function weekToDateRange(dateStr: string) {
+  return { fromDate: formatYYYYMMDD(mondayOf(dateStr)), toDate: dateStr };
+}
 
-  const monday = new Date(d);
-  monday.setUTCDate(d.getUTCDate() + diffToMonday);
-  monday.setUTCHours(0, 0, 0, 0);
+/**
+ * MonthToDate = 1st -> selected date
+ */
+function monthToDateRange(dateStr: string) {
+  return { fromDate: dateStr.slice(0, 8) + "01", toDate: dateStr };
+}
+
+/**
+ * Full calendar month / year containing the date
+ */
+function fullMonthRange(dateStr: string) {
+  const last = new Date(Date.UTC(Number(dateStr.slice(0, 4)), Number(dateStr.slice(5, 7)), 0));
+  return { fromDate: dateStr.slice(0, 8) + "01", toDate: formatYYYYMMDD(last) };
+}
 
-  const endOfSelected = new Date(dateStr + "T23:59:59.999Z");
+function fullYearRange(dateStr: string) {
+  const year = dateStr.slice(0, 4);
+  return { fromDate: `${year}-01-01`, toDate: `${year}-12-31` };
+}
 
+/** Revenue and covers of `fetch` summed over the given firmaids. */
+async function salesOf(
+  firmaIds: number[],
+  fetch: (firmaId: number) => Promise<{ revenue: number; covers: number }>
+) {
+  const results = await Promise.all(firmaIds.map(fetch));
   return {
-    fromUnix: toUnixSeconds(monday),
-    toUnix: toUnixSeconds(endOfSelected),
+    revenue: results.reduce((sum, r) => sum + Number(r?.revenue || 0), 0),
+    covers: results.reduce((sum, r) => sum + Number(r?.covers || 0), 0),
   };
 }
 
+function mapPeriods<T, V = number>(
+  source: Record<PeriodKey, T>,
+  fn: (value: T, key: PeriodKey) => V
+): Record<PeriodKey, V> {
+  const out = {} as Record<PeriodKey, V>;
+  for (const key of Object.keys(source) as PeriodKey[]) out[key] = fn(source[key], key);
+  return out;
+}
+
 /**
- * MonthToDate = 1st 00:00 -> selected date 23:59 (UTC)
+ * Transactions and BackOffice revenue of each period from the cached days
+ * only (the periods overlap, so they are read once for the whole span).
+ * A period with a missing day is null: a partial sum would compare as a drop.
  */
-function monthToDateUnixRange(dateStr: string) {
-  const d = new Date(dateStr + "T00:00:00.000Z");
-  const year = d.getUTCFullYear();
-  const month = d.getUTCMonth();
+function periodTransactions(locations: Location[], ranges: Record<PeriodKey, DateRange>) {
+  const all = Object.values(ranges);
+  const from = all.map((r) => r.fromDate).sort()[0];
+  const to = all.map((r) => r.toDate).sort()[all.length - 1];
+
+  const { days, missing } = cachedTransactions(locations, from, to);
+  const within = (r: DateRange, date: string) => date >= r.fromDate && date <= r.toDate;
+  const sum = (r: DateRange, field: "transactions" | "revenue") =>
+    days.filter((d) => within(r, d.date)).reduce((total, d) => total + d[field], 0);
+
+  const incomplete = (Object.keys(ranges) as PeriodKey[]).filter((key) =>
+    missing.some((date) => within(ranges[key], date))
+  );
+  const complete = (field: "transactions" | "revenue") =>
+    mapPeriods(ranges, (r, key) => (incomplete.includes(key) ? null : sum(r, field)));
 
-  const first = new Date(Date.UTC(year, month, 1, 0, 0, 0, 0));
-  const endOfSelected = new Date(dateStr + "T23:59:59.999Z");
+  return {
+    counts: complete("transactions"),
+    revenue: complete("revenue"),
+    missing: { days: missing.length, ranges: dateRanges(missing), periods: incomplete },
+  };
+}
+
+function metricKpis(v: MetricValues): MetricKpis {
+  const diff = (current: number | null, lastYear: number | null) =>
+    current === null || lastYear === null ? null : makeDiff(current, lastYear);
 
   return {
-    fromUnix: toUnixSeconds(first),
-    toUnix: toUnixSeconds(endOfSelected),
+    ...v,
+    comparisons: {
+      todayVsLastYearSameDay: diff(v.today, v.lastYearSameDay),
+      todayVsLastYearSameWeekday: diff(v.today, v.lastYearSameWeekday),
+
+      weekVsLastYearWeek: diff(v.week, v.lastYearWeek),
+      monthVsLastYearMonth: diff(v.month, v.lastYearMonth),
+      yearVsLastYearYear: diff(v.year, v.lastYearYear),
+    },
   };
 }
 
@@ -177,9 +277,17 @@ function makeDiff(current: number, lastYear: number): DiffBlock {
 
 kpisRouter.get("/", async (req, res) => {
   try {
-    const { dateStr, dateObj } = parseDateOrThrow(req.query.date as string);
+    const { dateStr } = parseDateOrThrow(req.query.date as string);
+
+    const scope = locationsParam(req.query.location, { allowAll: true });
+    if ("error" in scope) throw new Error(scope.error);
+
+    const location = scope.all ? ALL_LOCATIONS : scope.locations[0].id;
+    const firmaIds = scope.locations.map((l) => l.posFirmaId).filter((id): id is number => !!id);
+    if (firmaIds.length === 0) throw new Error(`No POS firmaid configured for location "${location}"`);
 
-    const cached = cache[dateStr];
+    const cacheKey = `${location}:${dateStr}`;
+    const cached = cache[cacheKey];
     if (cached && Date.now() - cached.savedAt < CACHE_TTL_MS) {
       const age = getCacheAgeSeconds(cached.savedAt);
       return res.json({
@@ -193,32 +301,19 @@ kpisRouter.get("/", async (req, res) => {
       });
     }
 
-    const month = dateObj.getMonth() + 1;
-    const year = dateObj.getFullYear();
-
     // Calendar same date last year
-    const lastYearSameDayDateObj = new Date(dateObj);
-    lastYearSameDayDateObj.setFullYear(dateObj.getFullYear() - 1);
-    const lastYearSameDayStr = formatYYYYMMDD(
-      new Date(
-        Date.UTC(
-          lastYearSameDayDateObj.getUTCFullYear(),
-          lastYearSameDayDateObj.getUTCMonth(),
-          lastYearSameDayDateObj.getUTCDate()
-        )
-      )
-    );
+    const lastYearSameDayStr = addYears(dateStr, -1);
 
     // ✅ Same weekday last year (52 weeks ago)
     const lastYearSameWeekdayStr = sameWeekdayLastYear(dateStr);
 
     // ✅ Week ranges (fix for week comparison)
-    const thisWeekRange = fullWeekUnixRange(dateStr);
-    const lastYearWeekRange = fullWeekUnixRange(lastYearSameWeekdayStr);
+    const thisWeekRange = fullWeekRange(dateStr);
+    const lastYearWeekRange = fullWeekRange(lastYearSameWeekdayStr);
 
-    // weekToDate / monthToDate unix ranges
-    const wtd = weekToDateUnixRange(dateStr);
-    const mtd = monthToDateUnixRange(dateStr);
+    // weekToDate / monthToDate ranges
+    const wtd = weekToDateRange(dateStr);
+    const mtd = monthToDateRange(dateStr);
 
     const [
       todayResp,
@@ -241,22 +336,26 @@ kpisRouter.get("/", async (req, res) => {
       lastYearMonthResp,
       lastYearYearResp,
     ] = await Promise.all([
-      getBasicSalesByDate(dateStr),
+      salesOf(firmaIds, (f) => getBasicSalesByDate(f, dateStr)),
 
-      getRevenueByUnixRange(thisWeekRange.fromUnix, thisWeekRange.toUnix),
-      getRevenueByUnixRange(lastYearWeekRange.fromUnix, lastYearWeekRange.toUnix),
+      salesOf(firmaIds, (f) =>
+        getRevenueByDateRange(f, thisWeekRange.fromDate, thisWeekRange.toDate)
+      ),
+      salesOf(firmaIds, (f) =>
+        getRevenueByDateRange(f, lastYearWeekRange.fromDate, lastYearWeekRange.toDate)
+      ),
 
-      getBasicSalesByMonth(month, year, dateStr),
-      getBasicSalesByYear(year, dateStr),
+      salesOf(firmaIds, (f) => getBasicSalesByMonth(f, dateStr)),
+      salesOf(firmaIds, (f) => getBasicSalesByYear(f, dateStr)),
 
-      getBasicSalesByDate(lastYearSameDayStr),
-      getBasicSalesByDate(lastYearSameWeekdayStr),
+      salesOf(firmaIds, (f) => getBasicSalesByDate(f, lastYearSameDayStr)),
+      salesOf(firmaIds, (f) => getBasicSalesByDate(f, lastYearSameWeekdayStr)),
 
-      getRevenueByUnixRange(wtd.fromUnix, wtd.toUnix),
-      getRevenueByUnixRange(mtd.fromUnix, mtd.toUnix),
+      salesOf(firmaIds, (f) => getRevenueByDateRange(f, wtd.fromDate, wtd.toDate)),
+      salesOf(firmaIds, (f) => getRevenueByDateRange(f, mtd.fromDate, mtd.toDate)),
 
-      getBasicSalesByMonth(month, year - 1, lastYearSameDayStr),
-      getBasicSalesByYear(year - 1, lastYearSameDayStr),
+      salesOf(firmaIds, (f) => getBasicSalesByMonth(f, lastYearSameDayStr)),
+      salesOf(firmaIds, (f) => getBasicSalesByYear(f, lastYearSameDayStr)),
     ]);
 
     const today = Number(todayResp?.revenue || 0);
@@ -278,8 +377,48 @@ kpisRouter.get("/", async (req, res) => {
     const lastYearMonthVal = Number(lastYearMonthResp?.revenue || 0);
     const lastYearYearVal = Number(lastYearYearResp?.revenue || 0);
 
+    const periodSales = {
+      today: todayResp,
+      week: weekResp,
+      month: monthResp,
+      year: yearResp,
+      lastYearSameDay: lastYearSameDayResp,
+      lastYearSameWeekday: lastYearSameWeekdayResp,
+      lastYearWeek: lastYearWeekResp,
+      lastYearMonth: lastYearMonthResp,
+      lastYearYear: lastYearYearResp,
+    };
+
+    const covers = metricKpis(mapPeriods(periodSales, (s) => s.covers));
+
+    // Transactions and average ticket: guests vs spend per guest
+    const tx = periodTransactions(
+      scope.locations.filter((l) => l.posFirmaId),
+      {
+        today: { fromDate: dateStr, toDate: dateStr },
+        week: thisWeekRange,
+        month: fullMonthRange(dateStr),
+        year: fullYearRange(dateStr),
+        lastYearSameDay: { fromDate: lastYearSameDayStr, toDate: lastYearSameDayStr },
+        lastYearSameWeekday: { fromDate: lastYearSameWeekdayStr, toDate: lastYearSameWeekdayStr },
+        lastYearWeek: lastYearWeekRange,
+        lastYearMonth: fullMonthRange(lastYearSameDayStr),
+        lastYearYear: fullYearRange(lastYearSameDayStr),
+      }
+    );
+
+    const transactions = metricKpis(tx.counts);
+    const averageTicket = metricKpis(
+      mapPeriods(tx.revenue, (revenue, key) => {
+        const count = tx.counts[key];
+        if (revenue === null || count === null) return null;
+        return count ? round(revenue / count) : 0;
+      })
+    );
+
     const liveResponse: KpiResponse = {
       date: dateStr,
+      location,
       revenue: {
         today,
 
@@ -315,14 +454,19 @@ kpisRouter.get("/", async (req, res) => {
         yearVsLastYearYear: makeDiff(yearVal, lastYearYearVal),
       },
 
+      transactions,
+      averageTicket,
+      covers,
+
       meta: {
         cached: false,
         cacheAgeSeconds: 0,
         source: "live",
+        transactionsMissing: tx.missing,
       },
     };
 
-    cache[dateStr] = { savedAt: Date.now(), data: liveResponse };
+    cache[cacheKey] = { savedAt: Date.now(), data: liveResponse };
 
     return res.json(liveResponse);
   } catch (err: any) {
@@ -0,0 +1,85 @@
+import { Router } from "express";
+import {
+  ALL_LOCATIONS,
+  deleteLocation,
+  getLocation,
+  listLocations,
+  saveLocation,
+} from "../locations/locations";
+
+export const locationsRouter = Router();
+
+/** Optional positive integer (firmaid, department id); undefined when invalid. */
+function optionalId(v: unknown): number | null | undefined {
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/* ================= LIST ================= */
+/**
+ * GET /api/locations
+ * Every location, the default (first) one first.
+ */
+locationsRouter.get("/", (_req, res) => {
+  res.json({ locations: listLocations() });
+});
+
+/* ================= SAVE ================= */
+/**
+ * PUT /api/locations/:id
+ * Body: { name, posFirmaId?, plandayDepartmentId? }. Creates or updates;
+ * ids are lowercase slugs ("aarhus", "cph-vesterbro").
+ */
+locationsRouter.put("/:id", (req, res) => {
+  const id = req.params.id;
+  const body = req.body ?? {};
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const posFirmaId = optionalId(body.posFirmaId);
+  const plandayDepartmentId = optionalId(body.plandayDepartmentId);
+
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(id) || id === ALL_LOCATIONS) {
+    return res.status(400).json({ ok: false, error: "id must be a lowercase slug, not \"all\"" });
+  }
+  if (!name) {
+    return res.status(400).json({ ok: false, error: "name is required" });
+  }
+  if (posFirmaId === undefined || plandayDepartmentId === undefined) {
+    return res.status(400).json({
+      ok: false,
+      error: "posFirmaId / plandayDepartmentId must be positive integers or null",
+    });
+  }
+
+  const created = !getLocation(id);
+  const location = saveLocation({ id, name, posFirmaId, plandayDepartmentId });
+  return res.status(created ? 201 : 200).json({ ok: true, location });
+});
+
+/* ================= DELETE ================= */
+/**
+ * DELETE /api/locations/:id
+ * Only locations without data (labor, POS, Wolt, daily inputs), and never
+ * the last one.
+ */
+locationsRouter.delete("/:id", async (req, res) => {
+  let result: Awaited<ReturnType<typeof deleteLocation>>;
+  try {
+    result = await deleteLocation(req.params.id);
+  } catch (err: any) {
+    console.error("DELETE /api/locations error:", err);
+    return res.status(500).json({ ok: false, error: err?.message ?? "Failed to check location data" });
+  }
+
+  if (result === "not_found") {
+    return res.status(404).json({ ok: false, error: "Location not found" });
+  }
+  if (result === "in_use") {
+    return res.status(409).json({ ok: false, error: "Location has labor, POS, Wolt or input data" });
+  }
+  if (result === "last") {
+    return res.status(409).json({ ok: false, error: "Cannot delete the only location" });
+  }
+
+  return res.json({ ok: true });
+});
@@ -1,52 +1,126 @@
 import { Router } from "express";
-import fetch from "node-fetch";
-import crypto from "crypto";
+import {
+  buildAuthorizeUrl,
+  consumeAuthState,
+  exchangeAuthorizationCode,
+  getConnectionStatus,
+  plandayGet,
+  verifyConnection,
+} from "../integrations/plandayAuth";
+import { syncPlandayShifts } from "../labor/plannedShifts";
+import { syncPlandayTimeAndCost } from "../labor/plandaySync";
+import { locationsParam } from "../locations/locations";
 
 export const plandayRouter = Router();
 
-const AUTHORIZE_URL = "https://id.planday.com/connect/authorize";
-const TOKEN_URL = "https://id.planday.com/connect/token";
-const API_BASE = "https://openapi.planday.com";
-
 /* ================= AUTHORIZE ================= */
 plandayRouter.get("/authorize", (_req, res) => {
-  const clientId = process.env.PLANDAY_CLIENT_ID!;
-  const redirectUri = process.env.PLANDAY_REDIRECT_URI!;
-  const scope = process.env.PLANDAY_SCOPE || "openid offline_access";
+  try {
+    res.redirect(buildAuthorizeUrl());
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message ?? "Planday authorize failed" });
+  }
+});
 
-  const state = crypto.randomBytes(16).toString("hex");
+/* ================= CALLBACK ================= */
+plandayRouter.get("/callback", async (req, res) => {
+  const code = typeof req.query.code === "string" ? req.query.code : "";
+  const state = typeof req.query.state === "string" ? req.query.state : "";
 
-  const url =
-    `${AUTHORIZE_URL}` +
-    `?response_type=code` +
-    `&client_id=${encodeURIComponent(clientId)}` +
-    `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-    `&scope=${encodeURIComponent(scope)}` +
-    `&state=${state}`;
+  if (!consumeAuthState(state)) {
+    return res.status(400).json({ ok: false, error: "Invalid or expired state" });
+  }
+  if (!code) {
+    return res.status(400).json({
+      ok: false,
+      error: (req.query.error as string) || "Missing code",
+    });
+  }
 
-  res.redirect(url);
+  try {
+    const status = await exchangeAuthorizationCode(code);
+    // Tokens stay server-side; only report that the connection works
+    return res.json({ ok: true, status });
+  } catch (err: any) {
+    console.error("GET /api/planday/callback error:", err);
+    return res.status(502).json({ ok: false, error: err?.message ?? "Token exchange failed" });
+  }
 });
 
-/* ================= CALLBACK ================= */
-plandayRouter.get("/callback", async (req, res) => {
-  const clientId = process.env.PLANDAY_CLIENT_ID!;
-  const clientSecret = process.env.PLANDAY_CLIENT_SECRET!;
-  const redirectUri = process.env.PLANDAY_REDIRECT_URI!;
-  const code = req.query.code as string;
-
-  const tokenRes = await fetch(TOKEN_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      grant_type: "authorization_code",
-      client_id: clientId,
-      client_secret: clientSecret,
-      redirect_uri: redirectUri,
-      code,
-    }),
-  });
-
-  res.json(await tokenRes.json());
+/* ================= STATUS ================= */
+/**
+ * GET /api/planday/status[?verify=1]
+ * verify=1 also obtains an access token to prove the connection works.
+ */
+plandayRouter.get("/status", async (req, res) => {
+  const verify = req.query.verify === "1" || req.query.verify === "true";
+  res.json(verify ? await verifyConnection() : getConnectionStatus());
+});
+
+/**
+ * location/departmentId/from/to query params shared by the sync endpoints.
+ * departmentId defaults to the location's Planday department.
+ */
+function syncRange(query: Record<string, unknown>) {
+  const scope = locationsParam(query.location);
+  if ("error" in scope) return { error: scope.error };
+
+  const location = scope.locations[0];
+  const departmentId = query.departmentId
+    ? Number(query.departmentId)
+    : location.plandayDepartmentId;
+  const from = typeof query.from === "string" ? query.from : "";
+  const to = typeof query.to === "string" ? query.to : from;
+
+  if (!Number.isInteger(departmentId) || departmentId <= 0) {
+    return { error: `departmentId is required (location "${location.id}" has none)` };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    return { error: "from/to must be YYYY-MM-DD" };
+  }
+  if (from > to) {
+    return { error: "from must be <= to" };
+  }
+
+  return { location, departmentId, from, to };
+}
+
+/* ================= TIME & COST SYNC ================= */
+/**
+ * POST /api/planday/sync?from=YYYY-MM-DD&to=YYYY-MM-DD[&location=][&departmentId=123]
+ * Pulls time & cost entries into the location's labor (see labor/plandaySync.ts).
+ */
+plandayRouter.post("/sync", async (req, res) => {
+  const range = syncRange(req.query);
+  if ("error" in range) return res.status(400).json({ ok: false, error: range.error });
+
+  try {
+    const { location, departmentId, from, to } = range;
+    const result = await syncPlandayTimeAndCost(location.id, departmentId, from, to);
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("POST /api/planday/sync error:", err);
+    return res.status(502).json({ ok: false, error: err?.message ?? "Planday sync failed" });
+  }
+});
+
+/* ================= SHIFT (SCHEDULE) SYNC ================= */
+/**
+ * POST /api/planday/shifts/sync?from=YYYY-MM-DD&to=YYYY-MM-DD[&location=][&departmentId=123]
+ * Pulls scheduled shifts for projected labor cost (see labor/plannedShifts.ts).
+ */
+plandayRouter.post("/shifts/sync", async (req, res) => {
+  const range = syncRange(req.query);
+  if ("error" in range) return res.status(400).json({ ok: false, error: range.error });
+
+  try {
+    const { location, departmentId, from, to } = range;
+    const result = await syncPlandayShifts(location.id, departmentId, from, to);
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("POST /api/planday/shifts/sync error:", err);
+    return res.status(502).json({ ok: false, error: err?.message ?? "Planday shift sync failed" });
+  }
 });
 
 /* ================= SALARY KPI (RAW TIME & COST DEBUG) ================= */
@@ -54,53 +128,28 @@ plandayRouter.get("/salary-kpi", async (req, res) => {
   const departmentId = req.query.departmentId as string;
   const date = req.query.date as string;
 
-  const clientId = process.env.PLANDAY_CLIENT_ID!;
-  const clientSecret = process.env.PLANDAY_CLIENT_SECRET!;
-  const refreshToken = process.env.PLANDAY_REFRESH_TOKEN!;
-
-  /* ---- access token ---- */
-  const tokenRes = await fetch(TOKEN_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      grant_type: "refresh_token",
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-    }),
-  });
-
-  const tokenJson: any = await tokenRes.json();
-  const accessToken = tokenJson.access_token;
-
-  /* ---- time & cost ---- */
-  const costRes = await fetch(
-    `${API_BASE}/timeandcost/v1.0/entries?departmentId=${departmentId}&from=${date}&to=${date}`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "X-ClientId": clientId,
-      },
+  try {
+    const data = await plandayGet(
+      `/timeandcost/v1.0/entries?departmentId=${departmentId}&from=${date}&to=${date}`
+    );
+
+    if (!data) {
+      return res.json({
+        date,
+        departmentId: Number(departmentId),
+        rawRows: [],
+        note: "No time & cost data or HTML response",
+      });
     }
-  );
 
-  const text = await costRes.text();
-
-  if (!text || text.startsWith("<")) {
+    /* ---- RETURN RAW ROWS FOR FIELD INSPECTION ---- */
     return res.json({
       date,
       departmentId: Number(departmentId),
-      rawRows: [],
-      note: "No time & cost data or HTML response",
+      rawRows: data.data,
     });
+  } catch (err: any) {
+    console.error("GET /api/planday/salary-kpi error:", err);
+    return res.status(502).json({ error: err?.message ?? "Planday request failed" });
   }
-
-  const data = JSON.parse(text);
-
-  /* ---- RETURN RAW ROWS FOR FIELD INSPECTION ---- */
-  return res.json({
-    date,
-    departmentId: Number(departmentId),
-    rawRows: data.data,
-  });
 });
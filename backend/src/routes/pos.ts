@@ -1,4 +1,18 @@
-import express from "express";
+﻿import express from "express";
+import {
+  dayRangeUnix,
+  getBackOfficeBasicSales,
+  getKoncernRevenue,
+} from "../integrations/posOnline";
+import {
+  getBackOfficeSessionStatus,
+  refreshBackOfficeSession,
+  verifyBackOfficeSession,
+  withBackOfficeSession,
+} from "../integrations/posBackOffice";
+import { businessToday } from "../utils/businessCalendar";
+import { MAX_HOURLY_RANGE_DAYS, hourlySales, hourlySalesRange } from "../pos/hourlySales";
+import { locationsParam, requirePosFirmaId } from "../locations/locations";
 
 export const posRouter = express.Router();
 
@@ -8,45 +22,26 @@ export const posRouter = express.Router();
  *
  * Required headers:
  *  - token: POS_API_TOKEN
- *  - firmaid: POS_FIRMAID
+ *  - firmaid: the location's POS firmaid (locations/locations.ts)
+ *
+ * Every route takes ?location=<id> (default: the default location);
+ * revenue and revenue-range also take location=all.
  *
  * Routes:
  * ✅ GET /api/pos/revenue?date=YYYY-MM-DD
  * ✅ GET /api/pos/revenue-range?from=YYYY-MM-DD&to=YYYY-MM-DD
  * ✅ GET /api/pos/today-live?date=YYYY-MM-DD  (BackOffice real live sales)
+ * ✅ GET /api/pos/hourly?date=YYYY-MM-DD       (revenue/covers per hour)
+ * ✅ GET /api/pos/hourly-range?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * ✅ GET /api/pos/session[?verify=1]            (BackOffice session health)
+ * ✅ POST /api/pos/session/refresh              (BackOffice login now)
  *
  * Important:
  * - Koncern endpoint returns ALL firmaids (all locations)
- * - We MUST filter only POS_FIRMAID (your store) to avoid insane totals.
+ * - We MUST filter to the requested locations' firmaids to avoid insane totals.
+ *   The POS Online client (integrations/posOnline.ts) does the filtering.
  */
 
-function todayIso(): string {
-  return new Date().toISOString().slice(0, 10);
-}
-
-function toUnixSeconds(dateIso: string, endOfDay: boolean): number {
-  // IMPORTANT:
-  // Do NOT force UTC by using "Z".
-  // POS Online "daily revenue" is based on local Denmark time.
-  const d = new Date(`${dateIso}T00:00:00`);
-  if (Number.isNaN(d.getTime())) return 0;
-
-  if (endOfDay) {
-    d.setHours(23, 59, 59, 999);
-  }
-
-  return Math.floor(d.getTime() / 1000);
-}
-
-function nowUnixSeconds(): number {
-  return Math.floor(Date.now() / 1000);
-}
-
-function parseRevenue(value: any): number {
-  const n = Number(value);
-  return Number.isFinite(n) ? n : 0;
-}
-
 function safeRawSummary(raw: any) {
   const isArray = Array.isArray(raw);
   const rawType = isArray ? "array" : typeof raw;
@@ -63,52 +58,37 @@ function safeRawSummary(raw: any) {
   return { rawType, rawKeys, rawPreview };
 }
 
-async function fetchKoncernRevenue(fromUnix: number, toUnix: number) {
-  const token = process.env.POS_API_TOKEN;
-  const firmaid = process.env.POS_FIRMAID;
-
-  if (!token) throw new Error("Missing POS_API_TOKEN");
-  if (!firmaid) throw new Error("Missing POS_FIRMAID");
-
-  const url = `https://api.onlinepos.dk/api/koncern/getKoncernRevenue/${fromUnix}/${toUnix}`;
+/** BackOffice venue (POS firmaid) of the ?location= location, or an error for a 400. */
+function venueParam(param: unknown) {
+  const scope = locationsParam(param);
+  if ("error" in scope) return scope;
 
-  const r = await fetch(url, {
-    method: "GET",
-    headers: {
-      token: token,
-      firmaid: String(firmaid),
-      Accept: "application/json",
-    },
-  });
-
-  if (!r.ok) {
-    const text = await r.text();
-    throw new Error(
-      `POS Online API request failed (${r.status}): ${text || "no body"}`
-    );
+  const [location] = scope.locations;
+  try {
+    return { location, venue: requirePosFirmaId(location) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
   }
+}
 
-  const data: any = await r.json();
+/** Firmaids of the ?location= locations, or an error for a 400. */
+function firmaIdsParam(param: unknown) {
+  const scope = locationsParam(param, { allowAll: true });
+  if ("error" in scope) return scope;
 
-  // POS sometimes returns:
-  // - { entries: [...] }
-  // - [] (empty array)
-  const entries = Array.isArray(data?.entries)
-    ? data.entries
-    : Array.isArray(data)
-    ? data
-    : [];
+  const firmaIds = scope.locations.map((l) => l.posFirmaId).filter((id): id is number => !!id);
+  if (firmaIds.length === 0) return { error: "No POS firmaid configured for the location" };
 
-  return { url, data, entries };
+  return { firmaIds };
 }
 
 /**
  * ✅ GET /api/pos/revenue?date=YYYY-MM-DD
- * Returns revenue for that day (only POS_FIRMAID)
+ * Returns revenue for that day (only the location's firmaids)
  *
  * NOTE:
- * - If date is today, query 00:00 -> NOW to get "live" revenue (if endpoint supports it).
- * - If date is past day, query 00:00 -> 23:59.
+ * - Days are business days: Copenhagen time from BUSINESS_DAY_CUTOFF to the next cutoff.
+ * - If date is today, query cutoff -> NOW to get "live" revenue (if endpoint supports it).
  */
 posRouter.get("/revenue", async (req, res) => {
   try {
@@ -118,40 +98,24 @@ posRouter.get("/revenue", async (req, res) => {
       return res.status(400).json({ error: "date must be YYYY-MM-DD" });
     }
 
-    const firmaid = process.env.POS_FIRMAID;
-    if (!firmaid) {
-      return res.status(500).json({ error: "Missing POS_FIRMAID" });
-    }
-    const targetFirmaId = Number(firmaid);
+    const target = firmaIdsParam(req.query.location);
+    if ("error" in target) return res.status(400).json({ error: target.error });
 
-    const from = toUnixSeconds(date, false);
-    const to = date === todayIso() ? nowUnixSeconds() : toUnixSeconds(date, true);
-
-    const { url, data, entries } = await fetchKoncernRevenue(from, to);
-
-    // ✅ Filter to only this firmaid (your store)
-    const filtered = entries.filter((x: any) => {
-      const fid = Number(x?.entry?.firmaid);
-      return Number.isFinite(fid) && fid === targetFirmaId;
-    });
-
-    const posSalesTotal = filtered.reduce((acc: number, x: any) => {
-      const revenue = parseRevenue(x?.entry?.revenue);
-      return acc + revenue;
-    }, 0);
+    const { fromUnix: from, toUnix: to } = dayRangeUnix(date, date, { liveToNow: true });
+    const pos = await getKoncernRevenue(target.firmaIds, from, to);
 
     return res.json({
       ok: true,
       date,
       from,
       to,
-      url,
-      posSalesTotal,
-      entriesCount: filtered.length,
-      targetFirmaId,
-      liveToNow: date === todayIso(),
-      rawSummary: safeRawSummary(data),
-      raw: data,
+      url: pos.url,
+      posSalesTotal: pos.revenue,
+      entriesCount: pos.entries.length,
+      targetFirmaIds: pos.targetFirmaIds,
+      liveToNow: date === businessToday(),
+      rawSummary: safeRawSummary(pos.raw),
+      raw: pos.raw,
     });
   } catch (err: any) {
     console.error("GET /api/pos/revenue error:", err);
@@ -161,7 +125,7 @@ posRouter.get("/revenue", async (req, res) => {
 
 /**
  * ✅ GET /api/pos/revenue-range?from=YYYY-MM-DD&to=YYYY-MM-DD
- * Returns revenue across a date range (only POS_FIRMAID)
+ * Returns revenue across a date range (only the location's firmaids)
  */
 posRouter.get("/revenue-range", async (req, res) => {
   try {
@@ -179,28 +143,11 @@ posRouter.get("/revenue-range", async (req, res) => {
       return res.status(400).json({ error: "from must be <= to" });
     }
 
-    const firmaid = process.env.POS_FIRMAID;
-    if (!firmaid) {
-      return res.status(500).json({ error: "Missing POS_FIRMAID" });
-    }
-    const targetFirmaId = Number(firmaid);
-
-    const fromUnix = toUnixSeconds(fromDate, false);
-    const toUnix =
-      toDate === todayIso() ? nowUnixSeconds() : toUnixSeconds(toDate, true);
-
-    const { url, data, entries } = await fetchKoncernRevenue(fromUnix, toUnix);
+    const target = firmaIdsParam(req.query.location);
+    if ("error" in target) return res.status(400).json({ error: target.error });
 
-    // ✅ Filter to only this firmaid (your store)
-    const filtered = entries.filter((x: any) => {
-      const fid = Number(x?.entry?.firmaid);
-      return Number.isFinite(fid) && fid === targetFirmaId;
-    });
-
-    const posSalesTotal = filtered.reduce((acc: number, x: any) => {
-      const revenue = parseRevenue(x?.entry?.revenue);
-      return acc + revenue;
-    }, 0);
+    const { fromUnix, toUnix } = dayRangeUnix(fromDate, toDate, { liveToNow: true });
+    const pos = await getKoncernRevenue(target.firmaIds, fromUnix, toUnix);
 
     return res.json({
       ok: true,
@@ -208,12 +155,12 @@ posRouter.get("/revenue-range", async (req, res) => {
       toDate,
       fromUnix,
       toUnix,
-      url,
-      posSalesTotal,
-      entriesCount: filtered.length,
-      targetFirmaId,
-      liveToNow: toDate === todayIso(),
-      rawSummary: safeRawSummary(data),
+      url: pos.url,
+      posSalesTotal: pos.revenue,
+      entriesCount: pos.entries.length,
+      targetFirmaIds: pos.targetFirmaIds,
+      liveToNow: toDate === businessToday(),
+      rawSummary: safeRawSummary(pos.raw),
     });
   } catch (err: any) {
     console.error("GET /api/pos/revenue-range error:", err);
@@ -224,79 +171,114 @@ posRouter.get("/revenue-range", async (req, res) => {
 });
 
 /**
- * ✅ GET /api/pos/today-live?date=YYYY-MM-DD
- * Uses POS BackOffice endpoint (rest.onlinepos.dk) which DOES return live revenue.
- *
- * IMPORTANT:
- * This requires session cookie + XSRF token from BackOffice.
- * (We are temporarily reading these from env vars.)
+ * ✅ GET /api/pos/hourly?date=YYYY-MM-DD
+ * Revenue and covers per hour of the business day (from the day cutoff).
+ * Transactions are not counted per hour by POS Online: `transactions` is
+ * null with the reason in `transactionsUnavailable`.
+ * Finished days come from cache after the first request.
  */
-posRouter.get("/today-live", async (req, res) => {
+posRouter.get("/hourly", async (req, res) => {
   try {
     const date = typeof req.query.date === "string" ? req.query.date : "";
 
     if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       return res.status(400).json({ error: "date must be YYYY-MM-DD" });
     }
+    if (date > businessToday()) {
+      return res.status(400).json({ error: "date must not be in the future" });
+    }
+
+    const scope = locationsParam(req.query.location);
+    if ("error" in scope) return res.status(400).json({ error: scope.error });
+
+    return res.json({ ok: true, ...(await hourlySales(scope.locations[0], date)) });
+  } catch (err: any) {
+    console.error("GET /api/pos/hourly error:", err);
+    return res.status(500).json({ error: err?.message ?? "POS hourly crashed" });
+  }
+});
 
-    const POS_BO_COOKIE = process.env.POS_BO_COOKIE;
-    const POS_BO_XSRF = process.env.POS_BO_XSRF;
+/**
+ * ✅ GET /api/pos/hourly-range?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Hourly sales of each day plus the average revenue/covers per clock hour.
+ */
+posRouter.get("/hourly-range", async (req, res) => {
+  try {
+    const fromDate = typeof req.query.from === "string" ? req.query.from : "";
+    const toDate = typeof req.query.to === "string" ? req.query.to : "";
 
-    if (!POS_BO_COOKIE) {
-      return res.status(500).json({ error: "Missing POS_BO_COOKIE env var" });
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fromDate) || !/^\d{4}-\d{2}-\d{2}$/.test(toDate)) {
+      return res.status(400).json({ error: "from/to must be YYYY-MM-DD" });
+    }
+    if (fromDate > toDate) {
+      return res.status(400).json({ error: "from must be <= to" });
     }
-    if (!POS_BO_XSRF) {
-      return res.status(500).json({ error: "Missing POS_BO_XSRF env var" });
+    if (toDate > businessToday()) {
+      return res.status(400).json({ error: "to must not be in the future" });
     }
 
-    const venue = process.env.POS_FIRMAID || "16973";
-
-    const url = `https://rest.onlinepos.dk/reports/getBasicSales?target=venue@${venue}&date=${date}`;
+    const days =
+      (Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / 86400000 + 1;
+    if (days > MAX_HOURLY_RANGE_DAYS) {
+      return res
+        .status(400)
+        .json({ error: `At most ${MAX_HOURLY_RANGE_DAYS} days per request` });
+    }
 
-    const decodedCookie = POS_BO_COOKIE.replaceAll("%3D", "=").replaceAll(
-      "%2B",
-      "+"
-    );
+    const scope = locationsParam(req.query.location);
+    if ("error" in scope) return res.status(400).json({ error: scope.error });
 
-    const r = await fetch(url, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-        Cookie: decodedCookie,
-        "x-xsrf-token": POS_BO_XSRF,
-        "X-Requested-With": "XMLHttpRequest",
-        Origin: "https://bo.onlinepos.dk",
-        Referer: "https://bo.onlinepos.dk/",
-      },
+    return res.json({
+      ok: true,
+      ...(await hourlySalesRange(scope.locations[0], fromDate, toDate)),
     });
+  } catch (err: any) {
+    console.error("GET /api/pos/hourly-range error:", err);
+    return res.status(500).json({ error: err?.message ?? "POS hourly-range crashed" });
+  }
+});
 
-    const text = await r.text();
-    let json: any = null;
-    try {
-      json = JSON.parse(text);
-    } catch {
-      json = { raw: text };
+/**
+ * ✅ GET /api/pos/today-live?date=YYYY-MM-DD
+ * Uses POS BackOffice endpoint (rest.onlinepos.dk) which DOES return live revenue.
+ *
+ * IMPORTANT:
+ * This requires session cookie + XSRF token from BackOffice. The session
+ * manager (integrations/posBackOffice.ts) logs in and refreshes them.
+ */
+posRouter.get("/today-live", async (req, res) => {
+  try {
+    const date = typeof req.query.date === "string" ? req.query.date : "";
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: "date must be YYYY-MM-DD" });
     }
 
-    if (!r.ok) {
-      return res.status(r.status).json({
+    const target = venueParam(req.query.location);
+    if ("error" in target) return res.status(400).json({ error: target.error });
+
+    const { location, venue } = target;
+    const sales = await withBackOfficeSession((session) =>
+      getBackOfficeBasicSales(venue, date, session)
+    );
+
+    if (!sales.ok) {
+      return res.status(sales.status).json({
         error: "POS BackOffice getBasicSales failed",
-        status: r.status,
-        url,
-        response: json,
+        status: sales.status,
+        url: sales.url,
+        response: sales.raw,
       });
     }
 
-    const revenue = Number(json?.data?.revenue) || 0;
-    const transactionCount = Number(json?.data?.transaction_count) || 0;
-
     return res.json({
       ok: true,
       date,
-      venue: Number(venue),
-      revenue,
-      transactionCount,
-      raw: json,
+      locationId: location.id,
+      venue,
+      revenue: sales.revenue,
+      transactionCount: sales.transactionCount,
+      raw: sales.raw,
     });
   } catch (err: any) {
     console.error("GET /api/pos/today-live error:", err);
@@ -305,3 +287,41 @@ posRouter.get("/today-live", async (req, res) => {
     });
   }
 });
+
+/**
+ * ✅ GET /api/pos/session[?verify=1]
+ * BackOffice session health. verify=1 also makes one BackOffice call
+ * (logging in first when needed) for the ?location= venue to prove the
+ * session works.
+ */
+posRouter.get("/session", async (req, res) => {
+  const verify = req.query.verify === "1" || req.query.verify === "true";
+  if (!verify) return res.json(getBackOfficeSessionStatus());
+
+  const target = venueParam(req.query.location);
+  if ("error" in target) return res.status(400).json({ error: target.error });
+
+  res.json(
+    await verifyBackOfficeSession((session) =>
+      getBackOfficeBasicSales(target.venue, businessToday(), session)
+    )
+  );
+});
+
+/**
+ * ✅ POST /api/pos/session/refresh
+ * Logs in to BackOffice now and stores the new session.
+ */
+posRouter.post("/session/refresh", async (_req, res) => {
+  try {
+    await refreshBackOfficeSession();
+    return res.json({ ok: true, status: getBackOfficeSessionStatus() });
+  } catch (err: any) {
+    console.error("POST /api/pos/session/refresh error:", err);
+    return res.status(502).json({
+      ok: false,
+      error: err?.message ?? "BackOffice login failed",
+      status: getBackOfficeSessionStatus(),
+    });
+  }
+});
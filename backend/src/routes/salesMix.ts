@@ -0,0 +1,153 @@
+import { Router } from "express";
+import {
+  MAX_MIX_RANGE_DAYS,
+  MIX_COMPARES,
+  MixCompare,
+  categoryMix,
+  compareRange,
+  missingProductSalesDays,
+  mixChanges,
+  topSellers,
+} from "../pos/productSales";
+import { createBackfillJob } from "../pos/backfill";
+import { locationsParam } from "../locations/locations";
+import { addDays, businessToday } from "../utils/businessCalendar";
+
+export const salesMixRouter = Router();
+
+/**
+ * Product and category sales mix (pos/productSales.ts). Every route takes
+ * from/to (YYYY-MM-DD) and ?location=<id>|all. Reports only read what
+ * the nightly and backfill imports stored; `missing` lists the days
+ * without a final import.
+ */
+
+/** location/from/to query params shared by the routes. */
+function mixRange(query: Record<string, unknown>) {
+  const scope = locationsParam(query.location, { allowAll: true });
+  if ("error" in scope) return { error: scope.error };
+
+  const locations = scope.locations.filter((l) => l.posFirmaId);
+  if (locations.length === 0) return { error: "No POS firmaid configured for the location" };
+
+  const from = typeof query.from === "string" ? query.from : "";
+  const to = typeof query.to === "string" ? query.to : from;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    return { error: "from/to must be YYYY-MM-DD" };
+  }
+  if (from > to) {
+    return { error: "from must be <= to" };
+  }
+  if (addDays(from, MAX_MIX_RANGE_DAYS - 1) < to) {
+    return { error: `Range is limited to ${MAX_MIX_RANGE_DAYS} days` };
+  }
+
+  return { locationIds: locations.map((l) => l.id), from, to };
+}
+
+function limitParam(v: unknown, fallback: number) {
+  return Math.min(100, Math.max(1, Number(v) || fallback));
+}
+
+/* ================= TOP SELLERS ================= */
+/**
+ * GET /api/sales-mix/top?from=&to=[&location=][&by=revenue|quantity][&category=][&limit=10]
+ */
+salesMixRouter.get("/top", (req, res) => {
+  const range = mixRange(req.query);
+  if ("error" in range) return res.status(400).json({ error: range.error });
+
+  const by = req.query.by === "quantity" ? "quantity" : "revenue";
+  const category = typeof req.query.category === "string" && req.query.category
+    ? req.query.category
+    : undefined;
+
+  return res.json({
+    locations: range.locationIds,
+    ...topSellers(range.locationIds, range.from, range.to, {
+      limit: limitParam(req.query.limit, 10),
+      by,
+      category,
+    }),
+    missing: missingProductSalesDays(range.locationIds, range.from, range.to),
+  });
+});
+
+/* ================= CATEGORIES ================= */
+/**
+ * GET /api/sales-mix/categories?from=&to=[&location=]
+ * Revenue and share of revenue per category.
+ */
+salesMixRouter.get("/categories", (req, res) => {
+  const range = mixRange(req.query);
+  if ("error" in range) return res.status(400).json({ error: range.error });
+
+  return res.json({
+    locations: range.locationIds,
+    ...categoryMix(range.locationIds, range.from, range.to),
+    missing: missingProductSalesDays(range.locationIds, range.from, range.to),
+  });
+});
+
+/* ================= CHANGES ================= */
+/**
+ * GET /api/sales-mix/changes?from=&to=[&location=][&compare=previous|lastYear][&limit=10]
+ * Category and product mix against the days just before (previous) or
+ * 52 weeks earlier (lastYear); products are the `limit` largest movers.
+ * compareMissing lists the missing days of the compared range.
+ */
+salesMixRouter.get("/changes", (req, res) => {
+  const range = mixRange(req.query);
+  if ("error" in range) return res.status(400).json({ error: range.error });
+
+  const compare = (req.query.compare ?? "previous") as MixCompare;
+  if (!MIX_COMPARES.includes(compare)) {
+    return res.status(400).json({ error: `compare must be one of ${MIX_COMPARES.join(", ")}` });
+  }
+
+  const prev = compareRange(range.from, range.to, compare);
+
+  return res.json({
+    locations: range.locationIds,
+    ...mixChanges(
+      range.locationIds,
+      range.from,
+      range.to,
+      compare,
+      limitParam(req.query.limit, 10)
+    ),
+    missing: missingProductSalesDays(range.locationIds, range.from, range.to),
+    compareMissing: missingProductSalesDays(range.locationIds, prev.from, prev.to),
+  });
+});
+
+/* ================= IMPORT ================= */
+/**
+ * POST /api/sales-mix/import?from=&to=[&location=][&force=0]
+ * Starts a product sales backfill job per location (pos/backfill.ts,
+ * kind product_sales) for the range up to today; every day is refetched
+ * unless force=0. Answers 202 with the jobs.
+ */
+salesMixRouter.post("/import", (req, res) => {
+  const range = mixRange(req.query);
+  if ("error" in range) return res.status(400).json({ ok: false, error: range.error });
+
+  const today = businessToday();
+  if (range.from > today) {
+    return res.status(400).json({ ok: false, error: "from must not be in the future" });
+  }
+
+  const to = range.to < today ? range.to : today;
+  const force = req.query.force !== "0" && req.query.force !== "false";
+
+  try {
+    const jobs = range.locationIds.map((id) =>
+      createBackfillJob(id, range.from, to, force, "product_sales")
+    );
+    return res.status(202).json({ ok: true, from: range.from, to, jobs });
+  } catch (err: any) {
+    console.error("POST /api/sales-mix/import error:", err);
+    return res.status(500).json({ ok: false, error: err?.message ?? "Product sales import failed" });
+  }
+});
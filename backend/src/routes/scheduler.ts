@@ -0,0 +1,61 @@
+import { Router } from "express";
+import {
+  SOURCE_NAMES,
+  SourceName,
+  listRuns,
+  runSource,
+  schedulerStatus,
+} from "../scheduler/nightlyImports";
+
+export const schedulerRouter = Router();
+
+/* ================= STATUS ================= */
+/**
+ * GET /api/scheduler/status
+ * Timer state, next run and per source: configured or why not,
+ * last run and last successful run.
+ */
+schedulerRouter.get("/status", (_req, res) => {
+  res.json(schedulerStatus());
+});
+
+/* ================= RUNS ================= */
+/**
+ * GET /api/scheduler/runs[?source=pos|pos-transactions|pos-products|planday|wolt][&limit=50]
+ * Recorded runs, newest first.
+ */
+schedulerRouter.get("/runs", (req, res) => {
+  const source = typeof req.query.source === "string" ? req.query.source : undefined;
+  if (source && !SOURCE_NAMES.includes(source as SourceName)) {
+    return res.status(400).json({ error: `source must be one of ${SOURCE_NAMES.join(", ")}` });
+  }
+
+  const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 50));
+  res.json({ runs: listRuns(source as SourceName | undefined, limit) });
+});
+
+/**
+ * POST /api/scheduler/run?source=pos|pos-transactions|pos-products|planday|wolt&date=YYYY-MM-DD
+ * Runs one source for one business day now (recorded as a manual run).
+ */
+schedulerRouter.post("/run", async (req, res) => {
+  const source = typeof req.query.source === "string" ? req.query.source : "";
+  const date = typeof req.query.date === "string" ? req.query.date : "";
+
+  if (!SOURCE_NAMES.includes(source as SourceName)) {
+    return res
+      .status(400)
+      .json({ ok: false, error: `source must be one of ${SOURCE_NAMES.join(", ")}` });
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ ok: false, error: "date must be YYYY-MM-DD" });
+  }
+
+  try {
+    const run = await runSource(source as SourceName, date, "manual");
+    return res.status(run.status === "ok" ? 200 : 502).json({ ok: run.status === "ok", run });
+  } catch (err: any) {
+    console.error("POST /api/scheduler/run error:", err);
+    return res.status(500).json({ ok: false, error: err?.message ?? "Run failed" });
+  }
+});
@@ -0,0 +1,21 @@
+import { db } from "../db/sqlite";
+
+export { db };
+
+// Nightly imports, one row per attempt (see nightlyImports.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS scheduler_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,              -- pos | planday | wolt
+    business_date TEXT NOT NULL,       -- day imported
+    trigger TEXT NOT NULL,             -- schedule | catchup | manual
+    status TEXT NOT NULL,              -- running | ok | failed
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    error TEXT,
+    result TEXT                        -- JSON summary
+  );
+
+  CREATE INDEX IF NOT EXISTS scheduler_runs_source_date
+    ON scheduler_runs (source, business_date);
+`);
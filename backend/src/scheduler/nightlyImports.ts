@@ -0,0 +1,342 @@
+import { db } from "./db";
+import { supabase } from "../db/supabaseClient";
+import { getConnectionStatus } from "../integrations/plandayAuth";
+import { getBackOfficeSessionStatus } from "../integrations/posBackOffice";
+import { syncPlandayTimeAndCost } from "../labor/plandaySync";
+import { Location, listLocations } from "../locations/locations";
+import { providerMode } from "../providers/providerMode";
+import { importPosDay } from "../pos/posImport";
+import { importProductSales } from "../pos/productSales";
+import { importTransactionDay } from "../pos/transactions";
+import {
+  TIME_ZONE,
+  addDays,
+  businessDateOf,
+  businessDayCutoff,
+  localTimeToMs,
+} from "../utils/businessCalendar";
+import { envNumber } from "../utils/env";
+
+/**
+ * Nightly imports: every configured source imports the previous business
+ * day once it is over, at NIGHTLY_IMPORT_TIME (Copenhagen, default 06:00),
+ * for each location it is set up for (POS firmaid, Planday department).
+ *
+ * Every attempt is a scheduler_runs row. Each minute the scheduler looks at
+ * the last SCHEDULER_CATCHUP_DAYS (default 7) due days and runs whatever has
+ * no successful run yet, oldest first, so days missed while the server was
+ * down are caught up. Days before the scheduler's first run are left to
+ * the backfill. A failed day is retried every 30 minutes, at most 3 times.
+ *
+ * SCHEDULER_ENABLED=0 turns the timer off; runs can still be started
+ * by hand through /api/scheduler/run.
+ */
+
+export type SourceName = "pos" | "pos-transactions" | "pos-products" | "planday" | "wolt";
+export type RunTrigger = "schedule" | "catchup" | "manual";
+
+type ImportSource = {
+  name: SourceName;
+  /** Why the source cannot run, or null when it is configured. */
+  unavailable: () => string | null;
+  run: (date: string) => Promise<unknown>;
+};
+
+export type SchedulerRun = {
+  id: number;
+  source: SourceName;
+  businessDate: string;
+  trigger: RunTrigger;
+  status: "running" | "ok" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+  result: unknown;
+};
+
+const TICK_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_AFTER_MS = 30 * 60 * 1000;
+
+/**
+ * Runs `run` for every location; the results per location id. Throws
+ * after all locations were tried when any of them failed.
+ */
+async function forEachLocation(
+  locations: Location[],
+  run: (location: Location) => Promise<unknown>
+) {
+  const results: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const location of locations) {
+    try {
+      results[location.id] = await run(location);
+    } catch (err: any) {
+      errors.push(`${location.id}: ${err?.message ?? err}`);
+    }
+  }
+
+  if (errors.length) throw new Error(errors.join("; "));
+  return results;
+}
+
+const posLocations = () => listLocations().filter((l) => l.posFirmaId);
+const plandayLocations = () => listLocations().filter((l) => l.plandayDepartmentId);
+
+/* ================= SOURCES ================= */
+
+const SOURCES: ImportSource[] = [
+  {
+    name: "pos",
+    unavailable: () => {
+      if (providerMode("pos") === "live" && !process.env.POS_API_TOKEN) {
+        return "POS_API_TOKEN not set";
+      }
+      if (posLocations().length === 0) return "No location has a POS firmaid";
+      return supabase ? null : "Supabase is disabled";
+    },
+    run: (date) =>
+      forEachLocation(posLocations(), async (location) => {
+        const { pos, final } = await importPosDay(location, date);
+        return { revenue: pos.revenue, entries: pos.entries.length, final };
+      }),
+  },
+  {
+    name: "pos-transactions",
+    unavailable: () => {
+      if (posLocations().length === 0) return "No location has a POS firmaid";
+      if (providerMode("pos") !== "live") return null;
+      const bo = getBackOfficeSessionStatus();
+      return bo.configured || bo.sessionSource !== "none"
+        ? null
+        : "POS BackOffice is not configured (POS_BO_USERNAME / POS_BO_PASSWORD)";
+    },
+    run: (date) =>
+      forEachLocation(posLocations(), async (location) => {
+        const { transactions, revenue } = await importTransactionDay(location, date);
+        return { transactions, revenue };
+      }),
+  },
+  {
+    name: "pos-products",
+    unavailable: () => {
+      if (posLocations().length === 0) return "No location has a POS firmaid";
+      if (providerMode("pos") !== "live") return null;
+      if (!process.env.POS_API_TOKEN) return "POS_API_TOKEN not set";
+      return process.env.POS_PRODUCT_SALES_PATH ? null : "POS_PRODUCT_SALES_PATH not set";
+    },
+    run: (date) =>
+      forEachLocation(posLocations(), async (location) => {
+        const { products, revenue, final } = await importProductSales(location, date);
+        return { products, revenue, final };
+      }),
+  },
+  {
+    name: "planday",
+    unavailable: () => {
+      if (plandayLocations().length === 0) return "No location has a Planday department";
+      if (providerMode("planday") !== "live") return null;
+      return getConnectionStatus().connected ? null : "Planday is not connected";
+    },
+    run: (date) =>
+      forEachLocation(plandayLocations(), (location) =>
+        syncPlandayTimeAndCost(location.id, location.plandayDepartmentId, date, date)
+      ),
+  },
+  {
+    name: "wolt",
+    unavailable: () => "No Wolt API integration; import Wolt reports (POST /api/import/wolt)",
+    run: async () => {
+      throw new Error("No Wolt API integration");
+    },
+  },
+];
+
+export const SOURCE_NAMES = SOURCES.map((s) => s.name);
+
+/* ================= TIMING ================= */
+
+/** Minutes after local midnight of the nightly run. */
+function importTime() {
+  const raw = process.env.NIGHTLY_IMPORT_TIME || "06:00";
+  const m = /^(\d{1,2}):(\d{2})$/.exec(raw.trim());
+  return m ? Number(m[1]) * 60 + Number(m[2]) : 6 * 60;
+}
+
+/** When business day `date` is imported: the import time after it ended. */
+function dueAt(date: string) {
+  const next = addDays(date, 1);
+  return Math.max(localTimeToMs(next, importTime()), localTimeToMs(next, businessDayCutoff()));
+}
+
+/** Latest business day whose import is due at `now`. */
+function latestDueDate(now: number) {
+  let date = addDays(businessDateOf(now), -1);
+  while (dueAt(date) > now) date = addDays(date, -1);
+  return date;
+}
+
+/* ================= RUNS ================= */
+
+const RUN_COLUMNS = `
+  id, source, business_date AS businessDate, trigger, status,
+  started_at AS startedAt, finished_at AS finishedAt, error, result
+`;
+
+/** scheduler_runs row selected with RUN_COLUMNS; `result` is JSON. */
+type RunRow = Omit<SchedulerRun, "result"> & { result: string | null };
+
+function toRun(row: unknown): SchedulerRun | null {
+  const run = row as RunRow | undefined;
+  return run ? { ...run, result: run.result ? JSON.parse(run.result) : null } : null;
+}
+
+/** Runs one source for one business day and records the attempt. */
+export async function runSource(name: SourceName, date: string, trigger: RunTrigger) {
+  const source = SOURCES.find((s) => s.name === name);
+  if (!source) throw new Error(`Unknown source "${name}"`);
+
+  const id = Number(
+    db
+      .prepare(
+        `INSERT INTO scheduler_runs (source, business_date, trigger, status, started_at)
+         VALUES (?, ?, ?, 'running', ?)`
+      )
+      .run(name, date, trigger, new Date().toISOString()).lastInsertRowid
+  );
+
+  const finish = db.prepare(
+    `UPDATE scheduler_runs SET status = ?, finished_at = ?, error = ?, result = ? WHERE id = ?`
+  );
+
+  try {
+    const reason = source.unavailable();
+    if (reason) throw new Error(reason);
+
+    const result = await source.run(date);
+    finish.run("ok", new Date().toISOString(), null, JSON.stringify(result ?? null), id);
+  } catch (err: any) {
+    console.error(`Nightly import ${name} ${date} failed:`, err?.message ?? err);
+    finish.run("failed", new Date().toISOString(), err?.message ?? String(err), null, id);
+  }
+
+  return toRun(db.prepare(`SELECT ${RUN_COLUMNS} FROM scheduler_runs WHERE id = ?`).get(id));
+}
+
+/** Whether `source` should (re)run `date` now. */
+function needsRun(source: SourceName, date: string, now: number) {
+  const attempts = db
+    .prepare(
+      `SELECT status, started_at AS startedAt FROM scheduler_runs
+       WHERE source = ? AND business_date = ? ORDER BY id`
+    )
+    .all(source, date) as { status: string; startedAt: string }[];
+
+  if (attempts.some((a) => a.status === "ok" || a.status === "running")) return false;
+  if (attempts.length >= MAX_ATTEMPTS) return false;
+
+  const last = attempts[attempts.length - 1];
+  return !last || now - Date.parse(last.startedAt) >= RETRY_AFTER_MS;
+}
+
+/** Runs every due, not yet imported day of every configured source. */
+export async function runDueImports(now = Date.now()) {
+  const latest = latestDueDate(now);
+  const firstRun = db
+    .prepare(`SELECT MIN(business_date) AS d FROM scheduler_runs WHERE trigger != 'manual'`)
+    .get() as { d: string | null };
+
+  const windowStart = addDays(latest, -(Math.max(1, envNumber("SCHEDULER_CATCHUP_DAYS", 7)) - 1));
+  // Nothing to catch up before the scheduler's first run
+  const start = !firstRun.d ? latest : firstRun.d > windowStart ? firstRun.d : windowStart;
+
+  for (const source of SOURCES) {
+    if (source.unavailable()) continue;
+
+    for (let date = start; date <= latest; date = addDays(date, 1)) {
+      if (!needsRun(source.name, date, now)) continue;
+      await runSource(source.name, date, date === latest ? "schedule" : "catchup");
+    }
+  }
+}
+
+/* ================= TIMER ================= */
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    await runDueImports();
+  } catch (err) {
+    console.error("Nightly import scheduler error:", err);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function schedulerEnabled() {
+  const v = (process.env.SCHEDULER_ENABLED ?? "1").trim().toLowerCase();
+  return v !== "0" && v !== "false";
+}
+
+/** Starts the minute timer (and a first catch-up run) unless disabled. */
+export function startScheduler() {
+  if (timer || !schedulerEnabled()) return;
+
+  // Attempts cut off by a restart never finished
+  db.prepare(
+    `UPDATE scheduler_runs SET status = 'failed', finished_at = ?, error = 'Interrupted by restart'
+     WHERE status = 'running'`
+  ).run(new Date().toISOString());
+
+  timer = setInterval(tick, TICK_MS);
+  timer.unref();
+  void tick();
+}
+
+/* ================= STATUS ================= */
+
+export function schedulerStatus() {
+  const now = Date.now();
+  const latest = latestDueDate(now);
+  const last = db.prepare(
+    `SELECT ${RUN_COLUMNS} FROM scheduler_runs WHERE source = ? ORDER BY id DESC LIMIT 1`
+  );
+  const lastOk = db.prepare(
+    `SELECT ${RUN_COLUMNS} FROM scheduler_runs
+     WHERE source = ? AND status = 'ok' ORDER BY business_date DESC, id DESC LIMIT 1`
+  );
+
+  return {
+    enabled: schedulerEnabled(),
+    running: timer !== null,
+    timeZone: TIME_ZONE,
+    importTime: process.env.NIGHTLY_IMPORT_TIME || "06:00",
+    latestDueDate: latest,
+    nextRunAt: new Date(dueAt(addDays(latest, 1))).toISOString(),
+    sources: SOURCES.map((s) => {
+      const reason = s.unavailable();
+      return {
+        source: s.name,
+        configured: !reason,
+        reason,
+        lastRun: toRun(last.get(s.name)),
+        lastSuccess: toRun(lastOk.get(s.name)),
+      };
+    }),
+  };
+}
+
+export function listRuns(source?: SourceName, limit = 50) {
+  const rows = source
+    ? db
+        .prepare(`SELECT ${RUN_COLUMNS} FROM scheduler_runs WHERE source = ? ORDER BY id DESC LIMIT ?`)
+        .all(source, limit)
+    : db.prepare(`SELECT ${RUN_COLUMNS} FROM scheduler_runs ORDER BY id DESC LIMIT ?`).all(limit);
+
+  return rows.map(toRun);
+}
@@ -1,11 +1,26 @@
-﻿export type BcCateringTodayData = {
-  // placeholder for future data
-  ok: boolean;
+﻿import { selectProvider } from "../providers/providerMode";
+import { liveBcCateringProvider, mockBcCateringProvider } from "../providers/bcCatering";
+
+export type BcCateringDelivery = {
+  id: string;
+  deliveredAt: string; // local, "YYYY-MM-DD HH:MM"
+  category: string;
+  amount: number; // DKK excl. VAT
+};
+
+export type BcCateringTodayData = {
+  // Grocery cost of the day's deliveries; null without an integration
+  groceryCost: number | null;
+  deliveries: BcCateringDelivery[];
 };
 
-export async function getBcCateringToday(): Promise<BcCateringTodayData> {
-  // SAFE MODE mock
-  return {
-    ok: true,
-  };
+/** BC Catering deliveries of the location's business day `date` (providers/bcCatering.ts). */
+export async function getBcCateringToday(
+  locationId: string,
+  date: string
+): Promise<BcCateringTodayData> {
+  return selectProvider("bcCatering", {
+    live: () => liveBcCateringProvider,
+    mock: mockBcCateringProvider,
+  }).today(locationId, date);
 }
@@ -1,10 +1,28 @@
-﻿export type PlandayTodayData = {
+﻿import { plandayGet } from "../integrations/plandayAuth";
+import { rowsOf } from "../labor/plandaySync";
+import { Location } from "../locations/locations";
+
+export type PlandayTodayData = {
   staffScheduled: number;
 };
 
-export async function getPlandayToday(): Promise<PlandayTodayData> {
-  // SAFE MODE mock
+/**
+ * Employees on the location's Planday schedule for `date`, through the
+ * Planday provider (providers/planday.ts).
+ */
+export async function getPlandayToday(location: Location, date: string): Promise<PlandayTodayData> {
+  if (!location.plandayDepartmentId) {
+    throw new Error(`Location "${location.id}" has no Planday department`);
+  }
+
+  const shifts = rowsOf(
+    await plandayGet(
+      `/scheduling/v1.0/shifts?departmentId=${location.plandayDepartmentId}` +
+        `&from=${date}&to=${date}&limit=200`
+    )
+  );
+
   return {
-    staffScheduled: 0,
+    staffScheduled: new Set(shifts.map((s) => s?.employeeId).filter(Boolean)).size,
   };
 }
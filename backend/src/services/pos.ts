@@ -1,12 +1,29 @@
-﻿export type PosTodayData = {
+﻿import { getRevenueByDateRange } from "../integrations/posOnline";
+import { Location, requirePosFirmaId } from "../locations/locations";
+import { transactionsOfDay } from "../pos/transactions";
+
+export type PosTodayData = {
   revenue: number;
   orders: number;
 };
 
-export async function getPosToday(): Promise<PosTodayData> {
-  // SAFE MODE mock
+/**
+ * POS sales of the location's business day `date` through the POS
+ * provider (providers/pos.ts). Orders are BackOffice transactions;
+ * 0 when the BackOffice is unavailable.
+ */
+export async function getPosToday(location: Location, date: string): Promise<PosTodayData> {
+  const sales = await getRevenueByDateRange(requirePosFirmaId(location), date, date);
+
+  let orders = 0;
+  try {
+    orders = (await transactionsOfDay(location, date)).transactions;
+  } catch (err) {
+    console.warn("[POS today] transactions unavailable:", (err as Error).message);
+  }
+
   return {
-    revenue: 0,
-    orders: 0,
+    revenue: Number(sales.revenue.toFixed(2)),
+    orders,
   };
 }
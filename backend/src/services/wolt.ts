@@ -1,14 +1,23 @@
-﻿export type WoltTodayData = {
+﻿import { selectProvider } from "../providers/providerMode";
+import { liveWoltProvider, mockWoltProvider } from "../providers/wolt";
+
+export type WoltOrder = {
+  id: string;
+  status: "received" | "preparing" | "ready" | "delivering";
+  placedAt: string; // local, "YYYY-MM-DD HH:MM"
+  amount: number;
+};
+
+export type WoltTodayData = {
   revenue: number;
   orders: number;
-  liveOrders: Array<any>;
+  liveOrders: WoltOrder[];
 };
 
-export async function getWoltToday(): Promise<WoltTodayData> {
-  // SAFE MODE mock
-  return {
-    revenue: 0,
-    orders: 0,
-    liveOrders: [],
-  };
+/** Wolt orders of the location's business day `date` (providers/wolt.ts). */
+export async function getWoltToday(locationId: string, date: string): Promise<WoltTodayData> {
+  return selectProvider("wolt", { live: () => liveWoltProvider, mock: mockWoltProvider }).today(
+    locationId,
+    date
+  );
 }
@@ -0,0 +1,84 @@
+/**
+ * Business calendar: days in Europe/Copenhagen, whatever TZ the server runs in.
+ *
+ * A business day starts at the cutoff (BUSINESS_DAY_CUTOFF, "HH:MM",
+ * default 00:00: calendar days) local time and runs until the next day's
+ * cutoff. A later cutoff such as 05:00 makes late-night sales and shifts
+ * count to the day they started.
+ * The offset is looked up per instant, so DST days are 23 or 25 hours long.
+ */
+
+export const TIME_ZONE = "Europe/Copenhagen";
+
+const MINUTE = 60 * 1000;
+const DEFAULT_CUTOFF = "00:00";
+
+/** Minutes after local midnight where the business day starts. */
+export function businessDayCutoff() {
+  const raw = process.env.BUSINESS_DAY_CUTOFF || DEFAULT_CUTOFF;
+  const m = /^(\d{1,2}):(\d{2})$/.exec(raw.trim());
+  if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) return 0;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+const formatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+/** Offset of Copenhagen wall clock from UTC at `utcMs`. */
+function zoneOffsetMs(utcMs: number) {
+  const parts = formatter.formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return wall - Math.floor(utcMs / 1000) * 1000;
+}
+
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Instant (ms) of Copenhagen wall-clock `date` + `minutes` after midnight. */
+export function localTimeToMs(date: string, minutes = 0) {
+  const wall = Date.parse(`${date}T00:00:00Z`);
+  if (Number.isNaN(wall)) throw new Error(`Invalid date "${date}"`);
+
+  const target = wall + minutes * MINUTE;
+  return target - zoneOffsetMs(target - zoneOffsetMs(target));
+}
+
+/** Copenhagen wall clock of an instant, "YYYY-MM-DD HH:MM". */
+export function formatLocal(ms: number) {
+  return new Date(ms + zoneOffsetMs(ms)).toISOString().slice(0, 16).replace("T", " ");
+}
+
+/** Business date (YYYY-MM-DD) an instant belongs to. */
+export function businessDateOf(ms: number) {
+  const local = ms + zoneOffsetMs(ms) - businessDayCutoff() * MINUTE;
+  return new Date(local).toISOString().slice(0, 10);
+}
+
+/** Today's business date. */
+export function businessToday() {
+  return businessDateOf(Date.now());
+}
+
+/**
+ * Business days `from`..`to` (inclusive) as unix seconds: the cutoff on
+ * `from` up to the second before the cutoff after `to`.
+ */
+export function businessDayRangeUnix(from: string, to: string) {
+  const cutoff = businessDayCutoff();
+  return {
+    fromUnix: Math.floor(localTimeToMs(from, cutoff) / 1000),
+    toUnix: Math.floor(localTimeToMs(addDays(to, 1), cutoff) / 1000) - 1,
+  };
+}
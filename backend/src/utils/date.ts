@@ -1,5 +1,11 @@
-﻿export function todayIso(): string {
-  return new Date().toISOString().slice(0, 10);
+﻿import { addDays, businessToday } from "./businessCalendar";
+
+/**
+ * Today's business date (Europe/Copenhagen, after the day cutoff).
+ * The other helpers are plain YYYY-MM-DD arithmetic.
+ */
+export function todayIso(): string {
+  return businessToday();
 }
 
 export function addYears(dateIso: string, years: number): string {
@@ -51,3 +57,14 @@ export function inRange(
 ): boolean {
   return dateIso >= startIso && dateIso <= endIsoInclusive;
 }
+
+/** Ascending dates as runs of consecutive days ({ from, to }). */
+export function dateRanges(datesIso: string[]): { from: string; to: string }[] {
+  const ranges: { from: string; to: string }[] = [];
+  for (const date of datesIso) {
+    const last = ranges[ranges.length - 1];
+    if (last && addDays(last.to, 1) === date) last.to = date;
+    else ranges.push({ from: date, to: date });
+  }
+  return ranges;
+}
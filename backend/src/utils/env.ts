@@ -0,0 +1,12 @@
+/** Trimmed value of a required env var; throws when it is missing or blank. */
+export function requireEnv(name: string): string {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`Missing ${name} env var`);
+  return v.trim();
+}
+
+/** Numeric env var, or `fallback` when it is unset or not a number. */
+export function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(n) ? n : fallback;
+}
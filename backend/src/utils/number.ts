@@ -0,0 +1,4 @@
+/** Rounds an amount or hour count to two decimals. */
+export function round(n: number) {
+  return Number(n.toFixed(2));
+}
@@ -0,0 +1,35 @@
+import { db } from "../db/sqlite";
+
+export { db };
+
+// Wolt sales from merchant report files (see woltImport.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS wolt_import_batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    location_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    file_hash TEXT NOT NULL,
+    granularity TEXT NOT NULL,         -- orders | days
+    period_start TEXT NOT NULL,        -- business days covered by the report
+    period_end TEXT NOT NULL,
+    rows INTEGER NOT NULL,
+    orders INTEGER NOT NULL,
+    gross REAL NOT NULL,
+    commission REAL NOT NULL,
+    fees REAL NOT NULL,
+    net_payout REAL NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS wolt_sales (
+    location_id TEXT NOT NULL,
+    date TEXT NOT NULL,                -- business day
+    order_id TEXT NOT NULL,            -- '' on rows of per-day reports
+    orders INTEGER NOT NULL,
+    gross REAL NOT NULL,               -- incl. VAT, = daily_inputs.wolt_revenue
+    commission REAL NOT NULL,
+    fees REAL NOT NULL,
+    net_payout REAL NOT NULL,
+    batch_id INTEGER NOT NULL,         -- wolt_import_batches.id
+    PRIMARY KEY (location_id, date, order_id)
+  );
+`);
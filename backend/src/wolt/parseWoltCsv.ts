@@ -0,0 +1,274 @@
+import { businessDateOf, localTimeToMs } from "../utils/businessCalendar";
+
+/**
+ * Parses Wolt merchant sales / payout report exports (CSV).
+ *
+ * Column names differ between report types and languages, so columns are
+ * found by name (see COLUMNS). A file with an order id column is read per
+ * order, one without per day (one row per business day, optional order
+ * count). Amounts are DKK incl. VAT. Commission and fees are stored as
+ * positive costs (refunded costs negative) whichever sign the report
+ * prints them with, and a missing net payout is gross - commission - fees.
+ */
+
+/** The report itself is unusable (bad input, not a server failure). */
+export class WoltReportError extends Error {}
+
+export type WoltSaleRow = {
+  date: string; // business day
+  orderId: string | null; // null on per-day rows
+  orders: number;
+  gross: number;
+  commission: number;
+  fees: number;
+  netPayout: number;
+};
+
+export type ParsedWoltReport = {
+  granularity: "orders" | "days";
+  columns: Record<string, string | null>; // field → header used
+  rows: WoltSaleRow[];
+  skipped: { row: number; reason: string }[]; // row 1 is the header
+};
+
+type Field = "orderId" | "date" | "orders" | "gross" | "commission" | "fees" | "netPayout";
+
+// Header names per field, normalized (lower case, letters and digits only), in order of preference
+const COLUMNS: Record<Field, string[]> = {
+  orderId: ["orderid", "ordernumber", "ordreid", "ordrenummer", "purchaseid", "orderreference"],
+  date: [
+    "deliverytime",
+    "deliveredat",
+    "ordertime",
+    "orderplaced",
+    "orderplacedat",
+    "createdat",
+    "orderdate",
+    "date",
+    "dato",
+    "leveringstidspunkt",
+    "bestillingstidspunkt",
+    "day",
+  ],
+  orders: ["orders", "ordercount", "numberoforders", "antalordrer", "ordrer"],
+  gross: [
+    "grosssales",
+    "grossamount",
+    "gross",
+    "totalsales",
+    "salesinclvat",
+    "ordertotal",
+    "totalprice",
+    "total",
+    "sales",
+    "bruttosalg",
+    "omsaetning",
+    "omsætning",
+  ],
+  commission: ["woltcommission", "commission", "commissionamount", "kommission", "provision"],
+  fees: ["fees", "fee", "otherfees", "servicefee", "gebyrer", "gebyr"],
+  netPayout: ["netpayout", "payout", "payoutamount", "netamount", "net", "udbetaling", "nettoudbetaling"],
+};
+
+function normalizeHeader(h: string) {
+  return h.toLowerCase().replace(/[^a-z0-9æøå]/g, "");
+}
+
+/** Splits CSV text into rows; quoted fields may hold delimiters, quotes ("") and newlines. */
+function parseCsv(text: string, delimiter: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/** The delimiter (; , or tab) occurring most in the header line. */
+function detectDelimiter(text: string) {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [";", ",", "\t"].map((d) => ({ d, n: header.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+/**
+ * "1.234,56", "1,234.56", "1234.56", "-12,5 kr", "DKK 99" → number.
+ * With one separator kind, a group of exactly three digits after it is
+ * read as thousands.
+ */
+export function parseAmount(raw: string): number | null {
+  let s = raw.replace(/[^\d,.\-−()]/g, "").replace("−", "-");
+  if (!/\d/.test(s)) return null;
+
+  const negative = s.includes("-") || /^\(.*\)$/.test(s);
+  s = s.replace(/[-()]/g, "");
+
+  const lastComma = s.lastIndexOf(",");
+  const lastDot = s.lastIndexOf(".");
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? "," : ".";
+    const group = decimal === "," ? "." : ",";
+    s = s.split(group).join("").replace(decimal, ".");
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const sep = lastComma >= 0 ? "," : ".";
+    const parts = s.split(sep);
+    const thousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    s = thousands ? parts.join("") : parts.join(".");
+  }
+
+  const n = Number(s);
+  if (!Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+/**
+ * Business day of a report date/time. Times without an offset are
+ * Copenhagen wall clock; a date alone is that day.
+ * Accepts YYYY-MM-DD and DD.MM.YYYY / DD-MM-YYYY / DD/MM/YYYY, with an
+ * optional HH:MM[:SS] time.
+ */
+export function parseReportDate(raw: string): string | null {
+  const s = raw.trim();
+
+  // ISO with an offset or Z: an instant
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(s)) {
+    const ms = Date.parse(s);
+    return Number.isNaN(ms) ? null : businessDateOf(ms);
+  }
+
+  const m =
+    /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2}))?/.exec(s) ??
+    /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})(?:,?\s+(\d{1,2})[:.](\d{2}))?/.exec(s);
+  if (!m) return null;
+
+  const [year, month, day] = m[1].length === 4 ? [m[1], m[2], m[3]] : [m[3], m[2], m[1]];
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  if (Number.isNaN(Date.parse(`${date}T00:00:00Z`))) return null;
+  if (m[4] === undefined) return date;
+
+  return businessDateOf(localTimeToMs(date, Number(m[4]) * 60 + Number(m[5])));
+}
+
+export function parseWoltCsv(text: string): ParsedWoltReport {
+  const clean = text.replace(/^\uFEFF/, "");
+  const [header, ...lines] = parseCsv(clean, detectDelimiter(clean));
+  if (!header) throw new WoltReportError("Empty Wolt report");
+
+  const normalized = header.map(normalizeHeader);
+  const index = {} as Record<Field, number>;
+  const columns: Record<string, string | null> = {};
+
+  for (const field of Object.keys(COLUMNS) as Field[]) {
+    const names = COLUMNS[field];
+    const found = names.map((n) => normalized.indexOf(n)).find((i) => i >= 0) ?? -1;
+    index[field] = found;
+    columns[field] = found >= 0 ? header[found].trim() : null;
+  }
+
+  if (index.date < 0) throw new WoltReportError("Wolt report has no date column");
+  if (index.gross < 0 && index.netPayout < 0) {
+    throw new WoltReportError("Wolt report has no gross sales or net payout column");
+  }
+
+  const granularity = index.orderId >= 0 ? "orders" : "days";
+  const skipped: ParsedWoltReport["skipped"] = [];
+  const parsed: {
+    date: string;
+    orderId: string | null;
+    orders: number;
+    gross: number | null;
+    commission: number;
+    fees: number;
+    net: number | null;
+  }[] = [];
+
+  lines.forEach((cells, i) => {
+    const row = i + 2;
+    const cell = (f: Field) => (index[f] >= 0 ? (cells[index[f]] ?? "").trim() : "");
+    const amount = (f: Field) => (cell(f) ? parseAmount(cell(f)) : null);
+
+    const date = parseReportDate(cell("date"));
+    if (!date) {
+      // Summary rows ("Total", …) have no date
+      skipped.push({ row, reason: `No date in "${cell("date")}"` });
+      return;
+    }
+
+    const orderId = granularity === "orders" ? cell("orderId") : null;
+    if (granularity === "orders" && !orderId) {
+      skipped.push({ row, reason: "No order id" });
+      return;
+    }
+
+    parsed.push({
+      date,
+      orderId,
+      orders: granularity === "orders" ? 1 : Math.round(amount("orders") ?? 0),
+      gross: amount("gross"),
+      commission: amount("commission") ?? 0,
+      fees: amount("fees") ?? 0,
+      net: amount("netPayout"),
+    });
+  });
+
+  // Reports printing costs as negative amounts print refunded costs as positive
+  const costSign = (f: "commission" | "fees") =>
+    parsed.reduce((sum, r) => sum + r[f], 0) < 0 ? -1 : 1;
+  const commissionSign = costSign("commission");
+  const feesSign = costSign("fees");
+
+  const rows = parsed.map((r): WoltSaleRow => {
+    const commission = r.commission * commissionSign;
+    const fees = r.fees * feesSign;
+    const gross = r.gross ?? (r.net ?? 0) + commission + fees;
+
+    return {
+      date: r.date,
+      orderId: r.orderId,
+      orders: r.orders,
+      gross,
+      commission,
+      fees,
+      netPayout: r.net ?? gross - commission - fees,
+    };
+  });
+
+  return { granularity, columns, rows, skipped };
+}
@@ -0,0 +1,336 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { getDailyInput, upsertDailyInput } from "../db/supabaseDb";
+import { supabase } from "../db/supabaseClient";
+import { locationIn } from "../locations/locations";
+import { round } from "../utils/number";
+import { parseWoltCsv, WoltReportError, WoltSaleRow } from "./parseWoltCsv";
+
+/**
+ * Wolt merchant sales / payout reports → wolt_sales and daily_inputs.woltRevenue.
+ *
+ * An import replaces only what the report itself covers, so importing an
+ * overlapping period again (or the same file twice) never counts an order
+ * twice and never drops sales of another report:
+ * - per-order reports replace the stored rows of each order they list
+ *   (by location and order id), whichever business day they were on. A
+ *   January report with an order at 01:30 on Jan 1 adds it to Dec 31
+ *   next to the December report's orders.
+ * - per-day reports replace every stored row of each day they have a
+ *   row for (a day total covers the whole day); days they skip are kept.
+ * Rows of the same order on one day (refunds, adjustments) are added up.
+ * An order counts once, on its earliest day in the report; its rows on
+ * later days (adjustments booked later) only add amounts.
+ * Per-order and per-day reports of the same day add up, so import one
+ * kind per period.
+ *
+ * Afterwards woltRevenue of each day the import touched is set to the
+ * stored gross sales of that day; the other fields are kept as they are.
+ */
+
+export type WoltImportBatch = {
+  id: number;
+  locationId: string;
+  createdAt: string;
+  fileHash: string;
+  granularity: "orders" | "days";
+  periodStart: string;
+  periodEnd: string;
+  rows: number;
+  orders: number;
+  gross: number;
+  commission: number;
+  fees: number;
+  netPayout: number;
+};
+
+type DayTotals = {
+  date: string;
+  orders: number;
+  gross: number;
+  commission: number;
+  fees: number;
+  netPayout: number;
+};
+
+function roundTotals<T extends Omit<DayTotals, "date">>(t: T): T {
+  return {
+    ...t,
+    gross: round(t.gross),
+    commission: round(t.commission),
+    fees: round(t.fees),
+    netPayout: round(t.netPayout),
+  };
+}
+
+/** Rows of the same day and order (or the same day, per-day reports) added up. */
+function mergeRows(rows: WoltSaleRow[]) {
+  // Day each order counts on: its first one
+  const orderDay = new Map<string, string>();
+  for (const r of rows) {
+    if (!r.orderId) continue;
+    const day = orderDay.get(r.orderId);
+    if (!day || r.date < day) orderDay.set(r.orderId, r.date);
+  }
+
+  const merged = new Map<string, WoltSaleRow>();
+
+  for (const r of rows) {
+    const key = `${r.date}\u0000${r.orderId ?? ""}`;
+    const orders = r.orderId ? (orderDay.get(r.orderId) === r.date ? 1 : 0) : r.orders;
+    const sum = merged.get(key);
+    if (!sum) {
+      merged.set(key, { ...r, orders });
+      continue;
+    }
+
+    // An order's adjustment lines count as the same order
+    sum.orders += r.orderId ? 0 : orders;
+    sum.gross += r.gross;
+    sum.commission += r.commission;
+    sum.fees += r.fees;
+    sum.netPayout += r.netPayout;
+  }
+
+  return [...merged.values()];
+}
+
+/** Stored totals of each of the location's days; days without rows are zero. */
+function storedDays(locationId: string, dates: string[]): DayTotals[] {
+  const day = db.prepare(
+    `
+    SELECT COALESCE(SUM(orders), 0) AS orders, COALESCE(SUM(gross), 0) AS gross,
+           COALESCE(SUM(commission), 0) AS commission, COALESCE(SUM(fees), 0) AS fees,
+           COALESCE(SUM(net_payout), 0) AS netPayout
+    FROM wolt_sales
+    WHERE location_id = ? AND date = ?
+  `
+  );
+
+  return dates.map((date) =>
+    roundTotals({ date, ...(day.get(locationId, date) as Omit<DayTotals, "date">) })
+  );
+}
+
+/** Distinct order ids of per-order rows. */
+const orderIds = (rows: WoltSaleRow[]) => [...new Set(rows.map((r) => r.orderId!))];
+
+/**
+ * Business days whose stored totals the import can change: the report's
+ * days, plus the days its orders are stored on now.
+ */
+function touchedDays(locationId: string, granularity: "orders" | "days", rows: WoltSaleRow[]) {
+  const days = new Set(rows.map((r) => r.date));
+
+  if (granularity === "orders") {
+    const stored = db.prepare(
+      `SELECT DISTINCT date FROM wolt_sales WHERE location_id = ? AND order_id = ?`
+    );
+    for (const orderId of orderIds(rows)) {
+      for (const r of stored.all(locationId, orderId) as { date: string }[]) days.add(r.date);
+    }
+  }
+
+  return [...days].sort();
+}
+
+/** Replaces the location's stored rows that the report covers with its rows. */
+function replaceRows(
+  locationId: string,
+  granularity: "orders" | "days",
+  rows: WoltSaleRow[],
+  batchId: number
+) {
+  if (granularity === "orders") {
+    const remove = db.prepare(`DELETE FROM wolt_sales WHERE location_id = ? AND order_id = ?`);
+    for (const orderId of orderIds(rows)) remove.run(locationId, orderId);
+  } else {
+    const remove = db.prepare(`DELETE FROM wolt_sales WHERE location_id = ? AND date = ?`);
+    for (const date of new Set(rows.map((r) => r.date))) remove.run(locationId, date);
+  }
+
+  const insert = db.prepare(`
+    INSERT INTO wolt_sales
+      (location_id, date, order_id, orders, gross, commission, fees, net_payout, batch_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const r of rows) {
+    insert.run(
+      locationId,
+      r.date,
+      r.orderId ?? "",
+      r.orders,
+      round(r.gross),
+      round(r.commission),
+      round(r.fees),
+      round(r.netPayout),
+      batchId
+    );
+  }
+}
+
+/**
+ * Writes woltRevenue of each day to daily_inputs, keeping the other fields
+ * (each row is read right before its write).
+ */
+async function updateDailyInputs(locationId: string, days: DayTotals[]) {
+  if (!supabase) {
+    return { updated: 0, error: "Supabase is disabled; daily_inputs were not updated" };
+  }
+
+  let updated = 0;
+  try {
+    for (const day of days) {
+      const current = await getDailyInput(locationId, day.date);
+      if (current && round(current.woltRevenue) === day.gross) continue;
+      // No Wolt sales on a day without inputs: nothing to write
+      if (!current && day.gross === 0) continue;
+
+      await upsertDailyInput({
+        locationId,
+        date: day.date,
+        totalRevenue: current?.totalRevenue ?? 0,
+        woltRevenue: day.gross,
+        laborCost: current?.laborCost ?? 0,
+        bcGroceryCost: current?.bcGroceryCost ?? 0,
+      });
+      updated++;
+    }
+  } catch (err) {
+    // The Wolt rows are saved; importing the file again retries the rest
+    return { updated, error: err instanceof Error ? err.message : "daily_inputs update failed" };
+  }
+
+  return { updated, error: null };
+}
+
+/** Thrown inside a transaction to discard a dry run's writes. */
+class DryRunRollback extends Error {}
+
+/**
+ * Imports a Wolt report (CSV text) of a location.
+ *
+ * dryRun: runs the same writes inside a transaction that is then rolled
+ * back, so `days` shows what the import would store.
+ */
+export async function importWoltReport(
+  csv: string,
+  opts: { locationId: string; dryRun?: boolean }
+) {
+  const report = parseWoltCsv(csv);
+  if (report.rows.length === 0) throw new WoltReportError("Wolt report has no sales rows");
+
+  const rows = mergeRows(report.rows);
+  const dates = rows.map((r) => r.date).sort();
+  const periodStart = dates[0];
+  const periodEnd = dates[dates.length - 1];
+
+  const fileHash = crypto.createHash("sha256").update(csv).digest("hex");
+  const totals = roundTotals(
+    rows.reduce(
+      (t, r) => ({
+        orders: t.orders + r.orders,
+        gross: t.gross + r.gross,
+        commission: t.commission + r.commission,
+        fees: t.fees + r.fees,
+        netPayout: t.netPayout + r.netPayout,
+      }),
+      { orders: 0, gross: 0, commission: 0, fees: 0, netPayout: 0 }
+    )
+  );
+
+  const touched = touchedDays(opts.locationId, report.granularity, rows);
+  const before = new Map(storedDays(opts.locationId, touched).map((d) => [d.date, d.gross]));
+
+  let batchId: number | null = null;
+  let after: DayTotals[] = [];
+
+  try {
+    db.transaction(() => {
+      const info = db
+        .prepare(
+          `
+        INSERT INTO wolt_import_batches
+          (location_id, created_at, file_hash, granularity, period_start, period_end,
+           rows, orders, gross, commission, fees, net_payout)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+        )
+        .run(
+          opts.locationId,
+          new Date().toISOString(),
+          fileHash,
+          report.granularity,
+          periodStart,
+          periodEnd,
+          rows.length,
+          totals.orders,
+          totals.gross,
+          totals.commission,
+          totals.fees,
+          totals.netPayout
+        );
+      batchId = Number(info.lastInsertRowid);
+
+      replaceRows(opts.locationId, report.granularity, rows, batchId);
+      after = storedDays(opts.locationId, touched);
+
+      if (opts.dryRun) throw new DryRunRollback();
+    })();
+  } catch (err) {
+    if (!(err instanceof DryRunRollback)) throw err;
+    batchId = null;
+  }
+
+  return {
+    dryRun: !!opts.dryRun,
+    locationId: opts.locationId,
+    batchId,
+    granularity: report.granularity,
+    columns: report.columns,
+    periodStart,
+    periodEnd,
+    fileHash,
+    rows: rows.length,
+    skipped: report.skipped,
+    totals,
+    // Stored totals of the touched days after the import, storedGross before it
+    days: after.map((d) => ({ ...d, storedGross: before.get(d.date) ?? 0 })),
+    dailyInputs: opts.dryRun ? null : await updateDailyInputs(opts.locationId, after),
+  };
+}
+
+/* ================= READS ================= */
+
+/** Imported Wolt sales per business day of the locations, oldest first. */
+export function woltDailySales(locationIds: string[], from: string, to: string): DayTotals[] {
+  const rows = db
+    .prepare(
+      `
+    SELECT date, SUM(orders) AS orders, SUM(gross) AS gross, SUM(commission) AS commission,
+           SUM(fees) AS fees, SUM(net_payout) AS netPayout
+    FROM wolt_sales
+    WHERE date BETWEEN ? AND ? AND ${locationIn("location_id", locationIds)}
+    GROUP BY date
+    ORDER BY date
+  `
+    )
+    .all(from, to, ...locationIds) as DayTotals[];
+
+  return rows.map(roundTotals);
+}
+
+export function listWoltImportBatches(locationIds: string[]): WoltImportBatch[] {
+  return db
+    .prepare(
+      `
+    SELECT id, location_id AS locationId, created_at AS createdAt, file_hash AS fileHash,
+           granularity, period_start AS periodStart, period_end AS periodEnd,
+           rows, orders, gross, commission, fees, net_payout AS netPayout
+    FROM wolt_import_batches
+    WHERE ${locationIn("location_id", locationIds)}
+    ORDER BY id DESC
+  `
+    )
+    .all(...locationIds) as WoltImportBatch[];
+}
@@ -0,0 +1,42 @@
+-- daily_inputs per location (see src/db/supabaseDb.ts).
+--
+-- Rows from before locations go to the legacy location: the first location
+-- of the backend (GET /api/locations, first entry), "aarhus" unless it was
+-- created under another id. For another id, run first in the same session:
+--   set app.legacy_location = '<id>';
+-- Safe to run again.
+
+alter table daily_inputs add column if not exists location_id text;
+
+update daily_inputs
+set location_id = coalesce(nullif(current_setting('app.legacy_location', true), ''), 'aarhus')
+where location_id is null;
+
+alter table daily_inputs alter column location_id set not null;
+
+-- One row per location and day instead of per day
+do $$
+declare
+  c record;
+begin
+  for c in
+    select con.conname
+    from pg_constraint con
+    join pg_attribute att
+      on att.attrelid = con.conrelid and att.attnum = any (con.conkey)
+    where con.conrelid = 'daily_inputs'::regclass
+      and con.contype in ('u', 'p')
+      and array_length(con.conkey, 1) = 1
+      and att.attname = 'date'
+  loop
+    execute format('alter table daily_inputs drop constraint %I', c.conname);
+  end loop;
+
+  if not exists (
+    select 1 from pg_constraint
+    where conrelid = 'daily_inputs'::regclass and conname = 'daily_inputs_location_date'
+  ) then
+    alter table daily_inputs
+      add constraint daily_inputs_location_date unique (location_id, date);
+  end if;
+end $$;
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  addDays,
+  businessDateOf,
+  businessDayCutoff,
+  businessDayRangeUnix,
+  formatLocal,
+  localTimeToMs,
+} from "../src/utils/businessCalendar";
+
+const HOUR = 3600;
+
+function dayLength(date: string) {
+  const { fromUnix, toUnix } = businessDayRangeUnix(date, date);
+  return (toUnix + 1 - fromUnix) / HOUR;
+}
+
+describe("business calendar", () => {
+  afterEach(() => {
+    delete process.env.BUSINESS_DAY_CUTOFF;
+  });
+
+  it("converts Copenhagen wall clock to instants in winter and summer time", () => {
+    expect(new Date(localTimeToMs("2026-01-15")).toISOString()).toBe("2026-01-14T23:00:00.000Z");
+    expect(new Date(localTimeToMs("2026-07-15", 18 * 60)).toISOString()).toBe("2026-07-15T16:00:00.000Z");
+    expect(formatLocal(Date.parse("2026-07-15T16:00:00Z"))).toBe("2026-07-15 18:00");
+  });
+
+  it("has 23 and 25 hour days at the DST changes", () => {
+    process.env.BUSINESS_DAY_CUTOFF = "00:00";
+
+    expect(dayLength("2026-03-28")).toBe(24);
+    expect(dayLength("2026-03-29")).toBe(23);
+    expect(dayLength("2026-10-25")).toBe(25);
+  });
+
+  it("moves the DST change into the business day before it with a late cutoff", () => {
+    process.env.BUSINESS_DAY_CUTOFF = "05:00";
+
+    // Sat 05:00 → Sun 05:00 holds the 02:00 → 03:00 jump
+    expect(dayLength("2026-03-28")).toBe(23);
+    expect(dayLength("2026-03-29")).toBe(24);
+    expect(dayLength("2026-10-24")).toBe(25);
+  });
+
+  it("counts hours before the cutoff to the previous business day", () => {
+    const lateNight = Date.parse("2026-10-02T00:30:00Z"); // 02:30 local
+
+    process.env.BUSINESS_DAY_CUTOFF = "05:00";
+    expect(businessDateOf(lateNight)).toBe("2026-10-01");
+
+    process.env.BUSINESS_DAY_CUTOFF = "00:00";
+    expect(businessDateOf(lateNight)).toBe("2026-10-02");
+  });
+
+  it("uses calendar days unless a cutoff is set", () => {
+    expect(businessDayCutoff()).toBe(0);
+    expect(businessDateOf(Date.parse("2026-10-02T00:30:00Z"))).toBe("2026-10-02");
+    expect(dayLength("2026-03-29")).toBe(23);
+  });
+
+  it("reads the cutoff from env", () => {
+    process.env.BUSINESS_DAY_CUTOFF = "04:30";
+    expect(businessDayCutoff()).toBe(4 * 60 + 30);
+
+    process.env.BUSINESS_DAY_CUTOFF = "25:00";
+    expect(businessDayCutoff()).toBe(0);
+  });
+
+  it("adds days across months and leap days", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2028-03-01", -1)).toBe("2028-02-29");
+    expect(addDays("2026-03-29", 1)).toBe("2026-03-30");
+  });
+});
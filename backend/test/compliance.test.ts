@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { db } from "../src/labor/db";
+import { complianceReport } from "../src/labor/compliance";
+
+const LOCATION = "aarhus";
+
+function schedule(employee: string, date: string, from: string, to: string, breakMinutes?: number) {
+  db.prepare(
+    `INSERT INTO labor_schedule (employee, employee_number, date, time_from, time_to, location_id)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(employee, employee, date, from, to, LOCATION);
+
+  if (breakMinutes !== undefined) {
+    db.prepare(
+      `INSERT INTO labor_entries (employee, employee_number, date, time_from, time_to, amount, break_minutes, location_id)
+       VALUES (?, ?, ?, ?, ?, 0, ?, ?)`
+    ).run(employee, employee, date, from, to, breakMinutes, LOCATION);
+  }
+}
+
+function planned(employee: string, date: string, from: string, to: string) {
+  db.prepare(
+    `INSERT INTO labor_planned_shifts
+       (source, external_id, employee, employee_number, date, time_from, time_to, hours, paid_hours,
+        break_minutes, imported_at, location_id)
+     VALUES ('export', ?, ?, ?, ?, ?, ?, 0, 0, 30, '', ?)`
+  ).run(`${employee}-${date}`, employee, employee, date, from, to, LOCATION);
+}
+
+function violations(from: string, to: string, rule: string) {
+  return complianceReport(from, to, [LOCATION]).violations.filter((v) => v.rule === rule);
+}
+
+describe("complianceReport", () => {
+  beforeEach(() => {
+    for (const table of ["labor_schedule", "labor_entries", "labor_planned_shifts"]) {
+      db.prepare(`DELETE FROM ${table}`).run();
+    }
+  });
+  afterEach(() => {
+    delete process.env.COMPLIANCE_REFERENCE_WEEKS;
+  });
+
+  it("flags less than 11 hours of rest between working days", () => {
+    schedule("1001", "2026-01-05", "16:00", "23:00", 30);
+    schedule("1001", "2026-01-06", "08:00", "14:00", 30);
+
+    expect(violations("2026-01-05", "2026-01-11", "rest")).toEqual([
+      expect.objectContaining({ employee: "1001", date: "2026-01-06", value: 9, limit: 11, planned: false }),
+    ]);
+  });
+
+  it("counts a split shift as one working day", () => {
+    schedule("1001", "2026-01-05", "10:00", "14:00", 0);
+    schedule("1001", "2026-01-05", "17:00", "22:00", 0);
+    schedule("1001", "2026-01-06", "09:00", "13:00", 0);
+
+    expect(violations("2026-01-05", "2026-01-11", "rest")).toEqual([]);
+  });
+
+  it("flags rest across midnight from a shift ending the next day", () => {
+    schedule("1001", "2026-01-05", "18:00", "02:00", 30);
+    schedule("1001", "2026-01-06", "10:00", "14:00", 0);
+
+    expect(violations("2026-01-05", "2026-01-11", "rest")[0]).toMatchObject({ value: 8 });
+  });
+
+  it("flags a Mon–Sun week without a day off", () => {
+    for (let day = 5; day <= 11; day++) {
+      schedule("1001", `2026-01-${String(day).padStart(2, "0")}`, "10:00", "14:00", 0);
+    }
+
+    expect(violations("2026-01-05", "2026-01-11", "weeklyDayOff")).toEqual([
+      expect.objectContaining({ date: "2026-01-11", value: 0, limit: 1 }),
+    ]);
+  });
+
+  it("flags long shifts without a registered break", () => {
+    schedule("1001", "2026-01-05", "10:00", "18:00");
+    schedule("1002", "2026-01-05", "10:00", "18:00", 30);
+    schedule("1003", "2026-01-05", "10:00", "15:00");
+
+    expect(violations("2026-01-05", "2026-01-11", "breakRequired")).toEqual([
+      expect.objectContaining({ employee: "1001", value: 8, limit: 6 }),
+    ]);
+  });
+
+  it("averages paid hours over the reference period", () => {
+    process.env.COMPLIANCE_REFERENCE_WEEKS = "1";
+    for (let day = 5; day <= 10; day++) {
+      schedule("1001", `2026-01-${String(day).padStart(2, "0")}`, "08:00", "17:30", 30);
+    }
+
+    expect(violations("2026-01-05", "2026-01-11", "avgWeeklyHours")).toEqual([
+      expect.objectContaining({ value: 54, limit: 48, planned: false }),
+    ]);
+  });
+
+  it("checks planned shifts on days without a schedule", () => {
+    schedule("1001", "2026-01-05", "16:00", "23:00", 30);
+    planned("1001", "2026-01-06", "07:00", "12:00");
+    planned("1001", "2026-01-05", "07:00", "09:00"); // replaced by the schedule
+
+    expect(violations("2026-01-05", "2026-01-11", "rest")).toEqual([
+      expect.objectContaining({ date: "2026-01-06", value: 8, planned: true }),
+    ]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Builds Planday payroll HTML in the layout of the real export (one page
+ * per payslip, employee group table on the first page), from made-up data.
+ */
+
+export type FixtureShift = {
+  date: string; // dd.MM.yyyy
+  range: string; // "16:00 - 22:00"
+  hours: string; // "6,00"
+  rate: string; // "150,00"
+  amount: string; // "900,00"
+  paymentType?: string;
+  breaks?: { range: string; hours: string; amount: string }[];
+};
+
+export type FixturePayslip = {
+  name: string;
+  employeeNumber: string;
+  serialNumber: string;
+  groups: { name: string; paidHours: string; amount: string; shifts: FixtureShift[] }[];
+  payLines?: { paymentType: string; period: string; text: string; quantity: string; amount: string }[];
+  subtotals: { label: string; hours: string; amount: string }[];
+  total: { shifts: number | null; hours: string; amount: string };
+};
+
+export type FixtureGroupTotal = [string, string, string, string, string, string, string, string];
+
+function shiftRows(s: FixtureShift) {
+  const master = `
+      <tr class="timesheetMasterRow">
+        <td class="paymentTypeNumber">${s.paymentType ?? "01"}</td>
+        <td class="dutyDate">${s.date}</td>
+        <td class="dutyPeriod">${s.range}</td>
+        <td class="text"><i></i>No position</td>
+        <td class="count">${s.hours}</td>
+        <td class="hourlySalary">kr. ${s.rate}</td>
+        <td class="amount">kr. ${s.amount}</td>
+      </tr>`;
+
+  const breaks = (s.breaks ?? []).map(
+    (b) => `
+      <tr class="timesheetPauseRow">
+        <td class="paymentTypeNumber"></td>
+        <td class="dutyDate"></td>
+        <td class="dutyPeriod">${b.range}</td>
+        <td class="text">Break</td>
+        <td class="count">${b.hours}</td>
+        <td class="hourlySalary">kr. ${s.rate}</td>
+        <td class="amount">kr. ${b.amount}</td>
+      </tr>`
+  );
+
+  return master + breaks.join("");
+}
+
+function payslipPage(p: FixturePayslip) {
+  const groups = p.groups.map(
+    (g) => `
+      <tr class="employeeGroupSummary">
+        <td class="paymentTypeNumber">&nbsp;</td>
+        <td colspan="2">&nbsp;</td>
+        <td class="text">Hours, ${g.name} <span class="small">(Break 0,50)</span></td>
+        <td class="count">${g.paidHours}</td>
+        <td>&nbsp;</td>
+        <td class="amount">kr. ${g.amount}</td>
+      </tr>
+      ${g.shifts.map(shiftRows).join("")}`
+  );
+
+  const payLines = (p.payLines ?? []).map(
+    (l) => `
+      <tr class="timesheetMasterRow">
+        <td class="paymentTypeNumber">${l.paymentType}</td>
+        <td class="dutyDate" colspan="2">${l.period}</td>
+        <td class="text">${l.text}</td>
+        <td class="count">${l.quantity}</td>
+        <td class="hourlySalary"></td>
+        <td class="amount">kr. ${l.amount}</td>
+      </tr>`
+  );
+
+  const subtotals = p.subtotals.map(
+    (s) => `
+      <tr class="subtotal">
+        <td class="label" colspan="4">${s.label}</td>
+        <td class="amount">${s.hours}</td>
+        <td class="amount">&nbsp;</td>
+        <td class="amount">kr. ${s.amount}</td>
+      </tr>`
+  );
+
+  return `
+<div class="page">
+  <table class="personInformation">
+    <tbody>
+      <tr><td class="label">Name</td><td class="value">${p.name}</td><td class="label">Date</td><td class="value">28.01.2026</td></tr>
+      <tr><td class="label">Employee number</td><td class="value">${p.employeeNumber}</td><td class="label">Start date</td><td class="value">01.01.2026</td></tr>
+      <tr><td class="label">Salary ID</td><td class="value">9${p.employeeNumber}</td><td class="label">End date</td><td class="value">31.01.2026</td></tr>
+      <tr><td class="label">Serial number</td><td class="value">${p.serialNumber}</td><td class="label">Page</td><td class="value">1 of 1</td></tr>
+    </tbody>
+  </table>
+  <table class="paySlip">
+    <thead>
+      <tr><th>Salary code</th><th>Date</th><th>Range</th><th>Text</th><th>Quantity</th><th>Hourly wage</th><th>Amount</th></tr>
+    </thead>
+    <tbody>
+      ${groups.join("")}
+      ${payLines.join("")}
+      <tr class="firstsubtotal"><td colspan="7">&nbsp;</td></tr>
+      ${subtotals.join("")}
+      <tr class="total">
+        <td class="label">Total</td>
+        <td class="label" colspan="3">${p.total.shifts === null ? "&nbsp;" : `Number of shifts: ${p.total.shifts}`}</td>
+        <td class="amount">${p.total.hours}</td>
+        <td class="amount">&nbsp;</td>
+        <td class="amount">kr. ${p.total.amount}</td>
+      </tr>
+    </tbody>
+  </table>
+</div>`;
+}
+
+export function payrollHtml(
+  payslips: FixturePayslip[],
+  header: { groups: FixtureGroupTotal[]; total: FixtureGroupTotal }
+) {
+  const row = (cells: FixtureGroupTotal, cls = "") => `
+    <tr${cls ? ` class="${cls}"` : ""}>${cells.map((c) => `<td>${c}</td>`).join("")}</tr>`;
+
+  return `<!DOCTYPE html>
+<html><body>
+<div class="first">
+  <table class="reportHeader">
+    <thead><tr><th>Employee group</th><th>Gross hours</th><th>Hours on break</th><th>Hours</th><th>Payroll</th><th>Break</th><th>Supplement</th><th>Total</th></tr></thead>
+    <tbody>
+      ${header.groups.map((g) => row(g)).join("")}
+      ${row(header.total, "total")}
+    </tbody>
+  </table>
+</div>
+${payslips.map(payslipPage).join("")}
+</body></html>`;
+}
+
+/** Kitchen (with a break), Service and a monthly salaried employee; printed totals add up. */
+export const SAMPLE_PAYSLIPS: FixturePayslip[] = [
+  {
+    name: "Anna Holm",
+    employeeNumber: "1001",
+    serialNumber: "202601010001001",
+    groups: [
+      {
+        name: "Kitchen",
+        paidHours: "9,50",
+        amount: "1.425,00",
+        shifts: [
+          {
+            date: "05.01.2026",
+            range: "16:00 - 22:00",
+            hours: "6,00",
+            rate: "150,00",
+            amount: "900,00",
+            breaks: [{ range: "19:00 - 19:30", hours: "0,50", amount: "-75,00" }],
+          },
+          { date: "06.01.2026", range: "10:00 - 14:00", hours: "4,00", rate: "150,00", amount: "600,00" },
+        ],
+      },
+    ],
+    subtotals: [
+      { label: "Paid hours", hours: "9,50", amount: "1.500,00" },
+      { label: "Break", hours: "0,50", amount: "-75,00" },
+    ],
+    total: { shifts: 2, hours: "9,50", amount: "1.425,00" },
+  },
+  {
+    name: "Jonas Berg",
+    employeeNumber: "1002",
+    serialNumber: "202601010001002",
+    groups: [
+      {
+        name: "Service",
+        paidHours: "6,00",
+        amount: "840,00",
+        shifts: [
+          { date: "07.01.2026", range: "17:00 - 23:00", hours: "6,00", rate: "140,00", amount: "840,00" },
+        ],
+      },
+    ],
+    subtotals: [
+      { label: "Paid hours", hours: "6,00", amount: "840,00" },
+      { label: "Break", hours: "0,00", amount: "0,00" },
+    ],
+    total: { shifts: 1, hours: "6,00", amount: "840,00" },
+  },
+  {
+    name: "Clara Lund",
+    employeeNumber: "1003",
+    serialNumber: "202601010001003",
+    groups: [],
+    payLines: [
+      {
+        paymentType: "1202",
+        period: "01.01.2026 - 31.01.2026",
+        text: "Månedlig løn",
+        quantity: "160,33",
+        amount: "30.000,00",
+      },
+    ],
+    subtotals: [{ label: "Månedlig løn", hours: "", amount: "30.000,00" }],
+    total: { shifts: null, hours: "0,00", amount: "30.000,00" },
+  },
+];
+
+export const SAMPLE_HEADER: { groups: FixtureGroupTotal[]; total: FixtureGroupTotal } = {
+  groups: [
+    ["Kitchen", "10,00", "0,5", "9,50", "kr. 1.500,00", "kr. -75,00", "kr. 0,00", "kr. 1.425,00"],
+    ["Service", "6,00", "0", "6,00", "kr. 840,00", "kr. 0,00", "kr. 0,00", "kr. 840,00"],
+    ["Månedlig løn", "0,00", "0", "0,00", "kr. 30.000,00", "kr. 0,00", "kr. 0,00", "kr. 30.000,00"],
+  ],
+  total: ["Sum total", "16,00", "0,5", "15,50", "kr. 32.340,00", "kr. -75,00", "kr. 0,00", "kr. 32.265,00"],
+};
+
+export const SAMPLE_PAYROLL_HTML = payrollHtml(SAMPLE_PAYSLIPS, SAMPLE_HEADER);
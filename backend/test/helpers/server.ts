@@ -0,0 +1,19 @@
+import express from "express";
+import type { AddressInfo } from "net";
+
+/** Serves `router` at `mount` on a free local port, as src/index.ts mounts it. */
+export async function serveRouter(mount: string, router: express.Router) {
+  const app = express();
+  app.use(express.json());
+  app.use(mount, router);
+
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const s = app.listen(0, "127.0.0.1", () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}${mount}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
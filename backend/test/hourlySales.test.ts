@@ -0,0 +1,35 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { db } from "../src/pos/db";
+import { getLocation } from "../src/locations/locations";
+import { HOURLY_TRANSACTIONS_UNAVAILABLE, hourlySales, hourlySalesRange } from "../src/pos/hourlySales";
+
+describe("hourly sales (mock POS)", () => {
+  beforeAll(() => {
+    process.env.POS_PROVIDER = "mock";
+    db.prepare(`UPDATE locations SET pos_firmaid = 1001 WHERE id = 'aarhus'`).run();
+    db.prepare(`DELETE FROM pos_hourly_sales`).run();
+  });
+
+  afterAll(() => {
+    delete process.env.POS_PROVIDER;
+  });
+
+  it("reports revenue and covers per hour and says transactions are not available", async () => {
+    const day = await hourlySales(getLocation("aarhus")!, "2026-03-04");
+
+    expect(day.hours).toHaveLength(24);
+    expect(day.hours[0].start).toBe("2026-03-04 00:00");
+    expect(day.revenue).toBeGreaterThan(0);
+    expect(day.hours.every((h) => !("transactions" in h))).toBe(true);
+    expect(day).toMatchObject({ transactions: null, transactionsUnavailable: HOURLY_TRANSACTIONS_UNAVAILABLE });
+  });
+
+  it("serves finished days from the cache", async () => {
+    const again = await hourlySales(getLocation("aarhus")!, "2026-03-04");
+    expect(again.cached).toBe(true);
+
+    const range = await hourlySalesRange(getLocation("aarhus")!, "2026-03-03", "2026-03-04");
+    expect(range.days.map((d) => d.cached)).toEqual([false, true]);
+    expect(range.transactions).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { db } from "../src/labor/db";
+import { intradayLabor } from "../src/labor/intraday";
+
+const LOCATION = "aarhus";
+
+function shift(date: string, from: string, to: string, paidHours: number) {
+  db.prepare(
+    `INSERT INTO labor_entries (employee, date, time_from, time_to, hours, paid_hours, amount, location_id)
+     VALUES ('Anna', ?, ?, ?, ?, ?, ?, ?)`
+  ).run(date, from, to, paidHours, paidHours, paidHours * 100, LOCATION);
+}
+
+const hourly = (date: string) => intradayLabor(date, 60, [LOCATION]);
+const starts = (date: string) => hourly(date).buckets.map((b) => b.start.slice(11));
+
+describe("intradayLabor", () => {
+  beforeEach(() => {
+    db.prepare(`DELETE FROM labor_entries`).run();
+  });
+  afterEach(() => {
+    delete process.env.BUSINESS_DAY_CUTOFF;
+  });
+
+  it("splits a late shift at the business day cutoff", () => {
+    shift("2026-03-04", "17:00", "01:30", 8.5);
+
+    expect(hourly("2026-03-04").hours).toBe(7);
+    expect(hourly("2026-03-05").hours).toBe(1.5);
+
+    process.env.BUSINESS_DAY_CUTOFF = "05:00";
+    const day = hourly("2026-03-04");
+    expect(day).toMatchObject({ cutoff: "05:00", hours: 8.5 });
+    expect(day.buckets[0].start).toBe("2026-03-04 05:00");
+  });
+
+  it("has 23 hourly buckets when the clocks go forward", () => {
+    shift("2026-03-29", "01:00", "04:00", 2);
+
+    expect(starts("2026-03-29")).toHaveLength(23);
+    expect(starts("2026-03-29").slice(0, 3)).toEqual(["00:00", "01:00", "03:00"]);
+
+    const buckets = hourly("2026-03-29").buckets.filter((b) => b.hours > 0);
+    expect(buckets.map((b) => [b.start.slice(11), b.hours])).toEqual([
+      ["01:00", 1],
+      ["03:00", 1],
+    ]);
+  });
+
+  it("has 25 hourly buckets when the clocks go back", () => {
+    shift("2026-10-25", "01:00", "04:00", 4);
+
+    expect(starts("2026-10-25")).toHaveLength(25);
+    expect(starts("2026-10-25").slice(0, 5)).toEqual(["00:00", "01:00", "02:00", "02:00", "03:00"]);
+    expect(hourly("2026-10-25").buckets.filter((b) => b.hours === 1)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { db } from "../src/pos/db";
+import { kpisRouter } from "../src/routes/kpis";
+import { runSource } from "../src/scheduler/nightlyImports";
+import { businessToday } from "../src/utils/businessCalendar";
+import { serveRouter } from "./helpers/server";
+
+const cachedDays = () =>
+  (db.prepare(`SELECT COUNT(*) AS c FROM pos_daily_transactions`).get() as { c: number }).c;
+
+describe("KPI transactions (mock POS)", () => {
+  let server: Awaited<ReturnType<typeof serveRouter>>;
+
+  beforeAll(async () => {
+    process.env.POS_PROVIDER = "mock";
+    db.prepare(`UPDATE locations SET pos_firmaid = 1001 WHERE id = 'aarhus'`).run();
+    server = await serveRouter("/api/kpis", kpisRouter);
+  });
+
+  afterAll(async () => {
+    delete process.env.POS_PROVIDER;
+    await server.close();
+  });
+
+  it("imports finished days through the nightly source", async () => {
+    for (const date of ["2026-03-02", "2026-03-03"]) {
+      const run = await runSource("pos-transactions", date, "manual");
+      expect(run.status).toBe("ok");
+    }
+    expect(cachedDays()).toBe(2);
+  });
+
+  it("reads only cached days and reports the missing ones", async () => {
+    const res = await fetch(`${server.url}?date=2026-03-03&location=aarhus`);
+    expect(res.status).toBe(200);
+    const kpis = await res.json();
+
+    const [monday, tuesday] = db
+      .prepare(`SELECT transactions, revenue FROM pos_daily_transactions ORDER BY date`)
+      .all() as { transactions: number; revenue: number }[];
+
+    expect(kpis.transactions.today).toBe(tuesday.transactions);
+    expect(kpis.averageTicket.today).toBeCloseTo(tuesday.revenue / tuesday.transactions, 2);
+    // Periods with missing days are unknown, and so are their comparisons
+    expect(kpis.transactions.week).toBeNull();
+    expect(kpis.transactions.lastYearSameWeekday).toBeNull();
+    expect(kpis.averageTicket.lastYearSameWeekday).toBeNull();
+    expect(kpis.transactions.comparisons.todayVsLastYearSameWeekday).toBeNull();
+    expect(kpis.transactions.comparisons.weekVsLastYearWeek).toBeNull();
+
+    const missing = kpis.meta.transactionsMissing;
+    expect(missing.periods).not.toContain("today");
+    expect(missing.periods).toEqual(expect.arrayContaining(["week", "lastYearSameWeekday"]));
+    // The year period runs up to today
+    expect(missing.ranges).toContainEqual({ from: "2026-03-04", to: businessToday() });
+
+    // Nothing was fetched on the request path
+    expect(cachedDays()).toBe(2);
+  });
+
+  it("sums a period once all of its days are cached", async () => {
+    for (const date of ["2026-03-04", "2026-03-05", "2026-03-06", "2026-03-07", "2026-03-08"]) {
+      expect((await runSource("pos-transactions", date, "manual")).status).toBe("ok");
+    }
+
+    const kpis = await (await fetch(`${server.url}?date=2026-03-08&location=aarhus`)).json();
+    const week = db
+      .prepare(`SELECT SUM(transactions) AS transactions FROM pos_daily_transactions`)
+      .get() as { transactions: number };
+
+    expect(kpis.transactions.week).toBe(week.transactions);
+    expect(kpis.meta.transactionsMissing.periods).not.toContain("week");
+    expect(kpis.transactions.comparisons.weekVsLastYearWeek).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import laborRoutes from "../src/labor/laborRoutes";
+import { importPayroll } from "../src/labor/payrollImport";
+import { saveLocation } from "../src/locations/locations";
+import { SAMPLE_PAYROLL_HTML } from "./fixtures/payroll";
+import { serveRouter } from "./helpers/server";
+
+describe("payroll import batch routes", () => {
+  let api: Awaited<ReturnType<typeof serveRouter>>;
+  let batchId: number;
+
+  beforeAll(async () => {
+    saveLocation({ id: "odense", name: "Odense", posFirmaId: null, plandayDepartmentId: null });
+    batchId = importPayroll(SAMPLE_PAYROLL_HTML, { locationId: "aarhus" }).batchId!;
+    api = await serveRouter("/api/labor", laborRoutes);
+  });
+
+  afterAll(() => api.close());
+
+  it("finds a batch within its own location or all locations", async () => {
+    for (const location of ["aarhus", "all"]) {
+      const res = await fetch(`${api.url}/imports/${batchId}?location=${location}`);
+      expect(res.status).toBe(200);
+      expect((await res.json()).locationId).toBe("aarhus");
+    }
+
+    const report = await fetch(`${api.url}/imports/${batchId}/reconciliation?location=aarhus`);
+    expect((await report.json()).status).toBe("ok");
+  });
+
+  it("does not show another location's batch", async () => {
+    expect((await fetch(`${api.url}/imports/${batchId}?location=odense`)).status).toBe(404);
+    expect((await fetch(`${api.url}/imports/${batchId}/reconciliation?location=odense`)).status).toBe(404);
+  });
+
+  it("rolls back only within the batch's location", async () => {
+    const other = await fetch(`${api.url}/imports/${batchId}/rollback?location=odense`, { method: "POST" });
+    expect(other.status).toBe(404);
+
+    const own = await fetch(`${api.url}/imports/${batchId}/rollback?location=aarhus`, { method: "POST" });
+    expect(own.status).toBe(200);
+    expect((await own.json()).status).toBe("ok");
+  });
+});
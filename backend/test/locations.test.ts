@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "../src/pos/db";
+import "../src/wolt/db";
+import { deleteLocation, getLocation, saveLocation } from "../src/locations/locations";
+
+describe("deleteLocation", () => {
+  beforeEach(() => {
+    saveLocation({ id: "vejle", name: "Vejle", posFirmaId: null, plandayDepartmentId: null });
+  });
+
+  it("deletes a location without data and never the last one", async () => {
+    expect(await deleteLocation("vejle")).toBe("deleted");
+    expect(getLocation("vejle")).toBeNull();
+    expect(await deleteLocation("vejle")).toBe("not_found");
+    expect(await deleteLocation("aarhus")).toBe("last");
+  });
+
+  it.each([
+    [
+      "wolt_sales",
+      `INSERT INTO wolt_sales (location_id, date, order_id, orders, gross, commission, fees, net_payout, batch_id)
+       VALUES ('vejle', '2026-03-01', 'A1', 1, 100, 20, 0, 80, 1)`,
+    ],
+    [
+      "pos_daily_transactions",
+      `INSERT INTO pos_daily_transactions (location_id, date, transactions, revenue, cached_at)
+       VALUES ('vejle', '2026-03-01', 10, 1000, '2026-03-02T06:00:00Z')`,
+    ],
+  ])("keeps a location with rows in %s", async (table, insert) => {
+    db.prepare(insert).run();
+
+    expect(await deleteLocation("vejle")).toBe("in_use");
+
+    db.prepare(`DELETE FROM ${table} WHERE location_id = 'vejle'`).run();
+    expect(await deleteLocation("vejle")).toBe("deleted");
+  });
+});
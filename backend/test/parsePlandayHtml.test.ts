@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parsePayrollHtml } from "../src/labor/parsePlandayHtml";
+import { SAMPLE_PAYROLL_HTML } from "./fixtures/payroll";
+
+describe("parsePayrollHtml", () => {
+  const payroll = parsePayrollHtml(SAMPLE_PAYROLL_HTML);
+
+  it("reads every payslip's employee", () => {
+    expect(payroll.employees.map((e) => [e.name, e.employeeNumber, e.serialNumber])).toEqual([
+      ["Anna Holm", "1001", "202601010001001"],
+      ["Jonas Berg", "1002", "202601010001002"],
+      ["Clara Lund", "1003", "202601010001003"],
+    ]);
+    expect(payroll.employees[0].periodStart).toBe("2026-01-01");
+    expect(payroll.employees[0].periodEnd).toBe("2026-01-31");
+  });
+
+  it("attributes shifts to the employee and group they are printed under", () => {
+    expect(
+      payroll.shifts.map((s) => [s.employee, s.employeeNumber, s.group, s.date, s.from, s.to])
+    ).toEqual([
+      ["Anna Holm", "1001", "Kitchen", "2026-01-05", "16:00", "22:00"],
+      ["Anna Holm", "1001", "Kitchen", "2026-01-06", "10:00", "14:00"],
+      ["Jonas Berg", "1002", "Service", "2026-01-07", "17:00", "23:00"],
+    ]);
+  });
+
+  it("deducts break rows from the shift above them", () => {
+    const [withBreak, withoutBreak] = payroll.shifts;
+
+    expect(withBreak).toMatchObject({
+      grossHours: 6,
+      breakMinutes: 30,
+      paidHours: 5.5,
+      amount: 900,
+      breakAmount: -75,
+      hourlyRate: 150,
+      paymentType: "01",
+    });
+    expect(withBreak.breaks).toEqual([{ from: "19:00", to: "19:30", minutes: 30, amount: -75 }]);
+    expect(withoutBreak).toMatchObject({ breakMinutes: 0, paidHours: 4, breakAmount: 0 });
+  });
+
+  it("reads period pay lines apart from shifts", () => {
+    expect(payroll.payLines).toEqual([
+      {
+        employee: "Clara Lund",
+        employeeNumber: "1003",
+        serialNumber: "202601010001003",
+        group: null,
+        paymentType: "1202",
+        text: "Månedlig løn",
+        periodStart: "2026-01-01",
+        periodEnd: "2026-01-31",
+        quantity: 160.33,
+        rate: null,
+        amount: 30000,
+      },
+    ]);
+  });
+
+  it("keeps the printed totals", () => {
+    const [anna] = payroll.printed!.payslips;
+
+    expect(anna.groups).toEqual([{ group: "Kitchen", paidHours: 9.5, amount: 1425 }]);
+    expect(anna.subtotals.map((s) => s.label)).toEqual(["Paid hours", "Break"]);
+    expect(anna.total).toEqual({ shifts: 2, hours: 9.5, amount: 1425 });
+
+    expect(payroll.printed!.groups.map((g) => g.group)).toEqual(["Kitchen", "Service", "Månedlig løn"]);
+    expect(payroll.printed!.total).toMatchObject({ group: "Sum total", paidHours: 15.5, total: 32265 });
+    expect(payroll.unparsed).toEqual([]);
+  });
+});
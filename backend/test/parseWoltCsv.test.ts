@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseAmount, parseReportDate, parseWoltCsv } from "../src/wolt/parseWoltCsv";
+
+describe("parseAmount", () => {
+  it.each([
+    ["1.234,56", 1234.56],
+    ["1,234.56", 1234.56],
+    ["1234.56", 1234.56],
+    ["12,5", 12.5],
+    ["-12,50 kr", -12.5],
+    ["DKK 99", 99],
+    ["(10,00)", -10],
+    ["−5,00", -5],
+    ["1.234", 1234],
+  ])("%s → %d", (raw, expected) => {
+    expect(parseAmount(raw)).toBe(expected);
+  });
+
+  it("is null without digits", () => {
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("n/a")).toBeNull();
+  });
+});
+
+describe("parseReportDate", () => {
+  beforeEach(() => {
+    process.env.BUSINESS_DAY_CUTOFF = "05:00";
+  });
+  afterEach(() => {
+    delete process.env.BUSINESS_DAY_CUTOFF;
+  });
+
+  it("reads ISO and Danish dates", () => {
+    expect(parseReportDate("2026-10-01")).toBe("2026-10-01");
+    expect(parseReportDate("1.10.2026")).toBe("2026-10-01");
+    expect(parseReportDate("01/10/2026 18:32")).toBe("2026-10-01");
+  });
+
+  it("puts times before the cutoff on the previous business day", () => {
+    expect(parseReportDate("2026-10-02 01:30")).toBe("2026-10-01");
+    expect(parseReportDate("2026-10-01T23:10:00Z")).toBe("2026-10-01"); // 01:10 local
+  });
+
+  it("is null for anything else", () => {
+    expect(parseReportDate("Total")).toBeNull();
+    expect(parseReportDate("")).toBeNull();
+  });
+});
+
+describe("parseWoltCsv", () => {
+  it("reads a per-order report, costs printed negative", () => {
+    const report = parseWoltCsv(
+      "﻿Order ID,Delivery time,Gross sales,Wolt commission,Fees,Net payout\n" +
+        'A1,2026-10-01 18:32,"1,234.50",-370.35,-5.00,859.15\n' +
+        "A2,2026-10-01 19:00,200.00,-60.00,0,140.00\n" +
+        "A2,2026-10-01 19:40,-50.00,15.00,0,-35.00\n" +
+        "Total,,1384.50,,,\n"
+    );
+
+    expect(report.granularity).toBe("orders");
+    expect(report.columns).toMatchObject({ orderId: "Order ID", gross: "Gross sales", orders: null });
+    expect(report.rows).toEqual([
+      { date: "2026-10-01", orderId: "A1", orders: 1, gross: 1234.5, commission: 370.35, fees: 5, netPayout: 859.15 },
+      expect.objectContaining({ orderId: "A2", gross: 200, commission: 60, netPayout: 140 }),
+      // A refund gives the commission back
+      expect.objectContaining({ orderId: "A2", gross: -50, commission: -15, netPayout: -35 }),
+    ]);
+    expect(report.skipped).toEqual([{ row: 5, reason: 'No date in ""' }]);
+  });
+
+  it("reads a Danish per-day report and derives the net payout", () => {
+    const report = parseWoltCsv(
+      "Dato;Antal ordrer;Bruttosalg;Kommission;Gebyrer\n" +
+        "03.10.2026;4;1.000,00;300,00;10,00\n" +
+        "\n" +
+        "04.10.2026;2;500,00;150,00;0,00\n"
+    );
+
+    expect(report.granularity).toBe("days");
+    expect(report.rows).toEqual([
+      { date: "2026-10-03", orderId: null, orders: 4, gross: 1000, commission: 300, fees: 10, netPayout: 690 },
+      { date: "2026-10-04", orderId: null, orders: 2, gross: 500, commission: 150, fees: 0, netPayout: 350 },
+    ]);
+  });
+
+  it("derives gross sales from the payout when there is no gross column", () => {
+    const report = parseWoltCsv("Date\tPayout\tCommission\n2026-10-05\t700,00\t-300,00\n");
+    expect(report.rows[0]).toMatchObject({ gross: 1000, commission: 300, netPayout: 700 });
+  });
+
+  it("rejects reports without the columns it needs", () => {
+    expect(() => parseWoltCsv("")).toThrow("Empty Wolt report");
+    expect(() => parseWoltCsv("Order ID,Gross sales\nA1,100\n")).toThrow("no date column");
+    expect(() => parseWoltCsv("Date,Commission\n2026-10-01,10\n")).toThrow("no gross sales or net payout");
+  });
+});
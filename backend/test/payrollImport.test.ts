@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "../src/labor/db";
+import { importPayroll, rollbackToBatch } from "../src/labor/payrollImport";
+import { saveLocation } from "../src/locations/locations";
+import { SAMPLE_HEADER, SAMPLE_PAYROLL_HTML, SAMPLE_PAYSLIPS, payrollHtml } from "./fixtures/payroll";
+
+const LOCATION = "aarhus";
+
+const countAt = (table: string, locationId: string) =>
+  (
+    db.prepare(`SELECT COUNT(*) AS c FROM ${table} WHERE location_id = ?`).get(locationId) as {
+      c: number;
+    }
+  ).c;
+
+function entries() {
+  return db
+    .prepare(`SELECT shift_key AS shiftKey, amount FROM labor_entries ORDER BY shift_key`)
+    .all() as { shiftKey: string; amount: number }[];
+}
+
+describe("importPayroll", () => {
+  beforeEach(() => {
+    for (const table of ["labor_entries", "labor_schedule", "labor_pay_lines", "labor_import_batches"]) {
+      db.prepare(`DELETE FROM ${table}`).run();
+    }
+  });
+
+  it("stores every shift and pay line once, and re-imports without changes", () => {
+    const first = importPayroll(SAMPLE_PAYROLL_HTML, { locationId: LOCATION });
+
+    expect(first.totals).toEqual({ inserted: 3, updated: 0, skipped: 0, removed: 0 });
+    expect(first.payLinesImported).toBe(1);
+    expect(first.reconciliation.status).toBe("ok");
+
+    const again = importPayroll(SAMPLE_PAYROLL_HTML, { locationId: LOCATION });
+    expect(again.totals).toEqual({ inserted: 0, updated: 0, skipped: 3, removed: 0 });
+    expect(again.sameFileAsBatch).toBe(first.batchId);
+    expect(entries()).toHaveLength(3);
+  });
+
+  it("keeps two identical shifts on one payslip apart", () => {
+    const [anna, ...rest] = SAMPLE_PAYSLIPS;
+    const kitchen = anna.groups[0];
+    const html = payrollHtml(
+      [{ ...anna, groups: [{ ...kitchen, shifts: [...kitchen.shifts, kitchen.shifts[1]] }] }, ...rest],
+      SAMPLE_HEADER
+    );
+
+    const first = importPayroll(html, { locationId: LOCATION });
+    expect(first.totals.inserted).toBe(4);
+    expect(entries().map((e) => e.shiftKey)).toEqual([
+      "2026-01-05 16:00-22:00",
+      "2026-01-06 10:00-14:00",
+      "2026-01-06 10:00-14:00 (2)",
+      "2026-01-07 17:00-23:00",
+    ]);
+
+    const again = importPayroll(html, { locationId: LOCATION });
+    expect(again.totals).toEqual({ inserted: 0, updated: 0, skipped: 4, removed: 0 });
+
+    // Re-issued without the duplicate: only the second one goes
+    const fixed = importPayroll(SAMPLE_PAYROLL_HTML, { locationId: LOCATION });
+    expect(fixed.totals).toMatchObject({ removed: 1, skipped: 3 });
+  });
+
+  it("keeps the same payslip serial numbers of two locations apart", () => {
+    saveLocation({ id: "odense", name: "Odense", posFirmaId: null, plandayDepartmentId: null });
+    const [anna, ...rest] = SAMPLE_PAYSLIPS;
+
+    importPayroll(SAMPLE_PAYROLL_HTML, { locationId: "odense" });
+    const aarhus = importPayroll(payrollHtml(rest, SAMPLE_HEADER), { locationId: LOCATION });
+    const later = importPayroll(SAMPLE_PAYROLL_HTML, { locationId: LOCATION });
+    expect(later.totals).toMatchObject({ inserted: anna.groups[0].shifts.length, removed: 0 });
+    expect(countAt("labor_entries", "odense")).toBe(3);
+
+    // Anna's payslip came with the later batch: only Aarhus's copy goes
+    rollbackToBatch(aarhus.batchId!);
+    expect(countAt("labor_entries", LOCATION)).toBe(3 - anna.groups[0].shifts.length);
+    expect(countAt("labor_entries", "odense")).toBe(3);
+    expect(countAt("labor_pay_lines", "odense")).toBe(1);
+  });
+
+  it("writes nothing on a dry run", () => {
+    const dry = importPayroll(SAMPLE_PAYROLL_HTML, { locationId: LOCATION, dryRun: true });
+
+    expect(dry.batchId).toBeNull();
+    expect(dry.totals.inserted).toBe(3);
+    expect(entries()).toEqual([]);
+  });
+});
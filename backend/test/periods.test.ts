@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { periodBounds } from "../src/labor/periods";
+
+describe("periodBounds", () => {
+  const tz = process.env.TZ;
+  afterEach(() => {
+    if (tz === undefined) delete process.env.TZ;
+    else process.env.TZ = tz;
+  });
+
+  it.each(["UTC", "America/New_York", "Pacific/Auckland"])(
+    "runs weeks Monday → Sunday whatever the server's TZ (%s)",
+    (zone) => {
+      process.env.TZ = zone;
+      for (const date of ["2026-03-02", "2026-03-04", "2026-03-08"]) {
+        expect(periodBounds("week", date)).toEqual({ from: "2026-03-02", to: "2026-03-08" });
+      }
+      expect(periodBounds("week", "2026-03-01")).toEqual({ from: "2026-02-23", to: "2026-03-01" });
+    }
+  );
+
+  it("bounds months and years", () => {
+    expect(periodBounds("month", "2028-02-10")).toEqual({ from: "2028-02-01", to: "2028-02-29" });
+    expect(periodBounds("year", "2026-03-04")).toEqual({ from: "2026-01-01", to: "2026-12-31" });
+  });
+});
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { db } from "../src/labor/db";
+import { getAccessToken, getConnectionStatus, plandayGet } from "../src/integrations/plandayAuth";
+import { plandayRouter } from "../src/routes/planday";
+import { serveRouter } from "./helpers/server";
+import { PlandayStandIn, startPlandayStandIn } from "./standins/planday";
+
+describe("Planday OAuth against a stand-in", () => {
+  let planday: PlandayStandIn;
+  let api: Awaited<ReturnType<typeof serveRouter>>;
+
+  /** /authorize → stand-in login → /callback, as a browser would follow it. */
+  async function connect() {
+    const authorize = await fetch(`${api.url}/authorize`, { redirect: "manual" });
+    expect(authorize.status).toBe(302);
+
+    const login = await fetch(authorize.headers.get("location")!, { redirect: "manual" });
+    expect(login.status).toBe(302);
+
+    return fetch(login.headers.get("location")!);
+  }
+
+  beforeAll(async () => {
+    planday = await startPlandayStandIn();
+    api = await serveRouter("/api/planday", plandayRouter);
+
+    Object.assign(process.env, {
+      PLANDAY_AUTH_BASE: planday.url,
+      PLANDAY_API_BASE: planday.url,
+      PLANDAY_CLIENT_ID: planday.clientId,
+      PLANDAY_CLIENT_SECRET: planday.clientSecret,
+      PLANDAY_REDIRECT_URI: `${api.url}/callback`,
+    });
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await planday.close();
+  });
+
+  beforeEach(() => {
+    db.prepare(`DELETE FROM planday_tokens`).run();
+    planday.grants.length = 0;
+    planday.expiresIn = 3600;
+  });
+
+  it("connects through authorize and callback and stores the tokens", async () => {
+    expect(getConnectionStatus().connected).toBe(false);
+
+    const callback = await connect();
+    const body = await callback.json();
+
+    expect(callback.status).toBe(200);
+    expect(body.ok).toBe(true);
+    expect(body.status).toMatchObject({ connected: true, refreshTokenSource: "store", accessTokenValid: true });
+    expect(planday.grants).toEqual(["authorization_code"]);
+
+    // Tokens never leave the server
+    expect(JSON.stringify(body)).not.toContain(planday.refreshToken);
+  });
+
+  it("rejects a callback with an unknown or reused state", async () => {
+    const authorize = await fetch(`${api.url}/authorize`, { redirect: "manual" });
+    const login = await fetch(authorize.headers.get("location")!, { redirect: "manual" });
+    const callbackUrl = login.headers.get("location")!;
+
+    expect((await fetch(callbackUrl)).status).toBe(200);
+    expect((await fetch(callbackUrl)).status).toBe(400);
+    expect((await fetch(`${api.url}/callback?code=x&state=forged`)).status).toBe(400);
+  });
+
+  it("calls the API with the cached access token", async () => {
+    await connect();
+
+    expect(await plandayGet("/hr/v1.0/employees")).toEqual({
+      data: [{ id: 1, firstName: "Anna", lastName: "Holm" }],
+    });
+    await plandayGet("/hr/v1.0/employees");
+    expect(planday.grants).toEqual(["authorization_code"]);
+  });
+
+  it("refreshes on a 401 and keeps the rotated refresh token", async () => {
+    await connect();
+    planday.revokeAccessToken();
+
+    expect(await plandayGet("/hr/v1.0/employees")).toMatchObject({ data: [{ id: 1 }] });
+    expect(planday.grants).toEqual(["authorization_code", "refresh_token"]);
+
+    const stored = db.prepare(`SELECT refresh_token FROM planday_tokens`).get() as { refresh_token: string };
+    expect(stored.refresh_token).toBe(planday.refreshToken);
+  });
+
+  it("refreshes an access token about to expire once for concurrent callers", async () => {
+    planday.expiresIn = 30; // inside the one-minute margin
+    await connect();
+
+    const tokens = await Promise.all([getAccessToken(), getAccessToken(), getAccessToken()]);
+
+    expect(new Set(tokens).size).toBe(1);
+    expect(tokens[0]).toBe(planday.accessToken);
+    expect(planday.grants).toEqual(["authorization_code", "refresh_token"]);
+  });
+
+  it("reports a revoked refresh token", async () => {
+    planday.expiresIn = 0;
+    await connect();
+    planday.revokeRefreshToken();
+
+    await expect(getAccessToken()).rejects.toThrow("refresh token revoked");
+
+    const status = getConnectionStatus();
+    expect(status.accessTokenValid).toBe(false);
+    expect(status.lastError).toContain("refresh token revoked");
+
+    const verify = await (await fetch(`${api.url}/status?verify=1`)).json();
+    expect(verify.healthy).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../src/labor/db";
+import { syncPlandayTimeAndCost } from "../src/labor/plandaySync";
+import { saveLocation } from "../src/locations/locations";
+
+// Time & cost answer of the department, paged by limit/offset like Planday;
+// employees and groups are looked up by id
+let entries: any[] = [];
+let timeAndCostCalls: string[] = [];
+
+vi.mock("../src/integrations/plandayAuth", () => ({
+  plandayGet: async (path: string) => {
+    if (path.startsWith("/timeandcost/")) {
+      timeAndCostCalls.push(path);
+      const query = new URLSearchParams(path.split("?")[1]);
+      const offset = Number(query.get("offset") ?? 0);
+      const limit = Number(query.get("limit") ?? entries.length);
+      return { data: { costs: entries.slice(offset, offset + limit) } };
+    }
+    if (path.startsWith("/hr/v1.0/employees")) return { data: [{ id: 11, firstName: "Anna", lastName: "Holm" }] };
+    return { data: [{ id: 3, name: "Kitchen" }] };
+  },
+}));
+
+const entry = (day: string, from: string, to: string) => ({
+  employeeId: 11,
+  employeeGroupId: 3,
+  startDateTime: `2026-03-${day}T${from}:00`,
+  endDateTime: `2026-03-${day}T${to}:00`,
+  breakDuration: 0,
+  cost: 600,
+});
+
+function count(table: string, locationId: string) {
+  return (
+    db.prepare(`SELECT COUNT(*) AS n FROM ${table} WHERE location_id = ?`).get(locationId) as { n: number }
+  ).n;
+}
+
+describe("syncPlandayTimeAndCost", () => {
+  beforeEach(() => {
+    for (const table of ["labor_entries", "labor_schedule", "labor_day_sources"]) {
+      db.prepare(`DELETE FROM ${table}`).run();
+    }
+    timeAndCostCalls = [];
+  });
+
+  it("stores an entry Planday repeats once and reports the repeat", async () => {
+    entries = [entry("02", "10:00", "14:00"), entry("02", "10:00", "14:00"), entry("03", "16:00", "20:00")];
+
+    const result = await syncPlandayTimeAndCost("aarhus", 7, "2026-03-01", "2026-03-31");
+
+    expect(result).toMatchObject({ entriesReceived: 3, inserted: 2, duplicates: 1, removed: 0 });
+    expect(result.days).toEqual(["2026-03-02", "2026-03-03"]);
+    expect(count("labor_entries", "aarhus")).toBe(2);
+    expect(count("labor_schedule", "aarhus")).toBe(2);
+
+    const day = db
+      .prepare(`SELECT entries FROM labor_day_sources WHERE location_id = 'aarhus' AND date = '2026-03-02'`)
+      .get() as { entries: number };
+    expect(day.entries).toBe(1);
+  });
+
+  it("reads every page of the entries", async () => {
+    // Two shifts a day for 30 days: more than one page
+    entries = Array.from({ length: 30 }, (_, i) => String(i + 1).padStart(2, "0")).flatMap((day) => [
+      entry(day, "10:00", "14:00"),
+      entry(day, "17:00", "22:00"),
+    ]);
+
+    const result = await syncPlandayTimeAndCost("aarhus", 7, "2026-03-01", "2026-03-31");
+
+    expect(timeAndCostCalls).toHaveLength(2);
+    expect(timeAndCostCalls[1]).toContain("offset=50");
+    expect(result).toMatchObject({ entriesReceived: 60, inserted: 60, duplicates: 0 });
+    expect(count("labor_entries", "aarhus")).toBe(60);
+  });
+
+  it("replaces only the synced location's rows of the department", async () => {
+    saveLocation({ id: "odense", name: "Odense", posFirmaId: null, plandayDepartmentId: 7 });
+
+    entries = [entry("02", "10:00", "14:00")];
+    await syncPlandayTimeAndCost("odense", 7, "2026-03-01", "2026-03-31");
+
+    entries = [entry("05", "10:00", "14:00")];
+    const result = await syncPlandayTimeAndCost("aarhus", 7, "2026-03-01", "2026-03-31");
+
+    expect(result.removed).toBe(0);
+    expect(count("labor_entries", "odense")).toBe(1);
+    expect(count("labor_entries", "aarhus")).toBe(1);
+
+    const again = await syncPlandayTimeAndCost("aarhus", 7, "2026-03-01", "2026-03-31");
+    expect(again).toMatchObject({ removed: 1, inserted: 1, duplicates: 0 });
+    expect(count("labor_entries", "odense")).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "../src/labor/db";
+import { importPayroll } from "../src/labor/payrollImport";
+import { mapScheduleExportRow, PlannedShift, replacePlannedShifts, scheduledTotals } from "../src/labor/plannedShifts";
+import { saveLocation } from "../src/locations/locations";
+import { SAMPLE_PAYROLL_HTML } from "./fixtures/payroll";
+
+const FEB = ["2026-02-01", "2026-02-28"] as const;
+
+const kitchenShift = (date: string, from: string, to: string): PlannedShift => ({
+  externalId: `${date} ${from}`,
+  employee: null,
+  employeeNumber: null,
+  group: "Kitchen",
+  date,
+  from,
+  to,
+  grossHours: 4,
+  breakMinutes: 0,
+  paidHours: 4,
+  hourlyRate: null,
+});
+
+describe("scheduledTotals", () => {
+  beforeAll(() => {
+    for (const table of ["labor_entries", "labor_schedule", "labor_pay_lines", "labor_planned_shifts"]) {
+      db.prepare(`DELETE FROM ${table}`).run();
+    }
+
+    // Kitchen costs 150/h in Aarhus (sample payroll) and 500/h in Odense
+    importPayroll(SAMPLE_PAYROLL_HTML, { locationId: "aarhus" });
+    saveLocation({ id: "odense", name: "Odense", posFirmaId: null, plandayDepartmentId: null });
+    db.prepare(
+      `INSERT INTO labor_entries (employee, employee_group, date, hours, paid_hours, amount, location_id)
+       VALUES ('Odense cook', 'Kitchen', '2026-01-10', 10, 10, 5000, 'odense')`
+    ).run();
+
+    // 2 Feb planned by both the Planday API and an export of the same schedule
+    replacePlannedShifts("aarhus", "planday-api", 7, ...FEB, [kitchenShift("2026-02-02", "10:00", "14:00")]);
+    const exported = [
+      { group: "Kitchen", date: "2026-02-02", from: "10:00", to: "14:00" },
+      { group: "Kitchen", date: "2026-02-03", from: "10:00", to: "14:00" },
+    ].map(mapScheduleExportRow);
+    replacePlannedShifts("aarhus", "export", 0, ...FEB, exported);
+  });
+
+  it("takes each day from one source, the Planday API before an export", () => {
+    const totals = scheduledTotals(...FEB, ["aarhus"]);
+
+    expect(totals.shifts).toBe(2);
+    expect(totals.hours).toBe(8);
+    expect(totals.days).toEqual(["2026-02-02", "2026-02-03"]);
+  });
+
+  it("prices shifts with the rates of their own location", () => {
+    const totals = scheduledTotals(...FEB, ["aarhus"]);
+
+    expect(totals.rateSources.group).toBe(2);
+    expect(totals.baseCost).toBe(2 * 4 * 150);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../src/pos/db";
+import {
+  getBackOfficeSession,
+  getBackOfficeSessionStatus,
+  withBackOfficeSession,
+} from "../src/integrations/posBackOffice";
+import { getBackOfficeBasicSales } from "../src/integrations/posOnline";
+import { posRouter } from "../src/routes/pos";
+import { serveRouter } from "./helpers/server";
+import { BackOfficeStandIn, startBackOfficeStandIn } from "./standins/posBackOffice";
+
+// No browser on the machine: log in through the fetch-driven form browser
+vi.mock("playwright", async (importOriginal) => {
+  if (process.env.POS_BO_BROWSER_PATH) return importOriginal();
+  const { formBrowser } = await import("./standins/formBrowser");
+  return { chromium: formBrowser };
+});
+
+describe("POS BackOffice session against a stand-in", () => {
+  let bo: BackOfficeStandIn;
+
+  const basicSales = () =>
+    withBackOfficeSession((session) => getBackOfficeBasicSales(1, "2026-03-02", session));
+
+  beforeAll(async () => {
+    bo = await startBackOfficeStandIn();
+
+    Object.assign(process.env, {
+      POS_BO_LOGIN_URL: `${bo.url}/login`,
+      POS_BO_API_BASE: bo.url,
+      POS_BO_USERNAME: bo.username,
+      POS_BO_PASSWORD: bo.password,
+      POS_MAX_RETRIES: "0",
+    });
+  });
+
+  afterAll(async () => {
+    await bo.close();
+  });
+
+  beforeEach(() => {
+    db.prepare(`DELETE FROM pos_bo_session`).run();
+    process.env.POS_BO_PASSWORD = bo.password;
+    bo.logins = 0;
+    bo.acceptSessions = true;
+  });
+
+  it("logs in, stores the session and reuses it", async () => {
+    const first = await basicSales();
+    expect(first).toMatchObject({ ok: true, revenue: 12345.5, transactionCount: 87 });
+
+    const session = await getBackOfficeSession();
+    expect(session.cookie).toContain("bo_session=");
+    expect(session.xsrf).not.toContain("%3D");
+
+    expect((await basicSales()).ok).toBe(true);
+    expect(bo.logins).toBe(1);
+    expect(getBackOfficeSessionStatus()).toMatchObject({
+      sessionSource: "login",
+      sessionValid: true,
+      lastCheckStatus: 200,
+    });
+  });
+
+  it("logs in again and retries once when the session has expired", async () => {
+    await basicSales();
+    bo.expireSessions();
+
+    const result = await basicSales();
+    expect(result.ok).toBe(true);
+    expect(bo.logins).toBe(2);
+  });
+
+  it("logs in again on an XSRF mismatch", async () => {
+    await basicSales();
+    bo.rotateXsrf();
+
+    expect((await basicSales()).ok).toBe(true);
+    expect(bo.logins).toBe(2);
+  });
+
+  it("returns the expired answer when the new session is refused too", async () => {
+    bo.acceptSessions = false;
+
+    const result = await basicSales();
+    expect(result.status).toBe(401);
+    expect(bo.logins).toBe(2);
+    expect(getBackOfficeSessionStatus()).toMatchObject({ sessionValid: false, lastCheckStatus: 401 });
+  });
+
+  it("records a failed login and keeps the error", async () => {
+    process.env.POS_BO_PASSWORD = "wrong";
+
+    await expect(basicSales()).rejects.toThrow("still on the login page");
+    expect(bo.logins).toBe(0);
+    expect(getBackOfficeSessionStatus().lastError).toMatch(/still on the login page/);
+  });
+
+  it("asks for the location's own venue", async () => {
+    const server = await serveRouter("/api/pos", posRouter);
+    try {
+      db.prepare(`UPDATE locations SET pos_firmaid = NULL WHERE id = 'aarhus'`).run();
+      const missing = await fetch(`${server.url}/today-live?date=2026-03-02&location=aarhus`);
+      expect(missing.status).toBe(400);
+      expect(await missing.json()).toEqual({ error: 'Location "aarhus" has no POS firmaid' });
+      expect((await fetch(`${server.url}/session?verify=1&location=aarhus`)).status).toBe(400);
+      expect(bo.logins).toBe(0);
+
+      db.prepare(`UPDATE locations SET pos_firmaid = 1001 WHERE id = 'aarhus'`).run();
+      const live = await fetch(`${server.url}/today-live?date=2026-03-02&location=aarhus`);
+      expect(await live.json()).toMatchObject({ ok: true, locationId: "aarhus", venue: 1001 });
+    } finally {
+      await server.close();
+    }
+  });
+});
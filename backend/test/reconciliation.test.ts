@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { parsePayrollHtml } from "../src/labor/parsePlandayHtml";
+import { reconcilePayroll } from "../src/labor/reconciliation";
+import { SAMPLE_PAYROLL_HTML } from "./fixtures/payroll";
+
+describe("reconcilePayroll", () => {
+  it("is ok when the parse adds up to the printed figures", () => {
+    const report = reconcilePayroll(parsePayrollHtml(SAMPLE_PAYROLL_HTML));
+
+    expect(report.status).toBe("ok");
+    expect(report.checks).toBeGreaterThan(20);
+    expect(report.mismatches).toEqual([]);
+  });
+
+  it("reports a shift the parser lost", () => {
+    const payroll = parsePayrollHtml(SAMPLE_PAYROLL_HTML);
+    payroll.shifts = payroll.shifts.filter((s) => s.date !== "2026-01-06");
+
+    const report = reconcilePayroll(payroll);
+    const items = report.mismatches.map((m) => `${m.scope} ${m.item}`);
+
+    expect(report.status).toBe("mismatch");
+    expect(items).toContain("payslip Kitchen amount");
+    expect(items).toContain("payslip Total shifts");
+    expect(items).toContain("report Sum total total");
+
+    const shiftCount = report.mismatches.find((m) => m.item === "Total shifts")!;
+    expect(shiftCount).toMatchObject({ employee: "Anna Holm", printed: 2, parsed: 1, diff: -1 });
+  });
+
+  it("reports a misread amount within the tolerance as ok", () => {
+    const payroll = parsePayrollHtml(SAMPLE_PAYROLL_HTML);
+    payroll.shifts[2].amount += 0.004;
+
+    expect(reconcilePayroll(payroll).status).toBe("ok");
+
+    payroll.shifts[2].amount += 1;
+    expect(reconcilePayroll(payroll).status).toBe("mismatch");
+  });
+
+  it("counts unparsed rows as a mismatch", () => {
+    const payroll = parsePayrollHtml(SAMPLE_PAYROLL_HTML);
+    payroll.unparsed = [{ employee: "Anna Holm", serialNumber: null, rowClass: "odd", text: "?" }];
+
+    const report = reconcilePayroll(payroll);
+    expect(report.status).toBe("mismatch");
+    expect(report.mismatches).toEqual([]);
+  });
+
+  it("is unchecked for batches stored without printed figures", () => {
+    const { printed: _printed, ...payroll } = parsePayrollHtml(SAMPLE_PAYROLL_HTML);
+
+    expect(reconcilePayroll(payroll)).toEqual({
+      status: "unchecked",
+      checks: 0,
+      mismatches: [],
+      unparsed: [],
+    });
+  });
+});
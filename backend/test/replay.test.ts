@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { db } from "../src/locations/db";
+import { dashboardRouter } from "../src/routes/dashboard";
+import { serveRouter } from "./helpers/server";
+
+// The business day and time the committed fixtures were recorded at (fixtures/README.md)
+const RECORDED_AT = new Date("2026-03-04T19:00:00Z");
+
+describe("dashboard from the committed replay fixtures", () => {
+  let server: Awaited<ReturnType<typeof serveRouter>>;
+
+  const dashboard = async (mode: "mock" | "replay") => {
+    process.env.PROVIDER_MODE = mode;
+    const body = await (await fetch(`${server.url}/today?location=aarhus`)).json();
+    return { ...body, providers: undefined };
+  };
+
+  beforeAll(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(RECORDED_AT);
+    db.prepare(
+      `UPDATE locations SET pos_firmaid = 1001, planday_department_id = 2001 WHERE id = 'aarhus'`
+    ).run();
+    server = await serveRouter("/api/dashboard", dashboardRouter);
+  });
+
+  afterAll(async () => {
+    vi.useRealTimers();
+    delete process.env.PROVIDER_MODE;
+    await server.close();
+  });
+
+  it("answers every source from a fixture", async () => {
+    const replayed = await dashboard("replay");
+
+    expect(replayed.errors).toEqual({});
+    expect(replayed.date).toBe("2026-03-04");
+    expect(replayed.revenue.pos).toBeGreaterThan(0);
+    expect(replayed.orders.pos).toBe(49);
+    expect(replayed.labor.staffScheduled).toBeGreaterThan(0);
+    expect(replayed.groceries.deliveries.length).toBeGreaterThan(0);
+  });
+
+  it("matches the mock it was recorded from", async () => {
+    expect(await dashboard("replay")).toEqual(await dashboard("mock"));
+  });
+
+  it("reports a failing source instead of failing the dashboard", async () => {
+    db.prepare(`UPDATE locations SET planday_department_id = NULL WHERE id = 'aarhus'`).run();
+    try {
+      const replayed = await dashboard("replay");
+      expect(replayed.labor.staffScheduled).toBeNull();
+      expect(replayed.errors).toEqual({ planday: 'Location "aarhus" has no Planday department' });
+      expect(replayed.revenue.pos).toBeGreaterThan(0);
+    } finally {
+      db.prepare(`UPDATE locations SET planday_department_id = 2001 WHERE id = 'aarhus'`).run();
+    }
+  });
+});
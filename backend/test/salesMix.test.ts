@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { db } from "../src/pos/db";
+import { getBackfillJob } from "../src/pos/backfill";
+import { salesMixRouter } from "../src/routes/salesMix";
+import { runSource } from "../src/scheduler/nightlyImports";
+import { serveRouter } from "./helpers/server";
+
+const productRows = () =>
+  (db.prepare(`SELECT COUNT(*) AS c FROM pos_product_sales`).get() as { c: number }).c;
+
+describe("sales mix (mock POS)", () => {
+  let server: Awaited<ReturnType<typeof serveRouter>>;
+
+  beforeAll(async () => {
+    Object.assign(process.env, { POS_PROVIDER: "mock", POS_BACKFILL_DELAY_MS: "0" });
+    db.prepare(`UPDATE locations SET pos_firmaid = 1001 WHERE id = 'aarhus'`).run();
+    server = await serveRouter("/api/sales-mix", salesMixRouter);
+  });
+
+  afterAll(async () => {
+    delete process.env.POS_PROVIDER;
+    delete process.env.POS_BACKFILL_DELAY_MS;
+    await server.close();
+  });
+
+  it("reports without importing and lists the missing days", async () => {
+    const res = await fetch(`${server.url}/changes?from=2026-03-02&to=2026-03-03&location=aarhus`);
+    const mix = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(mix.products).toEqual([]);
+    expect(mix.missing).toEqual({ days: 2, ranges: [{ from: "2026-03-02", to: "2026-03-03" }] });
+    expect(mix.compareMissing.days).toBe(2);
+    expect(productRows()).toBe(0);
+  });
+
+  it("reads the days imported by the nightly source", async () => {
+    for (const date of ["2026-03-02", "2026-03-03"]) {
+      expect((await runSource("pos-products", date, "manual")).status).toBe("ok");
+    }
+
+    const mix = await (
+      await fetch(`${server.url}/top?from=2026-03-02&to=2026-03-03&location=aarhus`)
+    ).json();
+    expect(mix.products.length).toBeGreaterThan(0);
+    expect(mix.missing).toEqual({ days: 0, ranges: [] });
+  });
+
+  it("imports a range as a product sales backfill job", async () => {
+    const res = await fetch(`${server.url}/import?from=2026-03-04&to=2026-03-05&location=aarhus`, {
+      method: "POST",
+    });
+    expect(res.status).toBe(202);
+    const { jobs } = await res.json();
+    expect(jobs[0]).toMatchObject({ kind: "product_sales", from: "2026-03-04", to: "2026-03-05" });
+
+    await expect.poll(() => getBackfillJob(jobs[0].id).status).toBe("completed");
+
+    const mix = await (
+      await fetch(`${server.url}/categories?from=2026-03-02&to=2026-03-05&location=aarhus`)
+    ).json();
+    expect(mix.missing.days).toBe(0);
+  });
+
+  it("needs POS_PRODUCT_SALES_PATH for the live POS", async () => {
+    Object.assign(process.env, { POS_PROVIDER: "live", POS_API_TOKEN: "token" });
+    try {
+      const run = await runSource("pos-products", "2026-03-06", "manual");
+      expect(run).toMatchObject({ status: "failed", error: "POS_PRODUCT_SALES_PATH not set" });
+    } finally {
+      process.env.POS_PROVIDER = "mock";
+      delete process.env.POS_API_TOKEN;
+    }
+  });
+});
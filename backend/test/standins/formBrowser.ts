@@ -0,0 +1,126 @@
+/**
+ * The part of Playwright's chromium the BackOffice login uses, over fetch:
+ * enough to fill in and submit a plain HTML form (no scripts) and to hand
+ * back the cookies it set. For machines without a browser; tests use the
+ * real Playwright when POS_BO_BROWSER_PATH is set.
+ *
+ * Locators understand comma-separated `input[attr="value"]` and
+ * `button[attr="value"]` selectors. Clicking a button submits the page's
+ * first form with the filled-in values; redirects are followed.
+ */
+
+type Cookie = { name: string; value: string; expires: number };
+
+function attributes(tag: string) {
+  const attrs = new Map<string, string>();
+  for (const m of tag.matchAll(/(\w+)="([^"]*)"/g)) attrs.set(m[1], m[2]);
+  return attrs;
+}
+
+/** Tags of `html` matching one of the selectors. */
+function matching(html: string, selector: string) {
+  const tags = [...html.matchAll(/<(input|button)\b[^>]*>/g)].map((m) => ({
+    name: m[1],
+    attrs: attributes(m[0]),
+  }));
+
+  const parts = selector.split(",").map((s) => /^(\w+)\[(\w+)="([^"]*)"\]$/.exec(s.trim()));
+  return tags.filter((t) => parts.some((p) => p && p[1] === t.name && t.attrs.get(p[2]) === p[3]));
+}
+
+function newContext() {
+  const jar = new Map<string, Cookie>();
+
+  const cookieHeader = () => [...jar.values()].map((c) => `${c.name}=${c.value}`).join("; ");
+
+  const store = (setCookies: string[]) => {
+    for (const line of setCookies) {
+      const [pair, ...params] = line.split(/;\s*/);
+      const i = pair.indexOf("=");
+      const expires = params.find((p) => /^expires=/i.test(p));
+      jar.set(pair.slice(0, i), {
+        name: pair.slice(0, i),
+        value: pair.slice(i + 1),
+        expires: expires ? Date.parse(expires.slice(8)) / 1000 : -1,
+      });
+    }
+  };
+
+  async function newPage() {
+    let url = "about:blank";
+    let html = "";
+    const values = new Map<string, string>();
+    const waiters: ((url: string) => void)[] = [];
+
+    async function navigate(target: string, init: { method?: string; body?: URLSearchParams } = {}) {
+      let next = target;
+      let request: RequestInit = { ...init, redirect: "manual" };
+
+      for (;;) {
+        const res = await fetch(next, { ...request, headers: { cookie: cookieHeader() } });
+        store(res.headers.getSetCookie());
+
+        const location = res.headers.get("location");
+        if (res.status >= 300 && res.status < 400 && location) {
+          next = new URL(location, next).toString();
+          request = { redirect: "manual" };
+          continue;
+        }
+
+        url = next;
+        html = await res.text();
+        values.clear();
+        waiters.splice(0).forEach((w) => w(url));
+        return;
+      }
+    }
+
+    const page = {
+      setDefaultTimeout: (_ms: number) => undefined,
+      url: () => url,
+      goto: (target: string) => navigate(target),
+      waitForLoadState: async (_state?: string) => undefined,
+
+      /** Resolves after the next navigation when it lands on a matching URL. */
+      waitForURL: (matches: (u: URL) => boolean, _opts?: { timeout?: number }) =>
+        new Promise<void>((resolve, reject) =>
+          waiters.push((landed) =>
+            matches(new URL(landed)) ? resolve() : reject(new Error(`Navigated to ${landed}`))
+          )
+        ),
+
+      locator: (selector: string) => ({
+        first: () => ({
+          fill: async (value: string) => {
+            const [tag] = matching(html, selector);
+            if (!tag) throw new Error(`No element for ${selector}`);
+            values.set(tag.attrs.get("name") ?? "", value);
+          },
+          click: async () => {
+            if (matching(html, selector).length === 0) throw new Error(`No element for ${selector}`);
+
+            const form = attributes(/<form\b[^>]*>/.exec(html)?.[0] ?? "");
+            await navigate(new URL(form.get("action") ?? url, url).toString(), {
+              method: (form.get("method") ?? "get").toUpperCase(),
+              body: new URLSearchParams([...values]),
+            });
+          },
+        }),
+      }),
+    };
+
+    return page;
+  }
+
+  return {
+    newPage,
+    cookies: async (_url?: string) => [...jar.values()],
+  };
+}
+
+export const formBrowser = {
+  launch: async (_opts?: { headless?: boolean; executablePath?: string }) => ({
+    newContext: async () => newContext(),
+    close: async () => undefined,
+  }),
+};
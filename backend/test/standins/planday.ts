@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import express from "express";
+import type { AddressInfo } from "net";
+
+/**
+ * Local stand-in for Planday's identity server and Open API, for
+ * PLANDAY_AUTH_BASE / PLANDAY_API_BASE:
+ *
+ * - GET  /connect/authorize: "logs in" at once and redirects to redirect_uri
+ *   with a code and the state
+ * - POST /connect/token: authorization_code and refresh_token grants; every
+ *   refresh rotates the refresh token and the old one stops working
+ * - GET  /hr/v1.0/employees: needs the current access token (else 401)
+ */
+export type PlandayStandIn = {
+  url: string;
+  clientId: string;
+  clientSecret: string;
+  /** Token endpoint calls, by grant type */
+  grants: string[];
+  refreshToken: string | null;
+  accessToken: string | null;
+  /** expires_in of the next tokens handed out */
+  expiresIn: number;
+  /** The current access token answers 401 from now on */
+  revokeAccessToken(): void;
+  /** The current refresh token is rejected from now on */
+  revokeRefreshToken(): void;
+  close(): Promise<void>;
+};
+
+export async function startPlandayStandIn(): Promise<PlandayStandIn> {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  const codes = new Map<string, string>(); // code → redirect_uri
+  const token = () => crypto.randomBytes(12).toString("hex");
+
+  const standIn = {
+    clientId: "standin-client",
+    clientSecret: "standin-secret",
+    grants: [] as string[],
+    refreshToken: null as string | null,
+    accessToken: null as string | null,
+    expiresIn: 3600,
+  } as PlandayStandIn;
+
+  const issue = () => {
+    standIn.accessToken = token();
+    standIn.refreshToken = token();
+    return {
+      access_token: standIn.accessToken,
+      refresh_token: standIn.refreshToken,
+      expires_in: standIn.expiresIn,
+      token_type: "Bearer",
+    };
+  };
+
+  app.get("/connect/authorize", (req, res) => {
+    const redirectUri = String(req.query.redirect_uri ?? "");
+    if (req.query.client_id !== standIn.clientId || !redirectUri) {
+      return res.status(400).send("invalid_client");
+    }
+
+    const code = token();
+    codes.set(code, redirectUri);
+    res.redirect(`${redirectUri}?code=${code}&state=${encodeURIComponent(String(req.query.state ?? ""))}`);
+  });
+
+  app.post("/connect/token", (req, res) => {
+    const body = req.body as Record<string, string>;
+    standIn.grants.push(body.grant_type);
+
+    if (body.client_id !== standIn.clientId || body.client_secret !== standIn.clientSecret) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+
+    if (body.grant_type === "authorization_code") {
+      const redirectUri = codes.get(body.code);
+      codes.delete(body.code);
+      if (!redirectUri || redirectUri !== body.redirect_uri) {
+        return res.status(400).json({ error: "invalid_grant", error_description: "bad code" });
+      }
+      return res.json(issue());
+    }
+
+    if (body.grant_type === "refresh_token") {
+      if (!standIn.refreshToken || body.refresh_token !== standIn.refreshToken) {
+        return res.status(400).json({ error: "invalid_grant", error_description: "refresh token revoked" });
+      }
+      return res.json(issue());
+    }
+
+    res.status(400).json({ error: "unsupported_grant_type" });
+  });
+
+  app.get("/hr/v1.0/employees", (req, res) => {
+    if (!standIn.accessToken || req.headers.authorization !== `Bearer ${standIn.accessToken}`) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (req.headers["x-clientid"] !== standIn.clientId) {
+      return res.status(403).json({ message: "Missing X-ClientId" });
+    }
+    res.json({ data: [{ id: 1, firstName: "Anna", lastName: "Holm" }] });
+  });
+
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const s = app.listen(0, "127.0.0.1", () => resolve(s));
+  });
+
+  standIn.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  standIn.revokeAccessToken = () => {
+    standIn.accessToken = token();
+  };
+  standIn.revokeRefreshToken = () => {
+    standIn.refreshToken = token();
+  };
+  standIn.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+
+  return standIn;
+}
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import express from "express";
+import type { AddressInfo } from "net";
+
+/**
+ * Local stand-in for the POS BackOffice, for POS_BO_LOGIN_URL (`/login`)
+ * and POS_BO_API_BASE:
+ *
+ * - GET  /login: the login form (email, password, submit button)
+ * - POST /login: right credentials set the session and XSRF-TOKEN cookies
+ *   and redirect to /dashboard; wrong ones show the form again
+ * - GET  /reports/getBasicSales: needs a live session cookie (else 401) and
+ *   its XSRF token in x-xsrf-token (else 419)
+ */
+export type BackOfficeStandIn = {
+  url: string;
+  username: string;
+  password: string;
+  /** Successful logins so far */
+  logins: number;
+  /** false: the report API answers 401 even to fresh sessions */
+  acceptSessions: boolean;
+  /** Every session answers 401 from now on */
+  expireSessions(): void;
+  /** Live sessions get a new XSRF token; requests with the old one answer 419 */
+  rotateXsrf(): void;
+  close(): Promise<void>;
+};
+
+const LOGIN_FORM = `<!DOCTYPE html>
+<html><body>
+<form method="post" action="/login">
+  <input type="email" name="email">
+  <input type="password" name="password">
+  <button type="submit">Log in</button>
+</form>
+</body></html>`;
+
+export async function startBackOfficeStandIn(): Promise<BackOfficeStandIn> {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  const sessions = new Map<string, string>(); // session id → XSRF token
+  // Laravel-style token: base64, so "=" ends up URL-encoded in the cookie
+  const token = () => crypto.randomBytes(16).toString("base64");
+
+  const standIn = {
+    username: "manager@example.com",
+    password: "standin-password",
+    logins: 0,
+    acceptSessions: true,
+    expireSessions: () => sessions.clear(),
+    rotateXsrf: () => {
+      for (const id of sessions.keys()) sessions.set(id, token());
+    },
+  } as BackOfficeStandIn;
+
+  app.get("/login", (_req, res) => res.type("html").send(LOGIN_FORM));
+
+  app.post("/login", (req, res) => {
+    if (req.body.email !== standIn.username || req.body.password !== standIn.password) {
+      return res.type("html").send(LOGIN_FORM);
+    }
+
+    const id = crypto.randomBytes(12).toString("hex");
+    const xsrf = token();
+    sessions.set(id, xsrf);
+    standIn.logins++;
+
+    const expires = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    res.cookie("bo_session", id, { expires, httpOnly: true, path: "/" });
+    res.cookie("XSRF-TOKEN", xsrf, { expires, path: "/" });
+    res.redirect("/dashboard");
+  });
+
+  app.get("/dashboard", (_req, res) => res.type("html").send("<html><body>Dashboard</body></html>"));
+
+  app.get("/reports/getBasicSales", (req, res) => {
+    const cookies = new Map(
+      (req.headers.cookie ?? "").split(/;\s*/).map((c) => {
+        const i = c.indexOf("=");
+        return [c.slice(0, i), c.slice(i + 1)] as [string, string];
+      })
+    );
+
+    const xsrf = sessions.get(cookies.get("bo_session") ?? "");
+    if (xsrf === undefined || !standIn.acceptSessions) {
+      return res.status(401).json({ message: "Unauthenticated." });
+    }
+    if (req.headers["x-xsrf-token"] !== xsrf) {
+      return res.status(419).json({ message: "CSRF token mismatch." });
+    }
+
+    res.json({ data: { revenue: 12345.5, transaction_count: 87 } });
+  });
+
+  const server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+
+  standIn.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  standIn.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+
+  return standIn;
+}
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { db } from "../src/wolt/db";
+import { importRouter } from "../src/routes/import";
+import { importWoltReport, woltDailySales } from "../src/wolt/woltImport";
+import { serveRouter } from "./helpers/server";
+
+const DECEMBER =
+  "Order ID,Delivery time,Gross sales,Wolt commission,Fees,Net payout\n" +
+  "D1,2026-12-31 18:10,200.00,-60.00,0,140.00\n" +
+  "D2,2026-12-31 20:45,100.00,-30.00,0,70.00\n";
+
+// J1 is delivered at 01:30, so it belongs to business day Dec 31
+const JANUARY =
+  "Order ID,Delivery time,Gross sales,Wolt commission,Fees,Net payout\n" +
+  "J1,2027-01-01 01:30,50.00,-15.00,0,35.00\n" +
+  "J2,2027-01-01 12:00,80.00,-24.00,0,56.00\n";
+
+const gross = (from: string, to: string) =>
+  Object.fromEntries(woltDailySales(["aarhus"], from, to).map((d) => [d.date, d.gross]));
+
+const importReport = (csv: string, dryRun = false) =>
+  importWoltReport(csv, { locationId: "aarhus", dryRun });
+
+describe("importWoltReport", () => {
+  beforeAll(() => {
+    process.env.BUSINESS_DAY_CUTOFF = "05:00";
+  });
+  afterAll(() => {
+    delete process.env.BUSINESS_DAY_CUTOFF;
+  });
+  beforeEach(() => {
+    db.prepare(`DELETE FROM wolt_sales`).run();
+  });
+
+  it("adds a report's early orders to the previous month's last day", async () => {
+    await importReport(DECEMBER);
+    const january = await importReport(JANUARY);
+
+    expect(january.periodStart).toBe("2026-12-31");
+    expect(gross("2026-12-31", "2027-01-01")).toEqual({ "2026-12-31": 350, "2027-01-01": 80 });
+    // The days written to daily_inputs.woltRevenue
+    expect(january.days).toEqual([
+      { date: "2026-12-31", orders: 3, gross: 350, commission: 105, fees: 0, netPayout: 245, storedGross: 300 },
+      { date: "2027-01-01", orders: 1, gross: 80, commission: 24, fees: 0, netPayout: 56, storedGross: 0 },
+    ]);
+  });
+
+  it("counts every order once when overlapping reports are imported again", async () => {
+    await importReport(DECEMBER);
+    await importReport(JANUARY);
+    const again = await importReport(JANUARY);
+    await importReport(DECEMBER);
+
+    expect(gross("2026-12-31", "2027-01-01")).toEqual({ "2026-12-31": 350, "2027-01-01": 80 });
+    expect(again.days.every((d) => d.gross === d.storedGross)).toBe(true);
+  });
+
+  it("moves an order to the day a later report puts it on", async () => {
+    await importReport(JANUARY);
+    const moved = await importReport(
+      "Order ID,Delivery time,Gross sales\nJ1,2027-01-01 06:00,50.00\n"
+    );
+
+    expect(moved.days.map((d) => [d.date, d.gross])).toEqual([
+      ["2026-12-31", 0],
+      ["2027-01-01", 130],
+    ]);
+  });
+
+  it("replaces only the days a per-day report lists", async () => {
+    await importReport("Date;Orders;Gross sales\n30.12.2026;3;300,00\n31.12.2026;2;200,00\n");
+    await importReport(DECEMBER);
+    await importReport("Date;Orders;Gross sales\n31.12.2026;4;450,00\n");
+
+    expect(gross("2026-12-30", "2026-12-31")).toEqual({ "2026-12-30": 300, "2026-12-31": 450 });
+  });
+
+  it("counts an order once when its adjustment is booked on a later day", async () => {
+    const result = await importReport(
+      DECEMBER + "D1,2027-01-02 10:00,-20.00,6.00,0,-14.00\n"
+    );
+
+    expect(result.totals.orders).toBe(2);
+    expect(woltDailySales(["aarhus"], "2026-12-31", "2027-01-02")).toMatchObject([
+      { date: "2026-12-31", orders: 2, gross: 300 },
+      { date: "2027-01-02", orders: 0, gross: -20 },
+    ]);
+  });
+
+  it("answers 400 for an unusable report and 500 when storing fails", async () => {
+    const server = await serveRouter("/api/import", importRouter);
+    const post = (csv: string) =>
+      fetch(`${server.url}/wolt?location=aarhus`, { method: "POST", body: csv });
+
+    try {
+      expect((await post("Order ID,Gross sales\nD1,200.00\n")).status).toBe(400);
+
+      db.exec(`ALTER TABLE wolt_sales RENAME TO wolt_sales_moved`);
+      try {
+        const failed = await post(DECEMBER);
+        expect(failed.status).toBe(500);
+        expect((await failed.json()).error).toMatch(/wolt_sales/);
+      } finally {
+        db.exec(`ALTER TABLE wolt_sales_moved RENAME TO wolt_sales`);
+      }
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("writes nothing on a dry run", async () => {
+    await importReport(DECEMBER);
+    const dry = await importReport(JANUARY, true);
+
+    expect(dry).toMatchObject({ dryRun: true, batchId: null, dailyInputs: null });
+    expect(dry.days[0]).toMatchObject({ date: "2026-12-31", gross: 350, storedGross: 300 });
+    expect(gross("2026-12-31", "2027-01-01")).toEqual({ "2026-12-31": 300 });
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // A fresh in-memory labor.db per test file, never the real one, and no Supabase
+    env: { LABOR_DB_PATH: ":memory:", SUPABASE_URL: "", SUPABASE_SERVICE_ROLE_KEY: "" },
+  },
+});
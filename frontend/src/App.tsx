@@ -3,6 +3,27 @@ import "./App.css";
 
 /* ================= TYPES ================= */
 
+type DiffBlock = {
+  current: number;
+  lastYear: number;
+  diff: number;
+  direction: "up" | "down" | "flat";
+};
+
+// null: the period's data is not all in yet (transactions, average ticket)
+type MetricKpis = {
+  today: number | null;
+  week: number | null;
+  month: number | null;
+  year: number | null;
+  comparisons: {
+    todayVsLastYearSameWeekday: DiffBlock | null;
+    weekVsLastYearWeek: DiffBlock | null;
+    monthVsLastYearMonth: DiffBlock | null;
+    yearVsLastYearYear: DiffBlock | null;
+  };
+};
+
 type KpisResponse = {
   date: string;
   revenue: {
@@ -43,20 +64,99 @@ type KpisResponse = {
     };
   };
 
+  transactions?: MetricKpis;
+  averageTicket?: MetricKpis;
+  covers?: MetricKpis;
+
   meta?: {
     cached?: boolean;
     cacheAgeSeconds?: number;
+    transactionsMissing?: {
+      days: number;
+      ranges: { from: string; to: string }[];
+      periods: string[];
+    };
   };
 };
 
+type LaborGroup = {
+  group: string;
+  laborCost: number;
+  hours: number;
+};
+
 type LaborResp = {
   laborCost: number;
+  hours?: number;
+  groups?: LaborGroup[];
+};
+
+type ProjectionResp = {
+  actual: { laborCost: number; hours: number };
+  scheduled: { laborCost: number; hours: number; shifts: number };
+  projected: { laborCost: number; hours: number };
+};
+
+type ComplianceViolation = {
+  rule: "rest" | "weeklyDayOff" | "avgWeeklyHours" | "breakRequired";
+  employee: string;
+  employeeNumber: string | null;
+  date: string;
+  planned: boolean;
+  message: string;
 };
 
 type ScheduleItem = {
   employee: string;
+  employeeNumber: string | null;
+  group: string | null;
+  from: string;
+  to: string;
+};
+
+type SalesHour = {
+  hour: number;
+  start: string;
+  end: string;
+  revenue: number;
+  covers: number;
+};
+
+type MixChange = {
+  name: string;
+  category: string;
+  revenue: number;
+  diff: number;
+  sharePct: number;
+  shareChangePts: number;
+};
+
+type SalesMixResp = {
   from: string;
   to: string;
+  compareFrom: string;
+  compareTo: string;
+  revenue: number;
+  diff: number;
+  categories: Omit<MixChange, "name">[];
+  products: MixChange[];
+  // Days without a final product sales import (nightly or backfill)
+  missing?: { days: number };
+  compareMissing?: { days: number };
+};
+
+type Location = {
+  id: string;
+  name: string;
+};
+
+type HourlySalesResp = {
+  date: string;
+  cutoff: string;
+  final: boolean;
+  revenue: number;
+  covers: number;
+  hours: SalesHour[];
 };
 
 /* ================= CONFIG ================= */
@@ -66,6 +166,8 @@ const API_BASE_URL =
 
 const VAT_RATE = 0.25;
 
+const ALL_LOCATIONS = "all";
+
 /* ================= HELPERS ================= */
 
 function fmtMoney(n: number) {
@@ -76,6 +178,16 @@ function getTodayIso() {
   return new Date().toISOString().slice(0, 10);
 }
 
+function addDaysIso(iso: string, days: number) {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function signed(n: number, text: string) {
+  return `${n >= 0 ? "+" : ""}${text}`;
+}
+
 function directionToKind(d?: "up" | "down" | "flat") {
   if (d === "up") return "green";
   if (d === "down") return "red";
@@ -164,6 +276,9 @@ function StatCard({
 
 export default function App() {
   const [date] = useState(getTodayIso());
+  // "" until locations load; nothing is fetched before that
+  const [location, setLocation] = useState("");
+  const [locations, setLocations] = useState<Location[]>([]);
   const [kpis, setKpis] = useState<KpisResponse | null>(null);
 
   const [laborDay, setLaborDay] = useState<LaborResp | null>(null);
@@ -171,30 +286,94 @@ export default function App() {
   const [laborMonth, setLaborMonth] = useState<LaborResp | null>(null);
   const [laborYear, setLaborYear] = useState<LaborResp | null>(null);
 
+  const [projWeek, setProjWeek] = useState<ProjectionResp | null>(null);
+  const [projMonth, setProjMonth] = useState<ProjectionResp | null>(null);
+
   const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
+  const [violations, setViolations] = useState<ComplianceViolation[]>([]);
+  const [hourly, setHourly] = useState<HourlySalesResp | null>(null);
+  const [salesMix, setSalesMix] = useState<SalesMixResp | null>(null);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/locations`)
+      .then((r) => r.json())
+      .then((data) => {
+        const list: Location[] = data.locations ?? [];
+        setLocations(list);
+        setLocation((current) => current || list[0]?.id || "");
+      })
+      .catch(() => setLocations([]));
+  }, []);
 
   useEffect(() => {
-    fetch(`${API_BASE_URL}/api/kpis?date=${date}`, { cache: "no-store" })
+    // Wait for the locations: "" would load the default location first
+    if (!location) return;
+
+    // A location switch aborts the requests of the previous one; answers
+    // that arrive anyway are dropped
+    const controller = new AbortController();
+    const { signal } = controller;
+    const keep =
+      <T,>(set: (value: T) => void) =>
+      (value: T) => {
+        if (!signal.aborted) set(value);
+      };
+    const loc = `&location=${encodeURIComponent(location)}`;
+
+    fetch(`${API_BASE_URL}/api/kpis?date=${date}${loc}`, { cache: "no-store", signal })
       .then((r) => r.json())
-      .then(setKpis);
+      .then(keep(setKpis))
+      .catch(() => undefined);
+
+    // Hourly sales are per location
+    if (location === ALL_LOCATIONS) {
+      setHourly(null);
+    } else {
+      fetch(`${API_BASE_URL}/api/pos/hourly?date=${date}${loc}`, { cache: "no-store", signal })
+        .then((r) => (r.ok ? r.json() : null))
+        .then(keep(setHourly))
+        .catch(() => keep(setHourly)(null));
+    }
+
+    // Last 28 days against the 28 before
+    fetch(
+      `${API_BASE_URL}/api/sales-mix/changes?from=${addDaysIso(date, -27)}&to=${date}&limit=5${loc}`,
+      { signal }
+    )
+      .then((r) => (r.ok ? r.json() : null))
+      .then(keep(setSalesMix))
+      .catch(() => keep(setSalesMix)(null));
 
     Promise.all([
-      fetch(`${API_BASE_URL}/api/labor/day?date=${date}`),
-      fetch(`${API_BASE_URL}/api/labor/week?date=${date}`),
-      fetch(`${API_BASE_URL}/api/labor/month?date=${date}`),
-      fetch(`${API_BASE_URL}/api/labor/year?date=${date}`),
-      fetch(`${API_BASE_URL}/api/labor/schedule/today?date=${date}`),
-    ]).then(async ([d, w, m, y, s]) => {
-      if (d.ok) setLaborDay(await d.json());
-      if (w.ok) setLaborWeek(await w.json());
-      if (m.ok) setLaborMonth(await m.json());
-      if (y.ok) setLaborYear(await y.json());
-      if (s.ok) {
-        const data = await s.json();
-        setSchedule(data.schedule ?? []);
-      }
-    });
-  }, [date]);
+      fetch(`${API_BASE_URL}/api/labor/day?date=${date}${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/week?date=${date}${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/month?date=${date}${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/year?date=${date}${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/schedule/today?date=${date}${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/projection?date=${date}&period=week${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/projection?date=${date}&period=month${loc}`, { signal }),
+      fetch(`${API_BASE_URL}/api/labor/compliance?from=${date}&to=${date}${loc}`, { signal }),
+    ])
+      .then(async ([d, w, m, y, s, pw, pm, c]) => {
+        if (d.ok) keep(setLaborDay)(await d.json());
+        if (w.ok) keep(setLaborWeek)(await w.json());
+        if (m.ok) keep(setLaborMonth)(await m.json());
+        if (y.ok) keep(setLaborYear)(await y.json());
+        if (s.ok) {
+          const data = await s.json();
+          keep(setSchedule)(data.schedule ?? []);
+        }
+        if (pw.ok) keep(setProjWeek)(await pw.json());
+        if (pm.ok) keep(setProjMonth)(await pm.json());
+        if (c.ok) {
+          const data = await c.json();
+          keep(setViolations)(data.violations ?? []);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => controller.abort();
+  }, [date, location]);
 
   /* ---------- VAT-adjusted sales ---------- */
 
@@ -213,13 +392,46 @@ export default function App() {
   const pctMonth = laborMonth ? (laborMonth.laborCost / netMonth) * 100 : null;
   const pctYear = laborYear ? (laborYear.laborCost / netYear) * 100 : null;
 
+  const violationsFor = (s: ScheduleItem) =>
+    violations.filter((v) =>
+      s.employeeNumber ? v.employeeNumber === s.employeeNumber : v.employee === s.employee
+    );
+
+  /* ---------- Projected labor vs forecast (last year's sales) ---------- */
+
+  const forecastWeek = (kpis?.revenue.lastYearWeek ?? 0) / (1 + VAT_RATE);
+  const forecastMonth = (kpis?.revenue.lastYearMonth ?? 0) / (1 + VAT_RATE);
+
+  const pctProjWeek =
+    projWeek && forecastWeek ? (projWeek.projected.laborCost / forecastWeek) * 100 : null;
+  const pctProjMonth =
+    projMonth && forecastMonth
+      ? (projMonth.projected.laborCost / forecastMonth) * 100
+      : null;
+
+  // Transactions come from the nightly import; today's arrive tomorrow
+  const txMissing = kpis?.meta?.transactionsMissing;
+  const mixMissingDays = (salesMix?.missing?.days ?? 0) + (salesMix?.compareMissing?.days ?? 0);
+
   return (
     <div className="page">
       <div className="topHeader">
         <div className="brand">
           <div className="brandTitle">Dashboard</div>
           <div className="brandSub">
-            Location: <span className="brandSubStrong">Aarhus (Gaia)</span>
+            Location:{" "}
+            <select
+              className="locationSelect"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+            >
+              {locations.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+              {locations.length > 1 && <option value={ALL_LOCATIONS}>All locations</option>}
+            </select>
           </div>
         </div>
       </div>
@@ -262,21 +474,50 @@ export default function App() {
                   label="Today labor cost"
                   cost={laborDay?.laborCost}
                   pct={pctToday}
+                  groups={laborDay?.groups}
+                  hours={laborDay?.hours}
+                  netSales={netToday}
                 />
                 <LaborRow
                   label="Week labor cost"
                   cost={laborWeek?.laborCost}
                   pct={pctWeek}
+                  groups={laborWeek?.groups}
+                  hours={laborWeek?.hours}
+                  netSales={netWeek}
                 />
                 <LaborRow
                   label="Month labor cost"
                   cost={laborMonth?.laborCost}
                   pct={pctMonth}
+                  groups={laborMonth?.groups}
+                  hours={laborMonth?.hours}
+                  netSales={netMonth}
                 />
                 <LaborRow
                   label="Year labor cost"
                   cost={laborYear?.laborCost}
                   pct={pctYear}
+                  groups={laborYear?.groups}
+                  hours={laborYear?.hours}
+                  netSales={netYear}
+                />
+
+                <LaborRow
+                  label="Week projected (actual + scheduled)"
+                  cost={projWeek?.projected.laborCost}
+                  pct={pctProjWeek}
+                  hours={projWeek?.projected.hours}
+                  netSales={forecastWeek}
+                  note={projectionNote(projWeek, forecastWeek)}
+                />
+                <LaborRow
+                  label="Month projected (actual + scheduled)"
+                  cost={projMonth?.projected.laborCost}
+                  pct={pctProjMonth}
+                  hours={projMonth?.projected.hours}
+                  netSales={forecastMonth}
+                  note={projectionNote(projMonth, forecastMonth)}
                 />
 
                 <div style={{ marginTop: 8 }}>
@@ -288,12 +529,28 @@ export default function App() {
                     <div>—</div>
                   ) : (
                     schedule.map((s, i) => (
-                      <div key={i}>
-                        • {s.employee} — {s.from} → {s.to}
+                      <div key={`${s.employeeNumber ?? s.employee}-${i}`}>
+                        • {s.employee}
+                        {s.group ? ` (${s.group})` : ""} — {s.from} → {s.to}
+                        {violationsFor(s).length > 0 && " ⚠️"}
                       </div>
                     ))
                   )}
                 </div>
+
+                {violations.length > 0 && (
+                  <div style={{ marginTop: 8 }}>
+                    <div style={{ fontWeight: 700, marginBottom: 4 }}>
+                      ⚠️ Working-time warnings
+                    </div>
+                    {violations.map((v, i) => (
+                      <div key={`${v.rule}-${v.employeeNumber ?? v.employee}-${i}`} className="smallNote">
+                        {v.employee}: {v.message}
+                        {v.planned ? " (planned)" : ""}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </Panel>
           </div>
@@ -302,6 +559,52 @@ export default function App() {
         <div className="splitSection">
           <div className="sectionTitle">Next modules</div>
 
+          <Panel
+            title="Sales by hour"
+            subtitle={
+              location === ALL_LOCATIONS
+                ? "Pick a single location"
+                : hourly
+                ? `Business day from ${hourly.cutoff} · ${fmtMoney(hourly.revenue)} DKK · ${hourly.covers} covers`
+                : "—"
+            }
+          >
+            <HourlyBars hours={hourly?.hours ?? []} />
+          </Panel>
+
+          <Panel
+            title="Guests & ticket"
+            subtitle={
+              txMissing?.periods.some((p) => p !== "today")
+                ? `Transactions not imported yet for ${txMissing.days} days`
+                : txMissing?.periods.includes("today")
+                ? "Transactions of a day arrive with its nightly import"
+                : "Today vs same weekday last year"
+            }
+          >
+            <div className="simpleList">
+              <MetricRow label="Transactions" metric={kpis?.transactions} format={fmtMoney} />
+              <MetricRow
+                label="Avg ticket"
+                metric={kpis?.averageTicket}
+                format={(n) => `${fmtMoney(n)} DKK`}
+              />
+              <MetricRow label="Covers" metric={kpis?.covers} format={fmtMoney} />
+            </div>
+          </Panel>
+
+          <Panel
+            title="Sales mix"
+            subtitle={
+              salesMix
+                ? `${salesMix.from} → ${salesMix.to} vs ${salesMix.compareFrom} → ${salesMix.compareTo}` +
+                  (mixMissingDays ? ` · ${mixMissingDays} days not imported yet` : "")
+                : "—"
+            }
+          >
+            <SalesMix mix={salesMix} />
+          </Panel>
+
           <Panel title="COGS" subtitle="Integration coming" />
           <Panel title="Delivery Orders" subtitle="Integration coming" />
         </div>
@@ -314,24 +617,171 @@ export default function App() {
   );
 }
 
+/* ================= HOURLY SALES ================= */
+
+function HourlyBars({ hours }: { hours: SalesHour[] }) {
+  const max = Math.max(0, ...hours.map((h) => h.revenue));
+  const shown = hours.filter((h) => h.revenue > 0 || h.covers > 0);
+
+  if (shown.length === 0) return <div>—</div>;
+
+  return (
+    <div className="hourlyBars">
+      {shown.map((h) => (
+        <div key={h.hour} className="hourlyRow">
+          <span className="hourlyClock">{h.start.slice(11)}</span>
+          <div className="hourlyTrack">
+            <div
+              className="hourlyFill"
+              style={{ width: `${max ? (h.revenue / max) * 100 : 0}%` }}
+            />
+          </div>
+          <span className="hourlyValue">
+            {fmtMoney(h.revenue)} DKK · {h.covers}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /* ================= LABOR ROW ================= */
 
+/** Category shares with their change, then the products that moved most. */
+function SalesMix({ mix }: { mix: SalesMixResp | null }) {
+  if (!mix || mix.categories.length === 0) return <div>—</div>;
+
+  const kind = (n: number) => (n > 0 ? "green" : n < 0 ? "red" : "neutral");
+
+  return (
+    <div className="simpleList">
+      {mix.categories.map((c) => (
+        <div key={c.category} className="simpleRow">
+          <span className="muted">{c.category}</span>
+          <span>
+            <span className="bright">{c.sharePct.toFixed(1)}%</span>{" "}
+            <MiniPill
+              kind={kind(c.shareChangePts)}
+              text={`${signed(c.shareChangePts, c.shareChangePts.toFixed(1))} pts`}
+            />
+          </span>
+        </div>
+      ))}
+
+      <div style={{ fontWeight: 700, marginTop: 4 }}>Top movers</div>
+      {mix.products.map((p) => (
+        <div key={`${p.category}-${p.name}`} className="simpleRow">
+          <span className="muted">
+            {p.name} <span className="smallNote">({p.category})</span>
+          </span>
+          <MiniPill kind={kind(p.diff)} text={`${signed(p.diff, fmtMoney(p.diff))} DKK`} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Today's value with its diff, and week/month/year below. A null value or
+ * comparison (data not in yet) shows as "no data", not as 0 or a drop.
+ */
+function MetricRow({
+  label,
+  metric,
+  format,
+}: {
+  label: string;
+  metric?: MetricKpis | null;
+  format: (n: number) => string;
+}) {
+  const valueText = (n: number | null) => (n === null ? "no data" : format(n));
+  const diffText = (d: DiffBlock | null) =>
+    d ? `${d.diff >= 0 ? "+" : ""}${format(d.diff)}` : "no data";
+  const today = metric?.comparisons.todayVsLastYearSameWeekday;
+
+  return (
+    <div>
+      <div className="simpleRow">
+        <span className="muted">{label}</span>
+        <span>
+          <span className="bright">{metric ? valueText(metric.today) : "—"}</span>{" "}
+          <MiniPill kind={directionToKind(today?.direction)} text={today ? diffText(today) : "—"} />
+        </span>
+      </div>
+      {metric && (
+        <div className="smallNote" style={{ marginTop: 4 }}>
+          Week {valueText(metric.week)} ({diffText(metric.comparisons.weekVsLastYearWeek)}) ·
+          Month {valueText(metric.month)} ({diffText(metric.comparisons.monthVsLastYearMonth)}) ·
+          Year {valueText(metric.year)} ({diffText(metric.comparisons.yearVsLastYearYear)})
+        </div>
+      )}
+    </div>
+  );
+}
+
+function projectionNote(p: ProjectionResp | null, forecast: number) {
+  if (!p) return undefined;
+  return (
+    `${fmtMoney(p.actual.laborCost)} actual + ${fmtMoney(p.scheduled.laborCost)} scheduled` +
+    ` · forecast ${fmtMoney(forecast)} DKK (last year)`
+  );
+}
+
 function LaborRow({
   label,
   cost,
   pct,
+  groups,
+  hours,
+  netSales,
+  note,
 }: {
   label: string;
   cost?: number;
   pct: number | null;
+  groups?: LaborGroup[];
+  hours?: number;
+  netSales?: number;
+  note?: string;
 }) {
+  const salesPerHour = hours && netSales ? netSales / hours : null;
+
   return (
-    <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-      <div>
-        <div style={{ fontWeight: 700 }}>{label}</div>
-        <div>{typeof cost === "number" ? `${fmtMoney(cost)} DKK` : "—"}</div>
+    <div>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+        <div>
+          <div style={{ fontWeight: 700 }}>{label}</div>
+          <div>{typeof cost === "number" ? `${fmtMoney(cost)} DKK` : "—"}</div>
+          {typeof hours === "number" && (
+            <div className="smallNote">
+              {hours} h
+              {salesPerHour !== null &&
+                ` · ${fmtMoney(salesPerHour)} DKK sales / labor hour`}
+            </div>
+          )}
+          {note && <div className="smallNote">{note}</div>}
+        </div>
+        <MiniPill kind={pctLamp(pct)} text={pctText(pct)} />
       </div>
-      <MiniPill kind={pctLamp(pct)} text={pctText(pct)} />
+
+      {groups && groups.length > 1 && (
+        <div className="smallNote" style={{ marginTop: 4 }}>
+          {groups.map((g) => {
+            const groupPct = netSales ? (g.laborCost / netSales) * 100 : null;
+            return (
+              <div
+                key={g.group}
+                style={{ display: "flex", justifyContent: "space-between" }}
+              >
+                <span>
+                  {g.group}: {fmtMoney(g.laborCost)} DKK · {g.hours} h
+                </span>
+                <span>{pctText(groupPct)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }